@@ -1,33 +1,137 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { FormList } from './components/FormList';
+import { FormGraphCanvas } from './components/FormGraphCanvas';
 import { PrefillConfiguration } from './components/PrefillConfiguration';
 import { DataSourceModal } from './components/DataSourceModal';
+import { MappingReconciliationPanel } from './components/MappingReconciliationPanel';
+import { BlueprintExportMenu } from './components/BlueprintExportMenu';
+import { ConflictResolutionDialog } from './components/ConflictResolutionDialog';
+import { DependencyDiagnosticsPanel } from './components/DependencyDiagnosticsPanel';
+import { BlueprintSwitcher } from './components/BlueprintSwitcher';
+import { OfflineBanner } from './components/OfflineBanner';
+import { CycleDiagnosticsView } from './components/CycleDiagnosticsView';
+import { DownstreamImpactPanel } from './components/DownstreamImpactPanel';
+import { MappingRepairWizard } from './components/MappingRepairWizard';
+import { BlueprintDiffPanel } from './components/BlueprintDiffPanel';
 import { useForms } from './hooks/useForms';
-import { usePrefillMappings } from './hooks/usePrefillMappings';
+import { useBlueprintSelection } from './hooks/useBlueprintSelection';
+import { MappingSyncOptions, usePrefillMappings } from './hooks/usePrefillMappings';
 import { useDataSources } from './hooks/useDataSources';
 import { usePrefillWorkflow } from './hooks/usePrefillWorkflow';
+import { useBlueprintHistory } from './hooks/useBlueprintHistory';
+import { parseNodeInputMapping, reconcileMappings } from './services/inputMappingImport';
+import { ApiError } from './services/apiService';
+import { formatValidationIssue } from './services/responseValidator';
+import { retypeMapping, validateMappings } from './services/mappingValidation';
+import { DataSourcePlugin } from './types';
+
+interface AppProps {
+  /** Data sources contributed by the host application (keep the array stable) */
+  dataSourcePlugins?: DataSourcePlugin[];
+}
 
 /**
  * Main application component
  * Manages the overall layout and state for the prefill mapping UI
  */
-function App() {
+function App({ dataSourcePlugins }: AppProps) {
   const [selectedFormId, setSelectedFormId] = useState<string | null>(null);
+  const [formView, setFormView] = useState<'list' | 'graph'>('list');
+
+  // Which tenant's blueprint is open (kept in the URL)
+  const { selection, select } = useBlueprintSelection();
+
+  // Forms of one blueprint mean nothing in another
+  const selectionKey = `${selection.tenantId}:${selection.blueprintId}`;
+  const [shownSelectionKey, setShownSelectionKey] = useState(selectionKey);
+  if (shownSelectionKey !== selectionKey) {
+    setShownSelectionKey(selectionKey);
+    setSelectedFormId(null);
+  }
 
   // Fetch forms data
-  const { forms, formGraph, globalData, loading, error } = useForms();
+  const {
+    forms,
+    formGraph,
+    globalData,
+    serverMappings,
+    blueprint,
+    nodeVersions,
+    dependencyIssues,
+    cycles,
+    loading,
+    error,
+    isRefreshing,
+    refreshError,
+    isOffline,
+    lastSyncedAt,
+    refetch,
+    setNodeServerMappings,
+  } = useForms(selection);
+
+  // Save to the API only when it reports versions (i.e. supports concurrent edits);
+  // without that, mappings stay local and no offline write queue is kept
+  const sync = useMemo<MappingSyncOptions | undefined>(
+    () =>
+      Object.keys(nodeVersions).length > 0
+        ? {
+            versions: nodeVersions,
+            parseInputMapping: (nodeId, inputMapping) =>
+              parseNodeInputMapping(
+                nodeId,
+                inputMapping,
+                forms,
+                globalData ?? { actionProperties: [], clientOrgProperties: [] }
+              ),
+            onServerMappings: setNodeServerMappings,
+          }
+        : undefined,
+    [nodeVersions, forms, globalData, setNodeServerMappings]
+  );
 
   // Manage prefill mappings
   const {
+    mappings,
     getMappingsForForm,
     getMapping: getMappingForField,
+    getMappingChain,
     setMapping,
+    setMappingChain,
+    addFallbackMapping,
+    moveMappingInChain,
+    removeMappingFromChain,
+    replaceMapping,
     clearMapping,
     clearAllMappingsForForm,
-  } = usePrefillMappings();
+    isSaving,
+    syncError,
+    conflicts,
+    resolveConflict,
+    pendingNodeIds,
+  } = usePrefillMappings(sync, selection);
+
+  // Compare the blueprint's own input_mapping with the locally stored mappings
+  const reconciliation = useMemo(
+    () => reconcileMappings(serverMappings, mappings),
+    [serverMappings, mappings]
+  );
+
+  // Find mappings the current blueprint no longer supports (once forms have loaded)
+  const mappingProblems = useMemo(
+    () =>
+      !loading && forms.length > 0 ? validateMappings(mappings, formGraph, globalData) : [],
+    [loading, forms, mappings, formGraph, globalData]
+  );
+  const problemByMapping = useMemo(
+    () => new Map(mappingProblems.map(problem => [problem.mapping, problem])),
+    [mappingProblems]
+  );
+
+  // Versions of the blueprint fetched this session, for comparison
+  const blueprintVersions = useBlueprintHistory(blueprint?.id ?? null, forms, lastSyncedAt);
 
   // Get data sources for the selected form
-  const dataSources = useDataSources(selectedFormId, formGraph, globalData);
+  const dataSources = useDataSources(selectedFormId, formGraph, globalData, dataSourcePlugins);
 
   const selectedForm = selectedFormId ? formGraph[selectedFormId] : null;
   const formMappings = selectedFormId ? getMappingsForForm(selectedFormId) : [];
@@ -36,10 +140,19 @@ function App() {
   const {
     isModalOpen,
     selectedField,
+    modalMode,
     handleOpenModal,
+    handleOpenFallbackModal,
+    handleOpenRepointModal,
     handleCloseModal,
     handleSelectMapping,
-  } = usePrefillWorkflow(selectedForm, selectedFormId, setMapping);
+  } = usePrefillWorkflow(
+    selectedForm,
+    selectedFormId,
+    setMapping,
+    addFallbackMapping,
+    replaceMapping
+  );
 
   if (loading) {
     return (
@@ -53,9 +166,11 @@ function App() {
   }
 
   if (error) {
+    const issues = error instanceof ApiError ? error.issues : [];
+
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <div className="text-center max-w-md">
+        <div className="text-center max-w-xl">
           <svg
             className="w-16 h-16 text-red-500 mx-auto mb-4"
             fill="none"
@@ -71,37 +186,103 @@ function App() {
           </svg>
           <h2 className="text-xl font-bold text-gray-900 mb-2">Error Loading Forms</h2>
           <p className="text-gray-600">{error.message}</p>
+          <button onClick={() => refetch()} className="btn-avantos mt-4">
+            Retry
+          </button>
+          <div className="mt-4 flex justify-center">
+            <BlueprintSwitcher selection={selection} onSelect={select} />
+          </div>
+          {issues.length > 0 && (
+            <ul
+              className="mt-4 text-left text-sm bg-white border border-gray-200 rounded-lg p-4 space-y-1 max-h-80 overflow-y-auto"
+              aria-label="Response problems"
+            >
+              {issues.map((issue, index) => (
+                <li
+                  key={index}
+                  className={issue.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}
+                >
+                  <span className="font-medium">{issue.severity === 'error' ? 'Error' : 'Warning'}:</span>{' '}
+                  <code className="font-mono">{formatValidationIssue(issue)}</code>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
     );
   }
 
+  if (cycles.length > 0) {
+    return (
+      <CycleDiagnosticsView cycles={cycles} formGraph={formGraph} onRetry={() => refetch()}>
+        <BlueprintSwitcher selection={selection} onSelect={select} />
+      </CycleDiagnosticsView>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
       <header className="bg-white shadow-sm border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <div className="flex items-center gap-3">
-            <svg
-              className="w-8 h-8 text-primary-500"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M13 10V3L4 14h7v7l9-11h-7z"
-              />
-            </svg>
-            <div>
-              <h1 className="text-2xl font-bold text-gray-900">
-                Form Prefill Mapper
-              </h1>
-              <p className="text-sm text-gray-600">
-                Configure how downstream forms get prefilled from upstream data
-              </p>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <svg
+                className="w-8 h-8 text-primary-500"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M13 10V3L4 14h7v7l9-11h-7z"
+                />
+              </svg>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">
+                  Form Prefill Mapper
+                </h1>
+                <p className="text-sm text-gray-600">
+                  Configure how downstream forms get prefilled from upstream data
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              <BlueprintSwitcher selection={selection} onSelect={select} />
+              {isRefreshing && (
+                <span className="text-sm text-gray-500" role="status">
+                  Refreshing…
+                </span>
+              )}
+              {refreshError && (
+                <span className="text-sm text-yellow-700" role="status">
+                  Showing cached data ({refreshError.message}){' '}
+                  <button
+                    onClick={() => refetch()}
+                    className="underline text-primary-600 hover:text-primary-700"
+                  >
+                    Retry
+                  </button>
+                </span>
+              )}
+              {sync && (
+                <span
+                  className={`text-sm ${syncError ? 'text-red-600' : 'text-gray-500'}`}
+                  role="status"
+                >
+                  {isSaving
+                    ? 'Saving…'
+                    : syncError
+                      ? `Not saved: ${syncError}`
+                      : pendingNodeIds.length > 0
+                        ? 'Waiting for connection'
+                        : 'All changes saved'}
+                </span>
+              )}
+              <BlueprintExportMenu blueprint={blueprint} mappings={mappings} />
             </div>
           </div>
         </div>
@@ -109,14 +290,86 @@ function App() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <OfflineBanner
+          isOffline={isOffline}
+          lastSyncedAt={lastSyncedAt}
+          pendingCount={pendingNodeIds.length}
+          onRetry={() => refetch()}
+        />
+
+        <DependencyDiagnosticsPanel issues={dependencyIssues} />
+
+        <MappingReconciliationPanel
+          entries={reconciliation}
+          formGraph={formGraph}
+          onUseServer={(entry) =>
+            setMappingChain(entry.targetFormId, entry.targetFieldId, entry.server)
+          }
+        />
+
+        <MappingRepairWizard
+          problems={mappingProblems}
+          formGraph={formGraph}
+          onRepoint={(mapping) => {
+            setSelectedFormId(mapping.targetFormId);
+            handleOpenRepointModal(mapping, formGraph[mapping.targetFormId]);
+          }}
+          onMove={(mapping, targetFieldId) => replaceMapping(mapping, { ...mapping, targetFieldId })}
+          onRetype={(mapping) =>
+            replaceMapping(mapping, retypeMapping(mapping, formGraph, globalData))
+          }
+          onRemoveCondition={(mapping) =>
+            replaceMapping(mapping, { ...mapping, condition: undefined })
+          }
+          onDelete={(mapping) => replaceMapping(mapping, null)}
+        />
+
+        <BlueprintDiffPanel
+          versions={blueprintVersions}
+          forms={forms}
+          formGraph={formGraph}
+          mappings={mappings}
+          onFetchLatest={() => refetch()}
+          isFetching={isRefreshing}
+        />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Left Panel: Form List */}
+          {/* Left Panel: Form List or Graph */}
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <FormList
-              forms={forms}
-              selectedFormId={selectedFormId}
-              onSelectForm={setSelectedFormId}
-            />
+            <div className="flex justify-end gap-1 mb-2" role="group" aria-label="Form view">
+              {(['list', 'graph'] as const).map(view => (
+                <button
+                  key={view}
+                  onClick={() => setFormView(view)}
+                  aria-pressed={formView === view}
+                  className={`px-3 py-1 text-sm rounded-md border ${
+                    formView === view
+                      ? 'bg-primary-50 border-primary-500 text-primary-700'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {view === 'list' ? 'List' : 'Graph'}
+                </button>
+              ))}
+            </div>
+            {formView === 'list' ? (
+              <FormList
+                forms={forms}
+                selectedFormId={selectedFormId}
+                onSelectForm={setSelectedFormId}
+              />
+            ) : (
+              <FormGraphCanvas
+                forms={forms}
+                formGraph={formGraph}
+                mappings={mappings}
+                selectedFormId={selectedFormId}
+                onSelectForm={setSelectedFormId}
+              />
+            )}
+            {selectedForm && (
+              <DownstreamImpactPanel form={selectedForm} formGraph={formGraph} mappings={mappings} />
+            )}
           </div>
 
           {/* Right Panel: Prefill Configuration */}
@@ -127,12 +380,27 @@ function App() {
               getMapping={(fieldId) =>
                 selectedFormId ? getMappingForField(selectedFormId, fieldId) : undefined
               }
+              getMappingChain={(fieldId) =>
+                selectedFormId ? getMappingChain(selectedFormId, fieldId) : []
+              }
               onOpenModal={handleOpenModal}
               onClearMapping={(fieldId) => {
                 if (selectedFormId) {
                   clearMapping(selectedFormId, fieldId);
                 }
               }}
+              onAddFallback={handleOpenFallbackModal}
+              onMoveMapping={(fieldId, fromIndex, toIndex) => {
+                if (selectedFormId) {
+                  moveMappingInChain(selectedFormId, fieldId, fromIndex, toIndex);
+                }
+              }}
+              onRemoveFromChain={(fieldId, index) => {
+                if (selectedFormId) {
+                  removeMappingFromChain(selectedFormId, fieldId, index);
+                }
+              }}
+              getProblem={(mapping) => problemByMapping.get(mapping)}
               onClearAllMappings={() => {
                 if (selectedFormId) {
                   clearAllMappingsForForm(selectedFormId);
@@ -148,12 +416,23 @@ function App() {
         isOpen={isModalOpen}
         targetField={selectedField}
         formName={selectedForm?.name || ''}
+        isFallback={modalMode === 'fallback'}
         directDependencies={dataSources.directDependencies}
         transitiveDependencies={dataSources.transitiveDependencies}
+        dependencyRoutes={dataSources.dependencyRoutes}
+        formGraph={formGraph}
         globalSources={dataSources.globalSources}
+        customSources={dataSources.customSources}
         onSelectField={handleSelectMapping}
         onClose={handleCloseModal}
       />
+
+      {/* Save Conflicts (one at a time) */}
+      <ConflictResolutionDialog
+        conflict={conflicts[0] ?? null}
+        formName={conflicts[0] ? formGraph[conflicts[0].nodeId]?.name ?? conflicts[0].nodeId : ''}
+        onResolve={resolveConflict}
+      />
     </div>
   );
 }
@@ -0,0 +1,219 @@
+import { ChangeEvent, useMemo, useState } from 'react';
+import { BlueprintChange, Form, FormGraph, PrefillMapping } from '../types';
+import { BlueprintVersion } from '../hooks/useBlueprintHistory';
+import { diffBlueprints, parseBlueprintJson } from '../services/blueprintDiff';
+import { findField } from '../services/fieldTree';
+
+interface BlueprintDiffPanelProps {
+  /** Versions fetched this session, oldest first (the last is the one shown) */
+  versions: BlueprintVersion[];
+  /** Forms of the blueprint currently shown */
+  forms: Form[];
+  /** Form graph of the blueprint currently shown, used to label mappings */
+  formGraph: FormGraph;
+  /** Stored mappings, checked against each change */
+  mappings: PrefillMapping[];
+  /** Callback to fetch the blueprint again */
+  onFetchLatest: () => void;
+  /** Whether a fetch is in progress */
+  isFetching: boolean;
+}
+
+const UPLOAD_KEY = 'upload';
+
+const CHANGE_STYLES: Record<BlueprintChange['type'], string> = {
+  formAdded: 'bg-green-100 text-green-800',
+  formRemoved: 'bg-red-100 text-red-800',
+  formRenamed: 'bg-blue-100 text-blue-800',
+  fieldAdded: 'bg-green-100 text-green-800',
+  fieldRemoved: 'bg-red-100 text-red-800',
+  fieldRenamed: 'bg-blue-100 text-blue-800',
+  fieldRetyped: 'bg-amber-100 text-amber-800',
+  dependencyAdded: 'bg-green-100 text-green-800',
+  dependencyRemoved: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Reads a file picked by the user as text
+ */
+function readFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the file'));
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * BlueprintDiffPanel compares the blueprint shown with an earlier fetch or an
+ * uploaded blueprint file
+ * Lists added and removed forms, renamed or retyped fields and changed
+ * prerequisites, each with the stored mappings it affects
+ */
+export function BlueprintDiffPanel({
+  versions,
+  forms,
+  formGraph,
+  mappings,
+  onFetchLatest,
+  isFetching,
+}: BlueprintDiffPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [baseKey, setBaseKey] = useState('');
+  const [upload, setUpload] = useState<{ name: string; forms: Form[] } | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [isReversed, setIsReversed] = useState(false);
+
+  // The latest version is the one shown, so only earlier ones are offered
+  const earlier = versions.slice(0, -1);
+  const options = [
+    ...earlier.map((version, index) => ({
+      key: `version-${index}`,
+      label: `Fetched ${new Date(version.loadedAt).toLocaleString()}`,
+      forms: version.forms,
+    })),
+    ...(upload ? [{ key: UPLOAD_KEY, label: `Uploaded ${upload.name}`, forms: upload.forms }] : []),
+  ];
+  // Until the user picks one, compare with the most recent alternative
+  const base =
+    options.find(option => option.key === baseKey) ??
+    options.find(option => option.key === UPLOAD_KEY) ??
+    options[options.length - 1];
+
+  const changes = useMemo(() => {
+    if (!base) return [];
+    return isReversed
+      ? diffBlueprints(forms, base.forms, mappings)
+      : diffBlueprints(base.forms, forms, mappings);
+  }, [base?.forms, forms, mappings, isReversed]);
+
+  const affectedCount = new Set(changes.flatMap(change => change.affectedMappings)).size;
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const { forms: uploadedForms } = parseBlueprintJson(await readFile(file));
+      setUpload({ name: file.name, forms: uploadedForms });
+      setBaseKey(UPLOAD_KEY);
+      setUploadError(null);
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const describeMapping = (mapping: PrefillMapping) => {
+    const form = formGraph[mapping.targetFormId];
+    const field = form ? findField(form.fields, mapping.targetFieldId) : undefined;
+    return `${form?.name ?? mapping.targetFormId}.${field?.label ?? mapping.targetFieldId} ← ${mapping.sourcePath}`;
+  };
+
+  return (
+    <section
+      className="mb-6 bg-white rounded-lg shadow-sm border border-gray-200 p-4"
+      aria-label="Blueprint versions"
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Compare blueprint versions</h2>
+          <p className="text-sm text-gray-600">
+            See what changed between fetches, or against a blueprint file
+          </p>
+        </div>
+        <button
+          onClick={() => setIsOpen(open => !open)}
+          className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+        >
+          {isOpen ? 'Close' : 'Compare…'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <label htmlFor="blueprint-diff-base" className="text-gray-700">
+              Compare against
+            </label>
+            <select
+              id="blueprint-diff-base"
+              value={base?.key ?? ''}
+              onChange={e => setBaseKey(e.target.value)}
+              disabled={options.length === 0}
+              className="px-2 py-1.5 border border-gray-300 rounded"
+            >
+              {options.length === 0 && <option value="">No other version yet</option>}
+              {options.map(option => (
+                <option key={option.key} value={option.key}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setIsReversed(reversed => !reversed)}
+              aria-pressed={isReversed}
+              disabled={!base}
+              className="px-3 py-1.5 text-gray-700 border border-gray-300 rounded hover:bg-gray-50 transition-colors disabled:opacity-50"
+              title="Treat the selected version as the newer one"
+            >
+              Swap
+            </button>
+            <button
+              onClick={onFetchLatest}
+              disabled={isFetching}
+              className="px-3 py-1.5 text-gray-700 border border-gray-300 rounded hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              {isFetching ? 'Fetching…' : 'Fetch latest'}
+            </button>
+            <label className="px-3 py-1.5 text-gray-700 border border-gray-300 rounded hover:bg-gray-50 cursor-pointer">
+              Upload blueprint JSON
+              <input type="file" accept="application/json,.json" onChange={handleUpload} className="sr-only" />
+            </label>
+          </div>
+
+          {uploadError && (
+            <p className="text-red-700" role="alert">
+              {uploadError}
+            </p>
+          )}
+
+          {!base ? (
+            <p className="text-gray-500">
+              Fetch the blueprint again or upload a blueprint file to compare versions.
+            </p>
+          ) : changes.length === 0 ? (
+            <p className="text-gray-500">No differences between the two versions.</p>
+          ) : (
+            <>
+              <p className="text-gray-600">
+                {isReversed ? 'Current → selected' : 'Selected → current'}: {changes.length} change
+                {changes.length !== 1 ? 's' : ''}, {affectedCount} affected mapping
+                {affectedCount !== 1 ? 's' : ''}
+              </p>
+              <ul className="space-y-2" aria-label="Blueprint changes">
+                {changes.map((change, index) => (
+                  <li key={index} className="p-3 border border-gray-200 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <span className={`text-xs px-2 py-0.5 rounded-full ${CHANGE_STYLES[change.type]}`}>
+                        {change.type}
+                      </span>
+                      <span className="text-gray-900">{change.description}</span>
+                    </div>
+                    {change.affectedMappings.length > 0 && (
+                      <ul className="mt-2 ml-4 list-disc text-red-700" aria-label="Affected mappings">
+                        {change.affectedMappings.map((mapping, mappingIndex) => (
+                          <li key={mappingIndex}>{describeMapping(mapping)}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,58 @@
+import { MockServerResponse, PrefillMapping } from '../types';
+import { createInputMappingPatch, exportBlueprint } from '../services/inputMappingExport';
+
+interface BlueprintExportMenuProps {
+  /** The blueprint as loaded from the server (export is disabled until it loads) */
+  blueprint: MockServerResponse | null;
+  /** All prefill mappings to export */
+  mappings: PrefillMapping[];
+}
+
+/**
+ * Triggers a browser download of a JSON document
+ */
+function downloadJson(filename: string, data: unknown): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * BlueprintExportMenu downloads the current mappings in the Avantos blueprint format
+ * Either as a full patched blueprint or as a patch of the changed nodes only
+ */
+export function BlueprintExportMenu({ blueprint, mappings }: BlueprintExportMenuProps) {
+  const disabled = blueprint === null;
+  const buttonClass =
+    'px-3 py-1.5 text-sm text-primary-600 border border-primary-600 rounded hover:bg-primary-50 transition-colors disabled:opacity-50';
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        onClick={() => blueprint && downloadJson(`${blueprint.id}.json`, exportBlueprint(blueprint, mappings))}
+        disabled={disabled}
+        className={buttonClass}
+        title="Download the blueprint with these mappings as input_mapping"
+      >
+        Export Blueprint
+      </button>
+      <button
+        onClick={() =>
+          blueprint &&
+          downloadJson(`${blueprint.id}.patch.json`, createInputMappingPatch(blueprint, mappings))
+        }
+        disabled={disabled}
+        className={buttonClass}
+        title="Download only the nodes whose input_mapping changed"
+      >
+        Export Patch
+      </button>
+    </div>
+  );
+}
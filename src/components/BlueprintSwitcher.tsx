@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { BlueprintRef } from '../types';
+import { useBlueprintList } from '../hooks/useBlueprintList';
+
+interface BlueprintSwitcherProps {
+  /** The blueprint currently open */
+  selection: BlueprintRef;
+  /** Callback when the user opens another blueprint */
+  onSelect: (ref: BlueprintRef) => void;
+}
+
+/**
+ * BlueprintSwitcher lets the user pick the tenant and the blueprint to edit
+ * Entering a tenant lists its blueprints; choosing one opens it
+ */
+export function BlueprintSwitcher({ selection, onSelect }: BlueprintSwitcherProps) {
+  const [tenantDraft, setTenantDraft] = useState(selection.tenantId);
+  const [tenantId, setTenantId] = useState(selection.tenantId);
+  const { blueprints, loading, error } = useBlueprintList(tenantId);
+
+  // Follow selection changes made elsewhere (e.g. the browser's back button)
+  useEffect(() => {
+    setTenantDraft(selection.tenantId);
+    setTenantId(selection.tenantId);
+  }, [selection.tenantId]);
+
+  const isCurrentTenant = tenantId === selection.tenantId;
+  // Keep the open blueprint selectable even if the listing doesn't include it
+  const options =
+    isCurrentTenant && !blueprints.some(bp => bp.id === selection.blueprintId)
+      ? [{ id: selection.blueprintId, name: selection.blueprintId }, ...blueprints]
+      : blueprints;
+
+  return (
+    <div className="flex items-center gap-2">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          const next = tenantDraft.trim();
+          if (next) setTenantId(next);
+        }}
+      >
+        <label htmlFor="tenant-input" className="sr-only">
+          Tenant
+        </label>
+        <input
+          id="tenant-input"
+          type="text"
+          value={tenantDraft}
+          onChange={(e) => setTenantDraft(e.target.value)}
+          onBlur={() => {
+            const next = tenantDraft.trim();
+            if (next) setTenantId(next);
+          }}
+          placeholder="Tenant ID"
+          className="w-48 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+      </form>
+
+      <label htmlFor="blueprint-select" className="sr-only">
+        Blueprint
+      </label>
+      <select
+        id="blueprint-select"
+        value={isCurrentTenant ? selection.blueprintId : ''}
+        onChange={(e) => {
+          if (e.target.value) {
+            onSelect({ tenantId, blueprintId: e.target.value });
+          }
+        }}
+        disabled={loading && options.length === 0}
+        className="w-56 px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+      >
+        {!isCurrentTenant && (
+          <option value="">
+            {loading ? 'Loading blueprints…' : 'Choose a blueprint…'}
+          </option>
+        )}
+        {options.map(bp => (
+          <option key={bp.id} value={bp.id} title={bp.description}>
+            {bp.name}
+          </option>
+        ))}
+      </select>
+
+      {error && (
+        <span className="text-xs text-red-600" role="alert">
+          Could not list blueprints
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { ConditionOperator, DataSource, MappingCondition } from '../types';
+import { CONDITION_OPERATORS, operatorRequiresValue } from '../services/mappingConditions';
+
+interface ConditionEditorProps {
+  /** Sources the condition may read from (the same ones the target can see) */
+  dataSources: DataSource[];
+  /** The current condition (undefined when the mapping always applies) */
+  condition: MappingCondition | undefined;
+  /** Callback when the condition changes */
+  onChange: (condition: MappingCondition | undefined) => void;
+}
+
+/**
+ * Separator used to encode a source/field pair as a single select value
+ */
+const OPTION_SEPARATOR = '::';
+
+/**
+ * ConditionEditor builds a when-rule for a mapping
+ * The rule compares one visible upstream or global field against a value
+ */
+export function ConditionEditor({ dataSources, condition, onChange }: ConditionEditorProps) {
+  const candidates = dataSources.flatMap(source =>
+    source.getFields().map(field => ({ source, field }))
+  );
+
+  const buildCondition = (
+    optionValue: string,
+    operator: ConditionOperator,
+    value: string | undefined
+  ): MappingCondition | undefined => {
+    const [sourceId, fieldId] = optionValue.split(OPTION_SEPARATOR);
+    const match = candidates.find(c => c.source.id === sourceId && c.field.id === fieldId);
+    if (!match) return undefined;
+
+    return {
+      sourceType: match.source.type === 'form' ? 'form' : 'global',
+      sourceFormId: match.source.type === 'form' ? match.source.id : undefined,
+      sourceFieldId: match.field.id,
+      sourcePath: match.field.path,
+      operator,
+      value: operatorRequiresValue(operator) ? value ?? '' : undefined,
+    };
+  };
+
+  // Form fields are identified by form ID; global fields have no form, so match by path
+  const selected = condition
+    ? candidates.find(c =>
+        c.field.id === condition.sourceFieldId &&
+        (condition.sourceType === 'form'
+          ? c.source.id === condition.sourceFormId
+          : c.field.path === condition.sourcePath)
+      )
+    : undefined;
+  const selectedOption = selected
+    ? `${selected.source.id}${OPTION_SEPARATOR}${selected.field.id}`
+    : '';
+
+  const handleToggle = (enabled: boolean) => {
+    if (!enabled) {
+      onChange(undefined);
+      return;
+    }
+    const first = candidates[0];
+    if (!first) return;
+    onChange(
+      buildCondition(`${first.source.id}${OPTION_SEPARATOR}${first.field.id}`, 'equals', '')
+    );
+  };
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded text-sm';
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={condition !== undefined}
+          disabled={candidates.length === 0}
+          onChange={e => handleToggle(e.target.checked)}
+        />
+        Only apply this mapping when…
+      </label>
+
+      {candidates.length === 0 && (
+        <p className="text-xs text-gray-500">No fields are available to build a condition</p>
+      )}
+
+      {condition && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            aria-label="Condition field"
+            value={selectedOption}
+            onChange={e =>
+              onChange(buildCondition(e.target.value, condition.operator, condition.value))
+            }
+            className={inputClass}
+          >
+            {dataSources.map(source => (
+              <optgroup key={source.id} label={source.name}>
+                {source.getFields().map(field => (
+                  <option
+                    key={field.id}
+                    value={`${source.id}${OPTION_SEPARATOR}${field.id}`}
+                  >
+                    {field.label}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          <select
+            aria-label="Condition operator"
+            value={condition.operator}
+            onChange={e =>
+              onChange({
+                ...condition,
+                operator: e.target.value as ConditionOperator,
+                value: operatorRequiresValue(e.target.value as ConditionOperator)
+                  ? condition.value ?? ''
+                  : undefined,
+              })
+            }
+            className={inputClass}
+          >
+            {CONDITION_OPERATORS.map(def => (
+              <option key={def.operator} value={def.operator}>
+                {def.label}
+              </option>
+            ))}
+          </select>
+          {operatorRequiresValue(condition.operator) && (
+            <input
+              aria-label="Condition value"
+              placeholder="Value"
+              value={condition.value ?? ''}
+              onChange={e => onChange({ ...condition, value: e.target.value })}
+              className={`${inputClass} w-32`}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
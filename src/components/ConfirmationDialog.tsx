@@ -1,4 +1,5 @@
 import { useEffect, useRef } from 'react';
+import { CompatibilityLevel } from '../services/typeCompatibility';
 
 interface ConfirmationDialogProps {
   /** Whether the dialog is open */
@@ -9,6 +10,8 @@ interface ConfirmationDialogProps {
   sourceType: string;
   /** Target field type */
   targetType: string;
+  /** Compatibility classification of the source/target pair (if known) */
+  level?: CompatibilityLevel;
   /** Callback when user clicks Continue */
   onConfirm: () => void;
   /** Callback when user clicks Cancel or closes */
@@ -32,6 +35,7 @@ export function ConfirmationDialog({
   message,
   sourceType,
   targetType,
+  level,
   onConfirm,
   onCancel,
 }: ConfirmationDialogProps) {
@@ -70,6 +74,12 @@ export function ConfirmationDialog({
     return null;
   }
 
+  const levelLabels: Partial<Record<CompatibilityLevel, { text: string; className: string }>> = {
+    lossy: { text: 'Lossy conversion', className: 'bg-yellow-100 text-yellow-800' },
+    incompatible: { text: 'Incompatible types', className: 'bg-red-100 text-red-800' },
+  };
+  const levelLabel = level ? levelLabels[level] : undefined;
+
   return (
     <div
       className="fixed inset-0 z-[60] overflow-y-auto"
@@ -136,6 +146,13 @@ export function ConfirmationDialog({
               {/* Type Comparison */}
               <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
                 <div className="space-y-2">
+                  {levelLabel && (
+                    <div className="flex justify-center">
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${levelLabel.className}`}>
+                        {levelLabel.text}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium text-gray-700">Source Type:</span>
                     <code className="px-2 py-1 bg-white border border-gray-300 rounded text-sm font-mono text-red-600">
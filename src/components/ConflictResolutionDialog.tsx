@@ -0,0 +1,97 @@
+import { MappingConflict, PrefillMapping } from '../types';
+import { ConflictResolution } from '../hooks/usePrefillMappings';
+
+interface ConflictResolutionDialogProps {
+  /** The conflict to resolve (the dialog is closed when null) */
+  conflict: MappingConflict | null;
+  /** Display name of the conflicting form */
+  formName: string;
+  /** Callback with the side to keep */
+  onResolve: (nodeId: string, resolution: ConflictResolution) => void;
+}
+
+/**
+ * Lists a node's mappings as "Field ← source" lines
+ */
+function MappingList({ mappings }: { mappings: PrefillMapping[] }) {
+  if (mappings.length === 0) {
+    return <p className="text-sm text-gray-500 italic">No mappings</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm text-gray-700">
+      {mappings.map((mapping, index) => (
+        <li key={`${mapping.targetFieldId}-${index}`}>
+          <span className="font-medium">{mapping.targetFieldId}</span> ← {mapping.sourcePath}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * ConflictResolutionDialog appears when a save was rejected because someone
+ * else changed the same form's mappings first
+ * Shows both versions side by side and lets the user keep one
+ */
+export function ConflictResolutionDialog({
+  conflict,
+  formName,
+  onResolve,
+}: ConflictResolutionDialogProps) {
+  if (!conflict) {
+    return null;
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] overflow-y-auto"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="conflict-title"
+    >
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 backdrop-blur-sm" aria-hidden="true" />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg w-full max-w-2xl modal-enhanced">
+          <div className="modal-header">
+            <h2 id="conflict-title" className="text-lg font-semibold text-gray-900">
+              Mappings Changed Elsewhere
+            </h2>
+            <p className="text-sm text-gray-600">
+              Someone else saved mappings for <strong>{formName}</strong> while you were
+              editing. Choose which version to keep.
+            </p>
+          </div>
+
+          <div className="modal-content grid grid-cols-1 md:grid-cols-2 gap-4">
+            <section aria-label="Your version" className="border border-gray-200 rounded-lg p-3">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Your version</h3>
+              <MappingList mappings={conflict.local} />
+            </section>
+            <section aria-label="Their version" className="border border-gray-200 rounded-lg p-3">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Their version</h3>
+              <MappingList mappings={conflict.server} />
+            </section>
+          </div>
+
+          <div className="flex items-center justify-end gap-3 px-6 py-4 bg-gray-50 border-t border-gray-200 rounded-b-lg">
+            <button
+              onClick={() => onResolve(conflict.nodeId, 'server')}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              Use Theirs
+            </button>
+            <button
+              onClick={() => onResolve(conflict.nodeId, 'local')}
+              className="btn-avantos"
+            >
+              Keep Mine
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { ConstantValue, FieldType } from '../types';
+import { parseConstantInput, validateConstantValue } from '../services/constantValues';
+
+interface ConstantValueInputProps {
+  /** Type of the field the literal will prefill */
+  fieldType: FieldType;
+  /** Callback with the validated literal */
+  onSubmit: (value: ConstantValue) => void;
+  /** Whether submission is currently disabled (e.g., a dialog is open) */
+  disabled?: boolean;
+}
+
+/**
+ * ConstantValueInput lets the user enter a static literal for a target field
+ * The input control follows the target field type and the value is validated before use
+ */
+export function ConstantValueInput({
+  fieldType,
+  onSubmit,
+  disabled = false,
+}: ConstantValueInputProps) {
+  const [draft, setDraft] = useState('');
+  const [touched, setTouched] = useState(false);
+
+  if (fieldType === 'button') {
+    return (
+      <p className="text-sm text-gray-500">
+        Button fields cannot be prefilled with a static value
+      </p>
+    );
+  }
+
+  const value = parseConstantInput(draft, fieldType);
+  const error = validateConstantValue(value, fieldType);
+
+  const handleSubmit = () => {
+    setTouched(true);
+    if (error || disabled) return;
+    onSubmit(value);
+  };
+
+  const inputClass = 'flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm';
+
+  const placeholders: Partial<Record<FieldType, string>> = {
+    text: 'e.g. normal',
+    email: 'e.g. support@example.com',
+    checkbox: 'Comma-separated options, e.g. Option A, Option B',
+    object: '{"key": "value"}',
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start gap-2">
+        {fieldType === 'object' ? (
+          <textarea
+            aria-label="Static value"
+            value={draft}
+            placeholder={placeholders.object}
+            onChange={e => setDraft(e.target.value)}
+            className={`${inputClass} font-mono`}
+            rows={3}
+          />
+        ) : (
+          <input
+            aria-label="Static value"
+            type={fieldType === 'date' ? 'date' : fieldType === 'number' ? 'number' : 'text'}
+            value={draft}
+            placeholder={placeholders[fieldType]}
+            onChange={e => setDraft(e.target.value)}
+            className={inputClass}
+          />
+        )}
+        <button onClick={handleSubmit} disabled={disabled} className="btn-avantos">
+          Use Static Value
+        </button>
+      </div>
+      {touched && error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { ReactNode } from 'react';
+import { FormGraph } from '../types';
+
+interface CycleDiagnosticsViewProps {
+  /** Circular dependencies, each as form IDs in dependency order */
+  cycles: string[][];
+  /** Form graph used to show form names */
+  formGraph: FormGraph;
+  /** Callback to load the blueprint again (e.g. after fixing it) */
+  onRetry: () => void;
+  /** Extra controls, such as a blueprint switcher */
+  children?: ReactNode;
+}
+
+/**
+ * CycleDiagnosticsView replaces the editor when the blueprint's dependencies
+ * contain cycles, since upstream/downstream lists are meaningless then
+ * Names the forms of each cycle in the order they depend on each other
+ */
+export function CycleDiagnosticsView({ cycles, formGraph, onRetry, children }: CycleDiagnosticsViewProps) {
+  const nameOf = (formId: string) => formGraph[formId]?.name ?? formId;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <section
+        className="max-w-2xl w-full bg-white rounded-lg shadow-sm border border-red-300 p-6"
+        aria-label="Circular dependencies"
+        role="alert"
+      >
+        <h2 className="text-xl font-bold text-gray-900 mb-2">Circular Dependencies</h2>
+        <p className="text-gray-600 mb-4">
+          This blueprint can't be edited because {cycles.length === 1 ? 'a cycle' : `${cycles.length} cycles`} in
+          its form dependencies make it impossible to tell which forms come first. Fix the
+          prerequisites or edges of these forms and reload.
+        </p>
+
+        <ol className="space-y-2 mb-6">
+          {cycles.map(cycle => (
+            <li
+              key={cycle.join('|')}
+              className="text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2 text-red-800"
+            >
+              {[...cycle, cycle[0]].map(nameOf).join(' → ')}
+            </li>
+          ))}
+        </ol>
+        <p className="text-xs text-gray-500 mb-6">Each arrow reads "depends on".</p>
+
+        <div className="flex items-center justify-between gap-4">
+          {children}
+          <button onClick={onRetry} className="btn-avantos">
+            Reload
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -1,7 +1,34 @@
 import { useState, useEffect } from 'react';
-import { DataSource, DataField, FormField, PrefillMapping } from '../types';
+import {
+  ConstantValue,
+  DataSource,
+  DataField,
+  DependencyRoute,
+  FormField,
+  FormGraph,
+  MappingCondition,
+  PrefillMapping,
+  TransformStep,
+} from '../types';
 import { DataSourceTree } from './DataSourceTree';
 import { ConfirmationDialog } from './ConfirmationDialog';
+import { TransformPipelineEditor } from './TransformPipelineEditor';
+import { ConstantValueInput } from './ConstantValueInput';
+import { ConditionEditor } from './ConditionEditor';
+import { formatConstantValue } from '../services/constantValues';
+import {
+  IncompatiblePolicy,
+  TypeCompatibilityMatrix,
+  defaultCompatibilityMatrix,
+  fieldTypesToRecord,
+} from '../services/typeCompatibility';
+
+/**
+ * What the user picked in the first step: a source field or a static literal
+ */
+type Selection =
+  | { kind: 'field'; source: DataSource; field: DataField }
+  | { kind: 'constant'; value: ConstantValue };
 
 interface DataSourceModalProps {
   /** Whether the modal is open */
@@ -10,35 +37,54 @@ interface DataSourceModalProps {
   targetField: FormField | null;
   /** Form name for display */
   formName: string;
+  /** Whether the selection is appended as a fallback rather than replacing the mapping */
+  isFallback?: boolean;
   /** Direct dependency data sources */
   directDependencies: DataSource[];
   /** Transitive dependency data sources */
   transitiveDependencies: DataSource[];
+  /** How the form reaches each dependency, used to annotate transitive sources */
+  dependencyRoutes?: Map<string, DependencyRoute>;
+  /** Form graph used to name the forms along a route */
+  formGraph?: FormGraph;
   /** Global data sources */
   globalSources: DataSource[];
+  /** Data sources contributed by plugins */
+  customSources?: DataSource[];
   /** Callback when a field is selected */
   onSelectField: (mapping: PrefillMapping) => void;
   /** Callback to close the modal */
   onClose: () => void;
+  /** Rules used to classify source/target type pairs */
+  compatibilityMatrix?: TypeCompatibilityMatrix;
+  /** Whether incompatible sources are blocked or allowed after a warning */
+  incompatiblePolicy?: IncompatiblePolicy;
 }
 
 /**
  * DataSourceModal displays available data sources for prefill mapping
- * Organized into three sections: direct dependencies, transitive dependencies, and global sources
+ * Organized into sections: direct dependencies, transitive dependencies, global
+ * sources and plugin sources
+ * Transitive sources are annotated with their hop distance and the chains they are reached through
  *
- * INCOMPLETE TASKS (for video):
- * 1. Task 2: Field type validation (add warning dialog for mismatched types)
- * 2. Task 3: Implement custom modal CSS class (create .modal-enhanced in index.css and apply)
+ * The flow has two steps: pick a source field (or static value), then optionally
+ * configure a transformation pipeline and a when-condition before saving the mapping.
  */
 export function DataSourceModal({
   isOpen,
   targetField,
   formName,
+  isFallback = false,
   directDependencies,
   transitiveDependencies,
+  dependencyRoutes,
+  formGraph,
   globalSources,
+  customSources = [],
   onSelectField,
   onClose,
+  compatibilityMatrix = defaultCompatibilityMatrix,
+  incompatiblePolicy = 'block',
 }: DataSourceModalProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [showConfirmation, setShowConfirmation] = useState(false);
@@ -46,12 +92,19 @@ export function DataSourceModal({
     source: DataSource;
     field: DataField;
   } | null>(null);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [transforms, setTransforms] = useState<TransformStep[]>([]);
+  const [condition, setCondition] = useState<MappingCondition | undefined>(undefined);
+  const [groupByDistance, setGroupByDistance] = useState(false);
 
-  // Cleanup confirmation state when modal closes to prevent memory leaks
+  // Cleanup confirmation and step state when modal closes to prevent memory leaks
   useEffect(() => {
     if (!isOpen) {
       setShowConfirmation(false);
       setPendingMapping(null);
+      setSelection(null);
+      setTransforms([]);
+      setCondition(undefined);
     }
   }, [isOpen]);
 
@@ -59,36 +112,96 @@ export function DataSourceModal({
     return null;
   }
 
+  const classifyField = (field: DataField) =>
+    compatibilityMatrix.classify(field.type, targetField.type);
+
   const handleSelectField = (source: DataSource, field: DataField) => {
     /** TASK 2 COMPLETED: Custom confirmation dialog for type validation */
-    if (field.type !== targetField.type) {
+    const { level } = classifyField(field);
+
+    if (level === 'incompatible' && incompatiblePolicy === 'block') {
+      // Blocked sources are disabled in the tree; ignore stray selections
+      return;
+    }
+
+    if (level === 'lossy' || level === 'incompatible') {
       // Store pending mapping and show confirmation dialog
       setPendingMapping({ source, field });
       setShowConfirmation(true);
       return;
     }
 
-    // Types match, proceed immediately
-    createMapping(source, field);
+    // Exact or safe conversion, proceed to the configure step
+    setSelection({ kind: 'field', source, field });
+  };
+
+  const handleSelectConstant = (value: ConstantValue) => {
+    // Literals are validated against the target type by ConstantValueInput
+    setSelection({ kind: 'constant', value });
   };
 
-  const createMapping = (source: DataSource, field: DataField) => {
-    const mapping: PrefillMapping = {
-      targetFormId: '', // Will be set by parent
-      targetFieldId: targetField.id,
-      sourceType: source.type === 'form' ? 'form' : 'global',
-      sourceFormId: source.type === 'form' ? source.id : undefined,
-      sourceFieldId: field.id,
-      sourcePath: field.path,
-    };
+  const createMapping = () => {
+    if (!selection) return;
+
+    const mapping: PrefillMapping =
+      selection.kind === 'constant'
+        ? {
+            targetFormId: '', // Will be set by parent
+            targetFieldId: targetField.id,
+            sourceType: 'constant',
+            sourceFieldId: '',
+            sourcePath: `Constant = ${formatConstantValue(selection.value)}`,
+            constantValue: selection.value,
+          }
+        : {
+            targetFormId: '', // Will be set by parent
+            targetFieldId: targetField.id,
+            sourceType: selection.source.type,
+            sourceFieldId: selection.field.id,
+            sourcePath: selection.field.path,
+          };
+
+    // Form and plugin sources are identified by ID; global ones by their path
+    if (selection.kind === 'field' && selection.source.type === 'form') {
+      mapping.sourceFormId = selection.source.id;
+    }
+    if (selection.kind === 'field' && selection.source.type === 'custom') {
+      mapping.sourceId = selection.source.id;
+    }
+
+    // Converted values are coerced when the mapping resolves; accepted incompatible ones pass through
+    if (selection.kind === 'field') {
+      const fieldTypes = fieldTypesToRecord(
+        selection.field.type,
+        targetField.type,
+        compatibilityMatrix
+      );
+      if (fieldTypes) {
+        mapping.fieldTypes = fieldTypes;
+      }
+    }
+
+    // Only persist a pipeline when one was configured
+    if (transforms.length > 0) {
+      mapping.transforms = transforms;
+    }
+    if (condition) {
+      mapping.condition = condition;
+    }
 
     onSelectField(mapping);
     onClose();
   };
 
+  const handleBackToSelection = () => {
+    setSelection(null);
+    setTransforms([]);
+    setCondition(undefined);
+  };
+
   const handleConfirmTypeMismatch = () => {
     if (pendingMapping) {
-      createMapping(pendingMapping.source, pendingMapping.field);
+      setSelection({ kind: 'field', ...pendingMapping });
     }
     setShowConfirmation(false);
     setPendingMapping(null);
@@ -99,26 +212,59 @@ export function DataSourceModal({
     setPendingMapping(null);
   };
 
+  const pendingRule = pendingMapping ? classifyField(pendingMapping.field) : undefined;
+
+  const nameOf = (formId: string) => formGraph?.[formId]?.name ?? formId;
+
+  /**
+   * Hop distance and the chains a transitive source is reached through,
+   * e.g. "2 hops · via Form D ← Form B ← Form A"
+   */
+  const describeRoute = (source: DataSource) => {
+    const route = dependencyRoutes?.get(source.id);
+    if (!route) return null;
+
+    return (
+      <div className="space-y-0.5" aria-label={`Route to ${source.name}`}>
+        <span className="font-medium text-gray-700">{route.distance} hops</span>
+        {route.paths.map(path => (
+          <div key={path.join('|')}>via {path.map(nameOf).join(' ← ')}</div>
+        ))}
+      </div>
+    );
+  };
+
+  // Transitive sources by hop distance, nearest group first
+  const distanceGroups = Array.from(
+    transitiveDependencies.reduce((groups, source) => {
+      const distance = dependencyRoutes?.get(source.id)?.distance ?? 0;
+      groups.set(distance, [...(groups.get(distance) ?? []), source]);
+      return groups;
+    }, new Map<number, DataSource[]>())
+  ).sort(([a], [b]) => a - b);
+
   const hasAnySources =
     directDependencies.length > 0 ||
     transitiveDependencies.length > 0 ||
-    globalSources.length > 0;
+    globalSources.length > 0 ||
+    customSources.length > 0;
 
   return (
     <>
       {/* Confirmation Dialog for Type Mismatch */}
       <ConfirmationDialog
         isOpen={showConfirmation}
-        message={`Warning: The source data type does NOT match the target field type. Do you still wish to continue with the prefill?`}
+        message={`Warning: The source data type does NOT match the target field type. ${
+          pendingRule?.description ?? ''
+        } Do you still wish to continue with the prefill?`}
         sourceType={pendingMapping?.field.type || ''}
         targetType={targetField.type}
+        level={pendingRule?.level}
         onConfirm={handleConfirmTypeMismatch}
         onCancel={handleCancelTypeMismatch}
       />
 
       <div className="fixed inset-0 z-50 overflow-y-auto">
-        {/** MANUAL TASK 3 BELOW */}
-
         {/* Backdrop - Closes confirmation dialog if open, otherwise closes modal */}
         <div
           className="fixed inset-0 bg-black bg-opacity-50 backdrop-blur-sm"
@@ -129,97 +275,233 @@ export function DataSourceModal({
         {/* Modal */}
         <div className="flex min-h-full items-center justify-center p-4">
           <div className="relative bg-white rounded-lg w-full max-w-2xl modal-enhanced">
-          {/* Header */}
-          <div className="flex items-center justify-between modal-header">
-            <div>
-              <h2 className="text-lg font-semibold">Select Data Source</h2>
-              <p className="text-sm text-gray-600">
-                Configure prefill for <strong>{formName}</strong> → <strong>{targetField.label}</strong>
-              </p>
+            {/* Header */}
+            <div className="flex items-center justify-between modal-header">
+              <div>
+                <h2 className="text-lg font-semibold">
+                  {isFallback ? 'Add Fallback Source' : 'Select Data Source'}
+                </h2>
+                <p className="text-sm text-gray-600">
+                  Configure prefill for <strong>{formName}</strong> → <strong>{targetField.label}</strong>
+                </p>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-red-100 rounded-lg transition-colors"
+              >
+                <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
+                  <path
+                    fillRule="evenodd"
+                    d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                    clipRule="evenodd"
+                  />
+                </svg>
+              </button>
             </div>
-            <button
-              onClick={onClose}
-              className="p-2 hover:bg-red-100 rounded-lg transition-colors"
-            >
-              <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
-                <path
-                  fillRule="evenodd"
-                  d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
-                  clipRule="evenodd"
-                />
-              </svg>
-            </button>
-          </div>
 
-          {/* Search */}
-          <div className="p-4 border-b">
-            <input
-              type="text"
-              placeholder="Search fields..."
-              value={searchTerm}
-              onChange={e => setSearchTerm(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md search-input"
-            />
-          </div>
+            {selection ? (
+              <>
+                {/* Configure step: transformation pipeline */}
+                <div className="modal-content overflow-y-auto">
+                  <div className="space-y-4">
+                    <div className="section-card">
+                      <h3>Selected Source</h3>
+                      {selection.kind === 'field' ? (
+                        <p className="text-sm text-gray-900">
+                          <strong>{selection.field.path}</strong>
+                          <span className="ml-2 text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded">
+                            {selection.field.type}
+                          </span>
+                        </p>
+                      ) : (
+                        <p className="text-sm text-gray-900">
+                          Static value <strong>{formatConstantValue(selection.value)}</strong>
+                        </p>
+                      )}
+                    </div>
+                    <div className="section-card">
+                      <h3>Transforms</h3>
+                      <p className="text-sm text-gray-600 mb-2">
+                        Reshape the source value before it is prefilled
+                      </p>
+                      <TransformPipelineEditor transforms={transforms} onChange={setTransforms} />
+                    </div>
+                    <div className="section-card">
+                      <h3>Condition</h3>
+                      <p className="text-sm text-gray-600 mb-2">
+                        Decide whether this mapping applies based on upstream answers
+                      </p>
+                      <ConditionEditor
+                        dataSources={[
+                          ...directDependencies,
+                          ...transitiveDependencies,
+                          ...globalSources,
+                        ]}
+                        condition={condition}
+                        onChange={setCondition}
+                      />
+                    </div>
+                  </div>
+                </div>
 
-          {/* Content */}
-          <div className="modal-content overflow-y-auto">
-            {!hasAnySources ? (
-              <div className="text-center py-8 text-gray-500">
-                <p>No data sources available for this form</p>
-              </div>
+                {/* Footer */}
+                <div className="flex items-center justify-end gap-3 px-6 py-4 bg-gray-50 border-t border-gray-200 rounded-b-lg">
+                  <button
+                    onClick={handleBackToSelection}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                  >
+                    Back
+                  </button>
+                  <button onClick={createMapping} className="btn-avantos">
+                    Save Mapping
+                  </button>
+                </div>
+              </>
             ) : (
-              <div className="space-y-4">
-                {/* Direct Dependencies */}
-                {directDependencies.length > 0 && (
-                  <div className="section-card">
-                    <h3>Direct Dependencies</h3>
-                    <p className="text-sm text-gray-600 mb-2">
-                      Forms that this form directly depends on
-                    </p>
-                    <DataSourceTree
-                      dataSources={directDependencies}
-                      onSelectField={showConfirmation ? () => {} : handleSelectField}
-                      filterText={searchTerm}
-                    />
-                  </div>
-                )}
+              <>
+                {/* Search */}
+                <div className="p-4 border-b">
+                  <input
+                    type="text"
+                    placeholder="Search fields..."
+                    value={searchTerm}
+                    onChange={e => setSearchTerm(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md search-input"
+                  />
+                </div>
 
-                {/* Transitive Dependencies */}
-                {transitiveDependencies.length > 0 && (
-                  <div className="section-card">
-                    <h3>Transitive Dependencies</h3>
-                    <p className="text-sm text-gray-600 mb-2">
-                      Forms that upstream forms depend on
-                    </p>
-                    <DataSourceTree
-                      dataSources={transitiveDependencies}
-                      onSelectField={showConfirmation ? () => {} : handleSelectField}
-                      filterText={searchTerm}
-                    />
-                  </div>
-                )}
+                {/* Content */}
+                <div className="modal-content overflow-y-auto">
+                  {!hasAnySources ? (
+                    <div className="text-center py-8 text-gray-500">
+                      <p>No data sources available for this form</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      {/* Direct Dependencies */}
+                      {directDependencies.length > 0 && (
+                        <div className="section-card">
+                          <h3>Direct Dependencies</h3>
+                          <p className="text-sm text-gray-600 mb-2">
+                            Forms that this form directly depends on
+                          </p>
+                          <DataSourceTree
+                            dataSources={directDependencies}
+                            onSelectField={showConfirmation ? () => {} : handleSelectField}
+                            filterText={searchTerm}
+                            getCompatibility={field => classifyField(field).level}
+                            blockIncompatible={incompatiblePolicy === 'block'}
+                          />
+                        </div>
+                      )}
 
-                {/* Global Sources */}
-                {globalSources.length > 0 && (
-                  <div className="section-card">
-                    <h3>Global System Dependencies</h3>
+                      {/* Transitive Dependencies */}
+                      {transitiveDependencies.length > 0 && (
+                        <div className="section-card">
+                          <div className="flex items-start justify-between gap-4">
+                            <div>
+                              <h3>Transitive Dependencies</h3>
+                              <p className="text-sm text-gray-600 mb-2">
+                                Forms that upstream forms depend on
+                              </p>
+                            </div>
+                            {dependencyRoutes && (
+                              <label className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+                                <input
+                                  type="checkbox"
+                                  checked={groupByDistance}
+                                  onChange={e => setGroupByDistance(e.target.checked)}
+                                />
+                                Group by distance
+                              </label>
+                            )}
+                          </div>
+                          {groupByDistance && dependencyRoutes ? (
+                            <div className="space-y-3">
+                              {distanceGroups.map(([distance, sources]) => (
+                                <div key={distance}>
+                                  <h4 className="text-sm font-medium text-gray-700 mb-1">
+                                    {distance} hops away
+                                  </h4>
+                                  <DataSourceTree
+                                    dataSources={sources}
+                                    onSelectField={showConfirmation ? () => {} : handleSelectField}
+                                    filterText={searchTerm}
+                                    getCompatibility={field => classifyField(field).level}
+                                    blockIncompatible={incompatiblePolicy === 'block'}
+                                    describeSource={describeRoute}
+                                  />
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            <DataSourceTree
+                              dataSources={transitiveDependencies}
+                              onSelectField={showConfirmation ? () => {} : handleSelectField}
+                              filterText={searchTerm}
+                              getCompatibility={field => classifyField(field).level}
+                              blockIncompatible={incompatiblePolicy === 'block'}
+                              describeSource={dependencyRoutes ? describeRoute : undefined}
+                            />
+                          )}
+                        </div>
+                      )}
+
+                      {/* Global Sources */}
+                      {globalSources.length > 0 && (
+                        <div className="section-card">
+                          <h3>Global System Dependencies</h3>
+                          <p className="text-sm text-gray-600 mb-2">
+                            System-wide properties and data
+                          </p>
+                          <DataSourceTree
+                            dataSources={globalSources}
+                            onSelectField={showConfirmation ? () => {} : handleSelectField}
+                            filterText={searchTerm}
+                            getCompatibility={field => classifyField(field).level}
+                            blockIncompatible={incompatiblePolicy === 'block'}
+                          />
+                        </div>
+                      )}
+
+                      {/* Plugin Sources */}
+                      {customSources.length > 0 && (
+                        <div className="section-card">
+                          <h3>Custom Sources</h3>
+                          <p className="text-sm text-gray-600 mb-2">
+                            Data contributed by plugins
+                          </p>
+                          <DataSourceTree
+                            dataSources={customSources}
+                            onSelectField={showConfirmation ? () => {} : handleSelectField}
+                            filterText={searchTerm}
+                            getCompatibility={field => classifyField(field).level}
+                            blockIncompatible={incompatiblePolicy === 'block'}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Static literal value */}
+                  <div className="section-card mt-4">
+                    <h3>Static Value</h3>
                     <p className="text-sm text-gray-600 mb-2">
-                      System-wide properties and data
+                      Always prefill with a fixed {targetField.type} value
                     </p>
-                    <DataSourceTree
-                      dataSources={globalSources}
-                      onSelectField={showConfirmation ? () => {} : handleSelectField}
-                      filterText={searchTerm}
+                    <ConstantValueInput
+                      key={targetField.id}
+                      fieldType={targetField.type}
+                      onSubmit={handleSelectConstant}
+                      disabled={showConfirmation}
                     />
                   </div>
-                )}
-              </div>
+                </div>
+              </>
             )}
           </div>
         </div>
       </div>
-      </div>
     </>
   );
 }
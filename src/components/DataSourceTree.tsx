@@ -1,5 +1,7 @@
-import { useState } from 'react';
+import { ReactNode, useEffect, useRef, useState } from 'react';
 import { DataSource, DataField } from '../types';
+import { CompatibilityLevel } from '../services/typeCompatibility';
+import { isAbortError } from '../services/resilientFetch';
 
 interface DataSourceTreeProps {
   /** List of data sources to display */
@@ -8,40 +10,225 @@ interface DataSourceTreeProps {
   onSelectField: (source: DataSource, field: DataField) => void;
   /** Optional filter text */
   filterText?: string;
+  /** Classifies each field against the target type, enabling highlighting */
+  getCompatibility?: (field: DataField) => CompatibilityLevel;
+  /** Whether incompatible fields are disabled */
+  blockIncompatible?: boolean;
+  /** Extra details shown under a source's header, even while it is collapsed */
+  describeSource?: (source: DataSource) => ReactNode;
+}
+
+/**
+ * Badge styles for each compatibility level
+ */
+const COMPATIBILITY_STYLES: Record<CompatibilityLevel, { label: string; className: string }> = {
+  exact: { label: 'match', className: 'bg-green-100 text-green-800' },
+  safe: { label: 'compatible', className: 'bg-green-50 text-green-700' },
+  lossy: { label: 'lossy', className: 'bg-yellow-100 text-yellow-800' },
+  incompatible: { label: 'incompatible', className: 'bg-red-100 text-red-700' },
+};
+
+/**
+ * Progress of an asynchronous source's field list
+ */
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'error'; message: string }
+  | { status: 'loaded'; fields: DataField[] };
+
+/**
+ * Whether a source fetches its fields rather than having them at hand
+ */
+function isAsyncSource(source: DataSource): boolean {
+  return typeof source.loadFields === 'function';
 }
 
 /**
  * DataSourceTree displays a hierarchical tree of data sources and their fields
- * Each source is collapsible, and fields can be clicked to select them
+ * Each source is collapsible, and fields can be clicked to select them.
+ * Fields with nested sub-properties or array items can be drilled into,
+ * and each nested field can be selected individually.
+ * Sources that load their fields asynchronously start collapsed and load on
+ * first expansion, with a spinner while loading and a retry after a failure.
  */
 export function DataSourceTree({
   dataSources,
   onSelectField,
   filterText = '',
+  getCompatibility,
+  blockIncompatible = false,
+  describeSource,
 }: DataSourceTreeProps) {
   const [expandedSources, setExpandedSources] = useState<Set<string>>(
-    new Set(dataSources.map(s => s.id))
+    new Set(dataSources.filter(s => !isAsyncSource(s)).map(s => s.id))
   );
+  const [loadStates, setLoadStates] = useState<Map<string, LoadState>>(new Map());
+  const loadControllers = useRef<Map<string, AbortController>>(new Map());
+
+  // Stop waiting for field lists once the tree goes away
+  useEffect(() => {
+    const controllers = loadControllers.current;
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  const setLoadState = (sourceId: string, state: LoadState) => {
+    setLoadStates(prev => new Map(prev).set(sourceId, state));
+  };
+
+  const loadSource = (source: DataSource) => {
+    loadControllers.current.get(source.id)?.abort();
+    const controller = new AbortController();
+    loadControllers.current.set(source.id, controller);
+    setLoadState(source.id, { status: 'loading' });
+
+    source.loadFields!(controller.signal).then(
+      fields => {
+        loadControllers.current.delete(source.id);
+        setLoadState(source.id, { status: 'loaded', fields });
+      },
+      error => {
+        if (isAbortError(error)) return;
+        loadControllers.current.delete(source.id);
+        setLoadState(source.id, {
+          status: 'error',
+          message: error instanceof Error ? error.message : 'Could not load fields',
+        });
+      }
+    );
+  };
 
-  const toggleSource = (sourceId: string) => {
+  const toggleSource = (source: DataSource) => {
+    const isExpanding = !expandedSources.has(source.id);
     setExpandedSources(prev => {
       const next = new Set(prev);
-      if (next.has(sourceId)) {
-        next.delete(sourceId);
+      if (next.has(source.id)) {
+        next.delete(source.id);
       } else {
-        next.add(sourceId);
+        next.add(source.id);
       }
       return next;
     });
+
+    // Lazy expansion: fetch on first open, and again after a failure
+    const loadState = loadStates.get(source.id);
+    if (isExpanding && isAsyncSource(source) && (!loadState || loadState.status === 'error')) {
+      loadSource(source);
+    }
   };
 
+  const [expandedFields, setExpandedFields] = useState<Set<string>>(new Set());
+
+  const toggleField = (key: string) => {
+    setExpandedFields(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const isFiltering = filterText.trim() !== '';
+
+  /**
+   * Keeps fields that match the filter, plus parents of matching nested fields
+   * A matching parent keeps its whole subtree
+   */
   const filterFields = (fields: DataField[]): DataField[] => {
-    if (!filterText.trim()) return fields;
+    if (!isFiltering) return fields;
     const searchTerm = filterText.toLowerCase();
-    return fields.filter(
-      field =>
+
+    return fields.flatMap(field => {
+      const matches =
         field.label.toLowerCase().includes(searchTerm) ||
-        field.id.toLowerCase().includes(searchTerm)
+        field.id.toLowerCase().includes(searchTerm);
+      if (matches) return [field];
+
+      const children = filterFields(field.children ?? []);
+      return children.length > 0 ? [{ ...field, children }] : [];
+    });
+  };
+
+  const renderField = (source: DataSource, field: DataField, depth: number) => {
+    const key = `${source.id}/${field.id}`;
+    const hasChildren = !!field.children && field.children.length > 0;
+    // Nested fields open automatically while filtering so matches are visible
+    const isFieldExpanded = hasChildren && (isFiltering || expandedFields.has(key));
+    const compatibility = getCompatibility?.(field);
+    const isBlocked = blockIncompatible && compatibility === 'incompatible';
+
+    return (
+      <div key={field.id}>
+        <div className="flex items-center" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+          {hasChildren && (
+            <button
+              onClick={() => toggleField(key)}
+              className="p-1 text-gray-500 hover:text-gray-900"
+              aria-label={`${isFieldExpanded ? 'Collapse' : 'Expand'} ${field.label}`}
+              aria-expanded={isFieldExpanded}
+            >
+              <svg
+                className={`w-3 h-3 transition-transform ${isFieldExpanded ? 'rotate-90' : ''}`}
+                fill="currentColor"
+                viewBox="0 0 20 20"
+              >
+                <path
+                  fillRule="evenodd"
+                  d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z"
+                  clipRule="evenodd"
+                />
+              </svg>
+            </button>
+          )}
+          <button
+            onClick={() => onSelectField(source, field)}
+            disabled={isBlocked}
+            title={isBlocked ? 'Incompatible with the target field type' : undefined}
+            className={`flex-1 flex items-center justify-between p-2 rounded hover:bg-primary-50 hover:border-primary-300 border border-transparent transition-colors text-left ${
+              isBlocked ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <svg
+                className="w-4 h-4 text-gray-400"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                />
+              </svg>
+              <span className="text-sm text-gray-900">{field.label}</span>
+            </div>
+            <div className="flex items-center gap-1">
+              {compatibility && (
+                <span
+                  className={`text-xs px-2 py-0.5 rounded-full ${COMPATIBILITY_STYLES[compatibility].className}`}
+                >
+                  {COMPATIBILITY_STYLES[compatibility].label}
+                </span>
+              )}
+              <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded">
+                {field.type}
+              </span>
+            </div>
+          </button>
+        </div>
+        {isFieldExpanded && (
+          <div className="space-y-1 mt-1">
+            {field.children!.map(child => renderField(source, child, depth + 1))}
+          </div>
+        )}
+      </div>
     );
   };
 
@@ -69,18 +256,24 @@ export function DataSourceTree({
   return (
     <div className="space-y-2">
       {dataSources.map(source => {
-        const fields = filterFields(source.getFields());
+        const isAsync = isAsyncSource(source);
+        const loadState = isAsync ? loadStates.get(source.id) : undefined;
+        const isReady = !isAsync || loadState?.status === 'loaded';
+        const fields = filterFields(
+          loadState?.status === 'loaded' ? loadState.fields : source.getFields()
+        );
         const isExpanded = expandedSources.has(source.id);
 
-        // Skip sources with no matching fields when filtering
-        if (filterText && fields.length === 0) {
+        // Skip sources with no matching fields when filtering (unloaded ones may still match)
+        if (filterText && isReady && fields.length === 0) {
           return null;
         }
 
         return (
           <div key={source.id} className="border border-gray-200 rounded-lg overflow-hidden">
             <button
-              onClick={() => toggleSource(source.id)}
+              onClick={() => toggleSource(source)}
+              aria-expanded={isExpanded}
               className="w-full flex items-center justify-between p-3 bg-gray-50 hover:bg-gray-100 transition-colors"
             >
               <div className="flex items-center gap-2">
@@ -98,43 +291,46 @@ export function DataSourceTree({
                   />
                 </svg>
                 <span className="font-medium text-gray-900">{source.name}</span>
-                <span className="text-xs text-gray-500">({fields.length} {fields.length === 1 ? 'field' : 'fields'})</span>
+                {isReady && (
+                  <span className="text-xs text-gray-500">({fields.length} {fields.length === 1 ? 'field' : 'fields'})</span>
+                )}
               </div>
+              {loadState?.status === 'loading' && (
+                <span
+                  role="status"
+                  aria-label={`Loading ${source.name}`}
+                  className="inline-block animate-spin rounded-full h-4 w-4 border-b-2 border-primary-500"
+                />
+              )}
             </button>
 
+            {describeSource && (
+              <div className="px-3 py-1.5 bg-gray-50 border-t border-gray-200 text-xs text-gray-600">
+                {describeSource(source)}
+              </div>
+            )}
+
             {isExpanded && (
               <div className="p-2 bg-white">
-                {fields.length === 0 ? (
+                {loadState?.status === 'error' ? (
+                  <div className="flex items-center justify-between p-2 text-sm">
+                    <p className="text-red-700" role="alert">
+                      Could not load fields: {loadState.message}
+                    </p>
+                    <button
+                      onClick={() => loadSource(source)}
+                      className="px-3 py-1 text-gray-700 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                    >
+                      Retry
+                    </button>
+                  </div>
+                ) : !isReady ? (
+                  <p className="text-sm text-gray-500 p-2">Loading fields…</p>
+                ) : fields.length === 0 ? (
                   <p className="text-sm text-gray-500 p-2">No fields available</p>
                 ) : (
                   <div className="space-y-1">
-                    {fields.map(field => (
-                      <button
-                        key={field.id}
-                        onClick={() => onSelectField(source, field)}
-                        className="w-full flex items-center justify-between p-2 rounded hover:bg-primary-50 hover:border-primary-300 border border-transparent transition-colors text-left"
-                      >
-                        <div className="flex items-center gap-2">
-                          <svg
-                            className="w-4 h-4 text-gray-400"
-                            fill="none"
-                            stroke="currentColor"
-                            viewBox="0 0 24 24"
-                          >
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
-                            />
-                          </svg>
-                          <span className="text-sm text-gray-900">{field.label}</span>
-                        </div>
-                        <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded">
-                          {field.type}
-                        </span>
-                      </button>
-                    ))}
+                    {fields.map(field => renderField(source, field, 0))}
                   </div>
                 )}
               </div>
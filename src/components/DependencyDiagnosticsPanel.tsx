@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { DependencyIssue, DependencyIssueType } from '../types';
+
+interface DependencyDiagnosticsPanelProps {
+  /** Issues found while reconciling prerequisites with edges */
+  issues: DependencyIssue[];
+}
+
+const ISSUE_LABELS: Record<DependencyIssueType, string> = {
+  edgeWithoutPrerequisite: 'Edges without a matching prerequisite',
+  missingNode: 'References to missing nodes',
+  duplicate: 'Duplicates',
+};
+
+const ISSUE_HINTS: Record<DependencyIssueType, string> = {
+  edgeWithoutPrerequisite: 'These dependencies were added from the edges.',
+  missingNode: 'These dependencies were ignored.',
+  duplicate: 'Only the first occurrence was used.',
+};
+
+/**
+ * DependencyDiagnosticsPanel reports where a blueprint's prerequisites and
+ * edges disagree, so that unexpected prefill options can be traced back
+ * Collapsed by default; hidden entirely when there is nothing to report
+ */
+export function DependencyDiagnosticsPanel({ issues }: DependencyDiagnosticsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (issues.length === 0) {
+    return null;
+  }
+
+  const groups = (Object.keys(ISSUE_LABELS) as DependencyIssueType[])
+    .map(type => ({ type, items: issues.filter(issue => issue.type === type) }))
+    .filter(group => group.items.length > 0);
+
+  return (
+    <section
+      className="mb-6 bg-white rounded-lg shadow-sm border border-yellow-300 p-4"
+      aria-label="Dependency diagnostics"
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Dependency diagnostics</h2>
+          <p className="text-sm text-gray-600">
+            {issues.length} issue{issues.length !== 1 ? 's' : ''} found between node
+            prerequisites and graph edges
+          </p>
+        </div>
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          className="text-sm text-primary-600 hover:text-primary-700"
+          aria-expanded={expanded}
+        >
+          {expanded ? 'Hide details' : 'Show details'}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          {groups.map(group => (
+            <div key={group.type}>
+              <h3 className="text-sm font-semibold text-gray-800">
+                {ISSUE_LABELS[group.type]} ({group.items.length})
+              </h3>
+              <p className="text-xs text-gray-500 mb-1">{ISSUE_HINTS[group.type]}</p>
+              <ul className="list-disc list-inside space-y-0.5 text-sm text-gray-700">
+                {group.items.map((issue, index) => (
+                  <li key={`${issue.origin}-${issue.nodeId}-${issue.dependencyId}-${index}`}>
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,95 @@
+import { useMemo } from 'react';
+import { Form, FormGraph, PrefillMapping } from '../types';
+import { MappingConsumer, analyzeDownstreamImpact } from '../services/impactAnalysis';
+import { findField } from '../services/fieldTree';
+
+interface DownstreamImpactPanelProps {
+  /** The selected form */
+  form: Form;
+  /** The complete form graph */
+  formGraph: FormGraph;
+  /** All mappings of the blueprint */
+  mappings: PrefillMapping[];
+}
+
+/**
+ * DownstreamImpactPanel shows what an edit to the selected form could break:
+ * the forms that depend on it and, per field, the mappings anywhere in the
+ * blueprint that read that field
+ */
+export function DownstreamImpactPanel({ form, formGraph, mappings }: DownstreamImpactPanelProps) {
+  const impact = useMemo(
+    () => analyzeDownstreamImpact(form.id, formGraph, mappings),
+    [form.id, formGraph, mappings]
+  );
+
+  // Consumers grouped by the field they read, in first-seen order
+  const byField = useMemo(() => {
+    const groups = new Map<string, MappingConsumer[]>();
+    impact.consumers.forEach(consumer => {
+      groups.set(consumer.fieldId, [...(groups.get(consumer.fieldId) ?? []), consumer]);
+    });
+    return Array.from(groups.entries());
+  }, [impact.consumers]);
+
+  const nameOf = (formId: string) => formGraph[formId]?.name ?? formId;
+  const targetLabel = ({ targetFormId, targetFieldId }: PrefillMapping) => {
+    const field = findField(formGraph[targetFormId]?.fields ?? [], targetFieldId);
+    return `${nameOf(targetFormId)}.${field?.label ?? targetFieldId}`;
+  };
+
+  const hasDependents =
+    impact.directDependents.length > 0 || impact.transitiveDependents.length > 0;
+
+  return (
+    <section className="mt-6 border-t border-gray-200 pt-4" aria-label="Downstream impact">
+      <h3 className="text-sm font-semibold text-gray-900 mb-2">Downstream of {form.name}</h3>
+
+      {hasDependents ? (
+        <dl className="text-sm text-gray-700 space-y-1 mb-3">
+          {impact.directDependents.length > 0 && (
+            <div>
+              <dt className="inline font-medium">Depended on by: </dt>
+              <dd className="inline">{impact.directDependents.map(nameOf).join(', ')}</dd>
+            </div>
+          )}
+          {impact.transitiveDependents.length > 0 && (
+            <div>
+              <dt className="inline font-medium">Indirectly: </dt>
+              <dd className="inline">{impact.transitiveDependents.map(nameOf).join(', ')}</dd>
+            </div>
+          )}
+        </dl>
+      ) : (
+        <p className="text-sm text-gray-500 mb-3">No forms depend on {form.name}.</p>
+      )}
+
+      {byField.length > 0 ? (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Changing these fields would affect:</p>
+          <ul className="space-y-2 text-sm" aria-label="Field consumers">
+            {byField.map(([fieldId, consumers]) => (
+              <li key={fieldId}>
+                <span className="font-medium text-gray-800">
+                  {findField(form.fields, fieldId)?.label ?? fieldId}
+                </span>
+                <ul className="ml-4 list-disc list-inside text-gray-600">
+                  {consumers.map((consumer, index) => (
+                    <li key={`${consumer.via}-${consumer.mapping.targetFormId}-${consumer.mapping.targetFieldId}-${index}`}>
+                      {targetLabel(consumer.mapping)}
+                      {consumer.via === 'condition' && (
+                        <span className="text-gray-400"> (condition)</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">No mappings read from this form.</p>
+      )}
+    </section>
+  );
+}
@@ -1,25 +1,105 @@
 import { FormField, PrefillMapping } from '../types';
+import { describeTransform } from '../services/transformPipeline';
+import { describeCondition } from '../services/mappingConditions';
+import { MappingProblem } from '../services/mappingValidation';
 
 interface FieldMappingRowProps {
   /** The form field to display */
   field: FormField;
+  /** Nesting depth for sub-properties and array items (0 for top-level fields) */
+  depth?: number;
   /** The current mapping for this field (if any) */
   mapping: PrefillMapping | undefined;
+  /** The full fallback chain for this field (defaults to just `mapping`) */
+  chain?: PrefillMapping[];
   /** Callback when the user clicks to set/edit a mapping */
   onOpenModal: (fieldId: string) => void;
   /** Callback when the user clears a mapping */
   onClearMapping: (fieldId: string) => void;
+  /** Callback when the user wants to append a fallback source */
+  onAddFallback?: (fieldId: string) => void;
+  /** Callback when the user reorders the fallback chain */
+  onMoveMapping?: (fieldId: string, fromIndex: number, toIndex: number) => void;
+  /** Callback when the user removes one entry from the fallback chain */
+  onRemoveFromChain?: (fieldId: string, index: number) => void;
+  /** Looks up why a mapping no longer fits the blueprint, if it doesn't */
+  getProblem?: (mapping: PrefillMapping) => MappingProblem | undefined;
+}
+
+/**
+ * Renders the transform pipeline of a mapping as a row of chips
+ */
+function TransformChips({ mapping }: { mapping: PrefillMapping }) {
+  if (!mapping.transforms || mapping.transforms.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-1 ml-6 flex flex-wrap items-center gap-1" aria-label="Transforms">
+      {mapping.transforms.map((step, index) => (
+        <span
+          key={index}
+          className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700 font-mono"
+        >
+          → {describeTransform(step)}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Renders a badge summarizing a mapping's when-condition
+ */
+function ConditionBadge({ mapping }: { mapping: PrefillMapping }) {
+  if (!mapping.condition) {
+    return null;
+  }
+
+  const summary = describeCondition(mapping.condition);
+  return (
+    <span
+      className="text-xs px-2 py-0.5 rounded-full bg-orange-100 text-orange-800"
+      title={`Only when ${summary}`}
+    >
+      when {summary}
+    </span>
+  );
+}
+
+/**
+ * Renders a badge marking a mapping the blueprint no longer supports
+ */
+function ProblemBadge({ problem }: { problem: MappingProblem | undefined }) {
+  if (!problem) {
+    return null;
+  }
+
+  return (
+    <span
+      className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-800"
+      title={problem.message}
+    >
+      broken
+    </span>
+  );
 }
 
 /**
  * FieldMappingRow displays a single field and its prefill configuration
- * Shows field name, type, current mapping, and controls to edit/clear
+ * Shows field name, type, current mapping (or fallback chain), and controls to edit/clear
  */
 export function FieldMappingRow({
   field,
+  depth = 0,
   mapping,
+  chain,
   onOpenModal,
   onClearMapping,
+  onAddFallback,
+  onMoveMapping,
+  onRemoveFromChain,
+  getProblem,
 }: FieldMappingRowProps) {
   const fieldTypeColors: Record<string, string> = {
     text: 'bg-blue-100 text-blue-800',
@@ -31,8 +111,18 @@ export function FieldMappingRow({
     number: 'bg-indigo-100 text-indigo-800',
   };
 
+  const entries = chain ?? (mapping ? [mapping] : []);
+  const hasFallbacks = entries.length > 1;
+  const problems = entries.map(entry => getProblem?.(entry));
+  const isBroken = problems.some(problem => problem !== undefined);
+
   return (
-    <div className="flex items-center justify-between p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors">
+    <div
+      className={`flex items-center justify-between p-3 border rounded-lg transition-colors ${
+        isBroken ? 'border-red-300 bg-red-50' : 'border-gray-200 hover:bg-gray-50'
+      }`}
+      style={depth > 0 ? { marginLeft: `${depth * 1.5}rem` } : undefined}
+    >
       <div className="flex-1">
         <div className="flex items-center gap-2 mb-1">
           <span className="font-medium text-gray-900">{field.label}</span>
@@ -44,16 +134,96 @@ export function FieldMappingRow({
             {field.type}
           </span>
         </div>
-        {mapping ? (
-          <div className="text-sm text-gray-600 flex items-center gap-2">
-            <svg className="w-4 h-4 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-              <path
-                fillRule="evenodd"
-                d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"
-                clipRule="evenodd"
-              />
-            </svg>
-            <span>Mapped from: <strong>{mapping.sourcePath}</strong></span>
+        {mapping && hasFallbacks ? (
+          <div>
+            <div className="text-sm text-gray-600">
+              Fallback chain <span className="text-xs text-gray-400">(first non-empty value wins)</span>
+            </div>
+            <ol className="mt-1 space-y-1" aria-label="Fallback chain">
+              {entries.map((entry, index) => (
+                <li key={`${entry.sourcePath}-${index}`} className="text-sm text-gray-600">
+                  <div className="flex items-center gap-2">
+                    <span className="w-4 text-xs text-gray-400">{index + 1}.</span>
+                    <strong className={problems[index] ? 'line-through text-red-700' : undefined}>
+                      {entry.sourcePath}
+                    </strong>
+                    <ConditionBadge mapping={entry} />
+                    <ProblemBadge problem={problems[index]} />
+                    {onMoveMapping && (
+                      <>
+                        <button
+                          onClick={() => onMoveMapping(field.id, index, index - 1)}
+                          disabled={index === 0}
+                          className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                          aria-label={`Move ${entry.sourcePath} up`}
+                        >
+                          ↑
+                        </button>
+                        <button
+                          onClick={() => onMoveMapping(field.id, index, index + 1)}
+                          disabled={index === entries.length - 1}
+                          className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                          aria-label={`Move ${entry.sourcePath} down`}
+                        >
+                          ↓
+                        </button>
+                      </>
+                    )}
+                    {onRemoveFromChain && (
+                      <button
+                        onClick={() => onRemoveFromChain(field.id, index)}
+                        className="px-1 text-red-600 hover:bg-red-50 rounded"
+                        aria-label={`Remove ${entry.sourcePath}`}
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                  <TransformChips mapping={entry} />
+                </li>
+              ))}
+            </ol>
+          </div>
+        ) : mapping ? (
+          <div>
+            <div className="text-sm text-gray-600 flex items-center gap-2">
+              {isBroken ? (
+                <svg className="w-4 h-4 text-red-500" fill="currentColor" viewBox="0 0 20 20">
+                  <path
+                    fillRule="evenodd"
+                    d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z"
+                    clipRule="evenodd"
+                  />
+                </svg>
+              ) : (
+                <svg className="w-4 h-4 text-green-500" fill="currentColor" viewBox="0 0 20 20">
+                  <path
+                    fillRule="evenodd"
+                    d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"
+                    clipRule="evenodd"
+                  />
+                </svg>
+              )}
+              <span>
+                Mapped from:{' '}
+                <strong className={isBroken ? 'line-through text-red-700' : undefined}>
+                  {mapping.sourcePath}
+                </strong>
+              </span>
+              {mapping.sourceType === 'constant' && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">
+                  static
+                </span>
+              )}
+              <ConditionBadge mapping={mapping} />
+              <ProblemBadge problem={problems[0]} />
+            </div>
+            {problems[0] && (
+              <p className="mt-1 ml-6 text-xs text-red-700" role="alert">
+                {problems[0].message}
+              </p>
+            )}
+            <TransformChips mapping={mapping} />
           </div>
         ) : (
           <div className="text-sm text-gray-400 flex items-center gap-2">
@@ -85,6 +255,15 @@ export function FieldMappingRow({
             </svg>
           </button>
         )}
+        {mapping && onAddFallback && (
+          <button
+            onClick={() => onAddFallback(field.id)}
+            className="px-3 py-1.5 text-sm text-primary-600 border border-primary-600 rounded hover:bg-primary-50 transition-colors"
+            title="Add fallback source"
+          >
+            + Fallback
+          </button>
+        )}
         <button
           onClick={() => onOpenModal(field.id)}
           className="btn-avantos"
@@ -0,0 +1,273 @@
+import { KeyboardEvent, PointerEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { Form, FormGraph, PrefillMapping } from '../types';
+import { FIELD_ROW_HEIGHT, NODE_HEADER_HEIGHT, layoutFormGraph } from '../services/graphLayout';
+
+interface FormGraphCanvasProps {
+  /** Forms to draw */
+  forms: Form[];
+  /** The complete form graph */
+  formGraph: FormGraph;
+  /** Mappings, drawn between fields when the overlay is on */
+  mappings: PrefillMapping[];
+  /** Currently selected form ID */
+  selectedFormId: string | null;
+  /** Callback when a form is selected */
+  onSelectForm: (formId: string) => void;
+}
+
+/**
+ * Pan offset (in canvas units) and zoom factor
+ */
+interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 3;
+const ZOOM_STEP = 1.2;
+const INITIAL_VIEWPORT: Viewport = { x: 0, y: 0, scale: 1 };
+
+/**
+ * FormGraphCanvas draws the blueprint as a graph: forms at their blueprint
+ * coordinates joined by dependency edges, with an optional overlay of mapping
+ * edges between the fields they connect
+ *
+ * Drag the background to pan, scroll or use the buttons to zoom, and click
+ * (or focus and press Enter on) a form to select it.
+ */
+export function FormGraphCanvas({
+  forms,
+  formGraph,
+  mappings,
+  selectedFormId,
+  onSelectForm,
+}: FormGraphCanvasProps) {
+  const [showMappings, setShowMappings] = useState(false);
+  const [viewport, setViewport] = useState<Viewport>(INITIAL_VIEWPORT);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ clientX: number; clientY: number } | null>(null);
+
+  const layout = useMemo(
+    () => layoutFormGraph(forms, formGraph, { showFields: showMappings, mappings }),
+    [forms, formGraph, showMappings, mappings]
+  );
+  const { bounds } = layout;
+
+  /**
+   * Zooms by a factor, keeping the center of the drawing in place
+   */
+  const zoomBy = (factor: number) => {
+    setViewport(prev => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, prev.scale * factor));
+      const centerX = bounds.x + bounds.width / 2;
+      const centerY = bounds.y + bounds.height / 2;
+      const ratio = scale / prev.scale;
+      return {
+        scale,
+        x: centerX - (centerX - prev.x) * ratio,
+        y: centerY - (centerY - prev.y) * ratio,
+      };
+    });
+  };
+
+  // Wheel listeners added by React are passive, so the page would scroll along
+  const zoomByRef = useRef(zoomBy);
+  zoomByRef.current = zoomBy;
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      zoomByRef.current(event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    // Only the background pans; pressing a form selects it
+    if ((event.target as Element).closest('[role="button"]')) {
+      return;
+    }
+    dragRef.current = { clientX: event.clientX, clientY: event.clientY };
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    // Screen pixels to canvas units (the viewBox is fitted, so the tighter axis decides)
+    const { clientWidth, clientHeight } = event.currentTarget;
+    const unitsPerPixel =
+      clientWidth && clientHeight
+        ? Math.max(bounds.width / clientWidth, bounds.height / clientHeight)
+        : 1;
+    const dx = (event.clientX - drag.clientX) * unitsPerPixel;
+    const dy = (event.clientY - drag.clientY) * unitsPerPixel;
+    dragRef.current = { clientX: event.clientX, clientY: event.clientY };
+    setViewport(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleNodeKeyDown = (event: KeyboardEvent, formId: string) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onSelectForm(formId);
+    }
+  };
+
+  if (forms.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64 text-gray-500">
+        <p>No forms available</p>
+      </div>
+    );
+  }
+
+  const nameOf = (formId: string) => formGraph[formId]?.name ?? formId;
+  const isSelectedEdge = (edge: { sourceFormId: string; targetFormId: string }) =>
+    edge.sourceFormId === selectedFormId || edge.targetFormId === selectedFormId;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-xl font-bold text-gray-900">Form Graph</h2>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-sm text-gray-700 mr-2">
+            <input
+              type="checkbox"
+              checked={showMappings}
+              onChange={e => setShowMappings(e.target.checked)}
+            />
+            Show mappings
+          </label>
+          <button
+            onClick={() => zoomBy(1 / ZOOM_STEP)}
+            className="px-2 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+            aria-label="Zoom out"
+          >
+            −
+          </button>
+          <button
+            onClick={() => zoomBy(ZOOM_STEP)}
+            className="px-2 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+            aria-label="Zoom in"
+          >
+            +
+          </button>
+          <button
+            onClick={() => setViewport(INITIAL_VIEWPORT)}
+            className="px-2 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+          >
+            Fit
+          </button>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        className="w-full h-[32rem] bg-gray-50 border border-gray-200 rounded-lg cursor-grab select-none touch-none"
+        viewBox={`${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`}
+        role="group"
+        aria-label="Form graph"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      >
+        <defs>
+          <marker id="form-graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-gray-400" />
+          </marker>
+        </defs>
+        <rect
+          x={bounds.x}
+          y={bounds.y}
+          width={bounds.width}
+          height={bounds.height}
+          className="fill-transparent"
+        />
+
+        <g transform={`translate(${viewport.x} ${viewport.y}) scale(${viewport.scale})`}>
+          {layout.dependencyEdges.map(edge => (
+            <path
+              key={edge.id}
+              d={edge.path}
+              fill="none"
+              markerEnd="url(#form-graph-arrow)"
+              className={isSelectedEdge(edge) ? 'stroke-primary-500' : 'stroke-gray-300'}
+              strokeWidth={isSelectedEdge(edge) ? 2.5 : 1.5}
+              data-testid="dependency-edge"
+            />
+          ))}
+
+          {layout.nodes.map(node => {
+            const isSelected = node.form.id === selectedFormId;
+            return (
+              <g
+                key={node.form.id}
+                transform={`translate(${node.x} ${node.y})`}
+                role="button"
+                tabIndex={0}
+                aria-label={node.form.name}
+                aria-pressed={isSelected}
+                className="cursor-pointer focus:outline-none"
+                onClick={() => onSelectForm(node.form.id)}
+                onKeyDown={e => handleNodeKeyDown(e, node.form.id)}
+              >
+                <rect
+                  width={node.width}
+                  height={node.height}
+                  rx={8}
+                  className={isSelected ? 'fill-primary-50 stroke-primary-500' : 'fill-white stroke-gray-300'}
+                  strokeWidth={isSelected ? 2 : 1}
+                />
+                <text
+                  x={12}
+                  y={NODE_HEADER_HEIGHT / 2}
+                  dominantBaseline="central"
+                  className="fill-gray-900 text-sm font-semibold"
+                >
+                  {node.form.name}
+                </text>
+                {node.fieldRows.map(row => (
+                  <text
+                    key={row.fieldId}
+                    x={12}
+                    y={row.y - node.y}
+                    dominantBaseline="central"
+                    className="fill-gray-600"
+                    fontSize={FIELD_ROW_HEIGHT * 0.65}
+                  >
+                    {row.label}
+                  </text>
+                ))}
+              </g>
+            );
+          })}
+
+          {layout.mappingEdges.map(edge => (
+            <path
+              key={edge.id}
+              d={edge.path}
+              fill="none"
+              strokeDasharray="4 3"
+              className={isSelectedEdge(edge) ? 'stroke-amber-500' : 'stroke-amber-300'}
+              strokeWidth={1.5}
+              data-testid="mapping-edge"
+            >
+              <title>{`${edge.mapping.sourcePath} → ${nameOf(edge.targetFormId)}.${edge.mapping.targetFieldId}`}</title>
+            </path>
+          ))}
+        </g>
+      </svg>
+    </div>
+  );
+}
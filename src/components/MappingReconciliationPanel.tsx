@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { FormGraph, MappingReconciliationEntry, PrefillMapping } from '../types';
+import { findField } from '../services/fieldTree';
+
+interface MappingReconciliationPanelProps {
+  /** Reconciliation result (only serverOnly and conflict entries are shown) */
+  entries: MappingReconciliationEntry[];
+  /** Form graph used to label target fields */
+  formGraph: FormGraph;
+  /** Callback to replace the local chain with the server's */
+  onUseServer: (entry: MappingReconciliationEntry) => void;
+}
+
+const STATUS_LABELS: Record<MappingReconciliationEntry['status'], string> = {
+  match: 'In sync',
+  serverOnly: 'Only on server',
+  localOnly: 'Only local',
+  conflict: 'Differs',
+};
+
+const STATUS_STYLES: Record<MappingReconciliationEntry['status'], string> = {
+  match: 'bg-green-100 text-green-800',
+  serverOnly: 'bg-blue-100 text-blue-800',
+  localOnly: 'bg-gray-100 text-gray-800',
+  conflict: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Renders a chain as "A → B → C", or a dash when empty
+ */
+function describeChain(chain: PrefillMapping[]): string {
+  return chain.length > 0 ? chain.map(m => m.sourcePath).join(' → ') : '—';
+}
+
+/**
+ * MappingReconciliationPanel lists fields where the blueprint's input_mapping
+ * and the locally stored mappings disagree
+ * Each row can adopt the server's chain or keep the local one
+ */
+export function MappingReconciliationPanel({
+  entries,
+  formGraph,
+  onUseServer,
+}: MappingReconciliationPanelProps) {
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+
+  const keyOf = (entry: MappingReconciliationEntry) =>
+    `${entry.targetFormId}::${entry.targetFieldId}`;
+
+  // Local-only mappings are unsaved work rather than a disagreement
+  const visible = entries.filter(
+    entry =>
+      (entry.status === 'serverOnly' || entry.status === 'conflict') &&
+      !dismissed.has(keyOf(entry))
+  );
+
+  if (visible.length === 0) {
+    return null;
+  }
+
+  const dismiss = (entry: MappingReconciliationEntry) => {
+    setDismissed(prev => new Set(prev).add(keyOf(entry)));
+  };
+
+  return (
+    <section
+      className="mb-6 bg-white rounded-lg shadow-sm border border-amber-300 p-4"
+      aria-label="Mapping differences"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Blueprint mappings differ</h2>
+          <p className="text-sm text-gray-600">
+            {visible.length} field{visible.length !== 1 ? 's' : ''} disagree with the
+            mappings stored on the server
+          </p>
+        </div>
+        <button
+          onClick={() => visible.forEach(dismiss)}
+          className="text-sm text-gray-600 hover:text-gray-900"
+        >
+          Dismiss all
+        </button>
+      </div>
+
+      <ul className="space-y-2">
+        {visible.map(entry => {
+          const form = formGraph[entry.targetFormId];
+          const field = form ? findField(form.fields, entry.targetFieldId) : undefined;
+
+          return (
+            <li
+              key={keyOf(entry)}
+              className="flex items-start justify-between gap-4 p-3 border border-gray-200 rounded-lg"
+            >
+              <div className="flex-1 text-sm">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="font-medium text-gray-900">
+                    {form?.name ?? entry.targetFormId}.{field?.label ?? entry.targetFieldId}
+                  </span>
+                  <span
+                    className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[entry.status]}`}
+                  >
+                    {STATUS_LABELS[entry.status]}
+                  </span>
+                </div>
+                <div className="text-gray-600">
+                  Server: <strong>{describeChain(entry.server)}</strong>
+                </div>
+                <div className="text-gray-600">
+                  Local: <strong>{describeChain(entry.local)}</strong>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {entry.server.length > 0 && (
+                  <button
+                    onClick={() => {
+                      onUseServer(entry);
+                      dismiss(entry);
+                    }}
+                    className="btn-avantos"
+                  >
+                    {entry.status === 'serverOnly' ? 'Import' : 'Use server'}
+                  </button>
+                )}
+                <button
+                  onClick={() => dismiss(entry)}
+                  className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                >
+                  Keep local
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { FormGraph, PrefillMapping } from '../types';
+import { MappingProblem } from '../services/mappingValidation';
+import { findField, flattenFields } from '../services/fieldTree';
+
+interface MappingRepairWizardProps {
+  /** Broken mappings found by validateMappings */
+  problems: MappingProblem[];
+  /** Form graph used to label targets and list the fields a mapping can move to */
+  formGraph: FormGraph;
+  /** Callback to pick a new source for the mapping */
+  onRepoint: (mapping: PrefillMapping) => void;
+  /** Callback to move the mapping onto another field of its target form */
+  onMove: (mapping: PrefillMapping, targetFieldId: string) => void;
+  /** Callback to record the conversion for the fields' current types (type mismatches) */
+  onRetype: (mapping: PrefillMapping) => void;
+  /** Callback to drop the mapping's condition (broken conditions) */
+  onRemoveCondition: (mapping: PrefillMapping) => void;
+  /** Callback to delete the mapping */
+  onDelete: (mapping: PrefillMapping) => void;
+}
+
+/**
+ * MappingRepairWizard walks through mappings the blueprint no longer supports,
+ * one at a time
+ * Each can be re-pointed at a new source, moved to another target field, or
+ * deleted; type mismatches can be retyped and broken conditions removed.
+ * Skipping leaves a mapping broken and moves on
+ */
+export function MappingRepairWizard({
+  problems,
+  formGraph,
+  onRepoint,
+  onMove,
+  onRetype,
+  onRemoveCondition,
+  onDelete,
+}: MappingRepairWizardProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [index, setIndex] = useState(0);
+  const [moveFieldId, setMoveFieldId] = useState('');
+
+  if (problems.length === 0) {
+    return null;
+  }
+
+  // Repairs shrink the list under the wizard, so stay within it
+  const current = Math.min(index, problems.length - 1);
+  const { mapping, type, message } = problems[current];
+  const targetForm = formGraph[mapping.targetFormId];
+  const targetField = targetForm ? findField(targetForm.fields, mapping.targetFieldId) : undefined;
+  const moveOptions = targetForm
+    ? flattenFields(targetForm.fields).filter(field => field.id !== mapping.targetFieldId)
+    : [];
+
+  const goTo = (next: number) => {
+    setIndex(next);
+    setMoveFieldId('');
+  };
+
+  return (
+    <section
+      className="mb-6 bg-white rounded-lg shadow-sm border border-red-300 p-4"
+      aria-label="Broken mappings"
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Broken mappings</h2>
+          <p className="text-sm text-gray-600">
+            {problems.length} broken mapping{problems.length !== 1 ? 's' : ''} no longer
+            match{problems.length === 1 ? 'es' : ''} the blueprint
+          </p>
+        </div>
+        <button
+          onClick={() => setIsOpen(open => !open)}
+          className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+        >
+          {isOpen ? 'Close' : 'Repair…'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 p-3 border border-gray-200 rounded-lg text-sm">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-medium text-gray-900">
+              {targetForm?.name ?? mapping.targetFormId}.{targetField?.label ?? mapping.targetFieldId}
+            </span>
+            <span className="text-gray-500">
+              {current + 1} of {problems.length}
+            </span>
+          </div>
+          <div className="text-gray-600">
+            Source: <strong>{mapping.sourcePath}</strong>
+          </div>
+          <p className="mt-1 text-red-700">{message}</p>
+
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            {targetField && (
+              <button onClick={() => onRepoint(mapping)} className="btn-avantos">
+                Re-point source…
+              </button>
+            )}
+            {type === 'typeMismatch' && (
+              <button
+                onClick={() => onRetype(mapping)}
+                className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+              >
+                Retype
+              </button>
+            )}
+            {type === 'brokenCondition' && (
+              <button
+                onClick={() => onRemoveCondition(mapping)}
+                className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+              >
+                Remove condition
+              </button>
+            )}
+            {moveOptions.length > 0 && (
+              <>
+                <label className="sr-only" htmlFor="mapping-repair-move">
+                  Move to field
+                </label>
+                <select
+                  id="mapping-repair-move"
+                  value={moveFieldId}
+                  onChange={e => setMoveFieldId(e.target.value)}
+                  className="px-2 py-1.5 text-sm border border-gray-300 rounded"
+                >
+                  <option value="">Move to field…</option>
+                  {moveOptions.map(field => (
+                    <option key={field.id} value={field.id}>
+                      {field.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => {
+                    onMove(mapping, moveFieldId);
+                    setMoveFieldId('');
+                  }}
+                  disabled={!moveFieldId}
+                  className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  Move
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => onDelete(mapping)}
+              className="px-3 py-1.5 text-sm text-red-700 border border-red-300 rounded hover:bg-red-50 transition-colors"
+            >
+              Delete
+            </button>
+            <button
+              onClick={() => goTo((current + 1) % problems.length)}
+              className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+            >
+              Skip
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
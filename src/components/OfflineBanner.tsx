@@ -0,0 +1,44 @@
+interface OfflineBannerProps {
+  /** Whether the API is unreachable */
+  isOffline: boolean;
+  /** When the blueprint shown was last loaded from the API (ISO timestamp) */
+  lastSyncedAt: string | null;
+  /** Number of forms with changes waiting to be saved */
+  pendingCount: number;
+  /** Callback to try the API again */
+  onRetry: () => void;
+}
+
+/**
+ * OfflineBanner tells the user the API can't be reached, how old the data on
+ * screen is, and how many changes will be saved once it is back
+ * Hidden while online with nothing waiting
+ */
+export function OfflineBanner({ isOffline, lastSyncedAt, pendingCount, onRetry }: OfflineBannerProps) {
+  if (!isOffline && pendingCount === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className="mb-6 flex items-center justify-between gap-4 rounded-lg border border-yellow-300 bg-yellow-50 px-4 py-3 text-sm text-yellow-800"
+      role="status"
+      aria-label="Offline status"
+    >
+      <div>
+        <p className="font-semibold">{isOffline ? 'Offline' : 'Reconnecting'}</p>
+        <p>
+          {isOffline && lastSyncedAt && (
+            <>Showing the blueprint as last synced at {new Date(lastSyncedAt).toLocaleString()}. </>
+          )}
+          {pendingCount > 0
+            ? `Changes to ${pendingCount} form${pendingCount !== 1 ? 's' : ''} will be saved when the API is reachable again.`
+            : 'Changes you make will be saved when the API is reachable again.'}
+        </p>
+      </div>
+      <button onClick={onRetry} className="btn-avantos shrink-0">
+        Retry now
+      </button>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { Form, PrefillMapping } from '../types';
 import { FieldMappingRow } from './FieldMappingRow';
+import { flattenFieldTree } from '../services/fieldTree';
+import { MappingProblem } from '../services/mappingValidation';
 
 interface PrefillConfigurationProps {
   /** The form being configured */
@@ -8,12 +10,22 @@ interface PrefillConfigurationProps {
   mappings: PrefillMapping[];
   /** Get mapping for a specific field */
   getMapping: (fieldId: string) => PrefillMapping | undefined;
+  /** Get the ordered fallback chain for a specific field */
+  getMappingChain?: (fieldId: string) => PrefillMapping[];
   /** Callback when opening modal to set a mapping */
   onOpenModal: (fieldId: string) => void;
   /** Callback when clearing a mapping */
   onClearMapping: (fieldId: string) => void;
+  /** Callback when opening modal to append a fallback source */
+  onAddFallback?: (fieldId: string) => void;
+  /** Callback when reordering a field's fallback chain */
+  onMoveMapping?: (fieldId: string, fromIndex: number, toIndex: number) => void;
+  /** Callback when removing one entry from a field's fallback chain */
+  onRemoveFromChain?: (fieldId: string, index: number) => void;
   /** Callback when clearing all mappings */
   onClearAllMappings: () => void;
+  /** Looks up why a mapping no longer fits the blueprint, if it doesn't */
+  getProblem?: (mapping: PrefillMapping) => MappingProblem | undefined;
 }
 
 /**
@@ -24,9 +36,14 @@ export function PrefillConfiguration({
   form,
   mappings,
   getMapping,
+  getMappingChain,
   onOpenModal,
   onClearMapping,
+  onAddFallback,
+  onMoveMapping,
+  onRemoveFromChain,
   onClearAllMappings,
+  getProblem,
 }: PrefillConfigurationProps) {
   if (!form) {
     return (
@@ -52,6 +69,11 @@ export function PrefillConfiguration({
     );
   }
 
+  // Fallback chains hold several mappings per field, so count distinct targets
+  const mappedFieldCount = new Set(mappings.map(m => m.targetFieldId)).size;
+  // Nested sub-properties and array items are mappable targets too
+  const fieldEntries = flattenFieldTree(form.fields);
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
@@ -87,19 +109,25 @@ export function PrefillConfiguration({
 
       <div className="space-y-2">
         <div className="flex items-center justify-between mb-2">
-          <h3 className="font-semibold text-gray-900">Fields ({form.fields.length})</h3>
+          <h3 className="font-semibold text-gray-900">Fields ({fieldEntries.length})</h3>
           <div className="text-sm text-gray-600">
-            {mappings.length} of {form.fields.length} mapped
+            {mappedFieldCount} of {fieldEntries.length} mapped
           </div>
         </div>
 
-        {form.fields.map(field => (
+        {fieldEntries.map(({ field, depth }) => (
           <FieldMappingRow
             key={field.id}
             field={field}
+            depth={depth}
             mapping={getMapping(field.id)}
+            chain={getMappingChain?.(field.id)}
             onOpenModal={onOpenModal}
             onClearMapping={onClearMapping}
+            onAddFallback={onAddFallback}
+            onMoveMapping={onMoveMapping}
+            onRemoveFromChain={onRemoveFromChain}
+            getProblem={getProblem}
           />
         ))}
       </div>
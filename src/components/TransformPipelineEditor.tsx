@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { TransformStep, TransformType } from '../types';
+import {
+  MAX_DECIMALS,
+  TRANSFORM_DEFINITIONS,
+  applyTransforms,
+  clampDecimals,
+  getTransformDefinition,
+} from '../services/transformPipeline';
+
+interface TransformPipelineEditorProps {
+  /** Current ordered list of transforms */
+  transforms: TransformStep[];
+  /** Callback when the list changes */
+  onChange: (transforms: TransformStep[]) => void;
+}
+
+/**
+ * TransformPipelineEditor lets the user build an ordered list of transforms
+ * Steps can be added, configured, reordered and removed, with a live preview
+ */
+export function TransformPipelineEditor({
+  transforms,
+  onChange,
+}: TransformPipelineEditorProps) {
+  const [newType, setNewType] = useState<TransformType>('trim');
+  const [sampleValue, setSampleValue] = useState('');
+
+  const addStep = () => {
+    onChange([...transforms, getTransformDefinition(newType).createDefault()]);
+  };
+
+  const updateStep = (index: number, step: TransformStep) => {
+    onChange(transforms.map((existing, i) => (i === index ? step : existing)));
+  };
+
+  const removeStep = (index: number) => {
+    onChange(transforms.filter((_, i) => i !== index));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= transforms.length) return;
+
+    const next = [...transforms];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded text-sm';
+
+  const renderOptions = (step: TransformStep, index: number) => {
+    switch (step.type) {
+      case 'concatenate':
+        return (
+          <>
+            <input
+              aria-label="Prefix"
+              placeholder="Prefix"
+              value={step.prefix}
+              onChange={e => updateStep(index, { ...step, prefix: e.target.value })}
+              className={`${inputClass} w-24`}
+            />
+            <input
+              aria-label="Suffix"
+              placeholder="Suffix"
+              value={step.suffix}
+              onChange={e => updateStep(index, { ...step, suffix: e.target.value })}
+              className={`${inputClass} w-24`}
+            />
+          </>
+        );
+      case 'substring':
+        return (
+          <>
+            <input
+              aria-label="Start"
+              type="number"
+              min={0}
+              value={step.start}
+              onChange={e => updateStep(index, { ...step, start: Number(e.target.value) })}
+              className={`${inputClass} w-16`}
+            />
+            <input
+              aria-label="End"
+              type="number"
+              min={0}
+              placeholder="end"
+              value={step.end ?? ''}
+              onChange={e =>
+                updateStep(index, {
+                  ...step,
+                  end: e.target.value === '' ? undefined : Number(e.target.value),
+                })
+              }
+              className={`${inputClass} w-16`}
+            />
+          </>
+        );
+      case 'split':
+        return (
+          <>
+            <input
+              aria-label="Delimiter"
+              value={step.delimiter}
+              onChange={e => updateStep(index, { ...step, delimiter: e.target.value })}
+              className={`${inputClass} w-16`}
+            />
+            <input
+              aria-label="Part index"
+              type="number"
+              min={0}
+              value={step.index}
+              onChange={e => updateStep(index, { ...step, index: Number(e.target.value) })}
+              className={`${inputClass} w-16`}
+            />
+          </>
+        );
+      case 'dateFormat':
+        return (
+          <input
+            aria-label="Date format"
+            value={step.format}
+            onChange={e => updateStep(index, { ...step, format: e.target.value })}
+            className={`${inputClass} w-32`}
+          />
+        );
+      case 'numberFormat':
+        return (
+          <>
+            <input
+              aria-label="Decimals"
+              type="number"
+              min={0}
+              max={MAX_DECIMALS}
+              value={step.decimals}
+              onChange={e =>
+                updateStep(index, { ...step, decimals: clampDecimals(Number(e.target.value)) })
+              }
+              className={`${inputClass} w-16`}
+            />
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={step.useGrouping}
+                onChange={e => updateStep(index, { ...step, useGrouping: e.target.checked })}
+              />
+              1,000s
+            </label>
+          </>
+        );
+      case 'defaultIfEmpty':
+        return (
+          <input
+            aria-label="Default value"
+            placeholder="Default value"
+            value={step.value}
+            onChange={e => updateStep(index, { ...step, value: e.target.value })}
+            className={`${inputClass} w-32`}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {transforms.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No transforms. The source value will be copied as-is.
+        </p>
+      ) : (
+        <ol className="space-y-2">
+          {transforms.map((step, index) => (
+            <li
+              key={index}
+              className="flex items-center gap-2 p-2 bg-white border border-gray-200 rounded"
+            >
+              <span className="text-xs text-gray-400 w-4">{index + 1}.</span>
+              <span className="text-sm font-medium text-gray-900 w-32">
+                {getTransformDefinition(step.type).label}
+              </span>
+              <div className="flex-1 flex items-center gap-2">{renderOptions(step, index)}</div>
+              <button
+                onClick={() => moveStep(index, -1)}
+                disabled={index === 0}
+                className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                aria-label={`Move step ${index + 1} up`}
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => moveStep(index, 1)}
+                disabled={index === transforms.length - 1}
+                className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                aria-label={`Move step ${index + 1} down`}
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => removeStep(index)}
+                className="px-1 text-red-600 hover:bg-red-50 rounded"
+                aria-label={`Remove step ${index + 1}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex items-center gap-2">
+        <select
+          aria-label="Transform type"
+          value={newType}
+          onChange={e => setNewType(e.target.value as TransformType)}
+          className={inputClass}
+        >
+          {TRANSFORM_DEFINITIONS.map(def => (
+            <option key={def.type} value={def.type} title={def.description}>
+              {def.label}
+            </option>
+          ))}
+        </select>
+        <button onClick={addStep} className="btn-avantos">
+          Add Transform
+        </button>
+      </div>
+
+      {/* Live preview against a sample value */}
+      <div className="flex items-center gap-2 text-sm">
+        <input
+          placeholder="Sample value"
+          value={sampleValue}
+          onChange={e => setSampleValue(e.target.value)}
+          className={`${inputClass} flex-1`}
+        />
+        <span className="text-gray-400">→</span>
+        <code className="flex-1 px-2 py-1 bg-gray-100 rounded font-mono text-gray-900">
+          {applyTransforms(sampleValue, transforms) || '∅'}
+        </code>
+      </div>
+    </div>
+  );
+}
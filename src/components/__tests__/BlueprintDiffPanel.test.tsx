@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { BlueprintDiffPanel } from '../BlueprintDiffPanel';
+import { BlueprintVersion } from '../../hooks/useBlueprintHistory';
+import { avantosBlueprint } from '../../mocks/fixtures';
+import { Form, FormGraph, PrefillMapping } from '../../types';
+
+describe('BlueprintDiffPanel', () => {
+  const email = { id: 'email', label: 'Email', type: 'email' as const };
+  const formA: Form = { id: 'form-a', name: 'Form A', fields: [email], dependencies: [] };
+  const formB: Form = { id: 'form-b', name: 'Form B', fields: [email], dependencies: ['form-a'] };
+  const current = [formA, formB];
+  const formGraph: FormGraph = { 'form-a': formA, 'form-b': formB };
+  const previous = [{ ...formA, fields: [email, { id: 'phone', label: 'Phone', type: 'text' as const }] }, formB];
+
+  const mapping: PrefillMapping = {
+    targetFormId: 'form-b',
+    targetFieldId: 'email',
+    sourceType: 'form',
+    sourceFormId: 'form-a',
+    sourceFieldId: 'phone',
+    sourcePath: 'Form A.Phone',
+  };
+
+  const versions: BlueprintVersion[] = [
+    { loadedAt: '2026-01-01T10:00:00Z', forms: previous },
+    { loadedAt: '2026-01-01T10:10:00Z', forms: current },
+  ];
+
+  const renderPanel = (shown = versions, onFetchLatest = vi.fn()) => {
+    render(
+      <BlueprintDiffPanel
+        versions={shown}
+        forms={current}
+        formGraph={formGraph}
+        mappings={[mapping]}
+        onFetchLatest={onFetchLatest}
+        isFetching={false}
+      />
+    );
+    fireEvent.click(screen.getByText('Compare…'));
+  };
+
+  it('should ask for another version when only one has been fetched', () => {
+    const onFetchLatest = vi.fn();
+    renderPanel(versions.slice(1), onFetchLatest);
+
+    expect(screen.getByText(/Fetch the blueprint again or upload/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Fetch latest'));
+    expect(onFetchLatest).toHaveBeenCalled();
+  });
+
+  it('should list changes since the previous fetch with the mappings they affect', () => {
+    renderPanel();
+
+    const changes = screen.getByRole('list', { name: 'Blueprint changes' });
+    expect(within(changes).getByText('Form A: field Phone was removed')).toBeInTheDocument();
+    expect(within(changes).getByRole('list', { name: 'Affected mappings' })).toHaveTextContent(
+      'Form B.Email ← Form A.Phone'
+    );
+    expect(screen.getByText(/1 change, 1 affected mapping/)).toBeInTheDocument();
+  });
+
+  it('should swap which version is treated as the newer one', () => {
+    renderPanel();
+
+    fireEvent.click(screen.getByText('Swap'));
+
+    expect(screen.getByText('Form A: field Phone was added')).toBeInTheDocument();
+  });
+
+  it('should compare against an uploaded blueprint file', async () => {
+    renderPanel(versions.slice(1));
+    const file = new File([JSON.stringify(avantosBlueprint)], 'onboard.json', { type: 'application/json' });
+
+    fireEvent.change(screen.getByLabelText('Upload blueprint JSON'), { target: { files: [file] } });
+
+    expect(await screen.findByRole('option', { name: 'Uploaded onboard.json' })).toBeInTheDocument();
+    expect(screen.getByText('Form A was removed')).toBeInTheDocument();
+  });
+
+  it('should explain why an uploaded file was rejected', async () => {
+    renderPanel();
+    const file = new File(['{ nope'], 'broken.json', { type: 'application/json' });
+
+    fireEvent.change(screen.getByLabelText('Upload blueprint JSON'), { target: { files: [file] } });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('The file is not valid JSON');
+  });
+});
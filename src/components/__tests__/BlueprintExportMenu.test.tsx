@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { BlueprintExportMenu } from '../BlueprintExportMenu';
+import { MockServerResponse } from '../../types';
+
+describe('BlueprintExportMenu', () => {
+  const blueprint: MockServerResponse = {
+    id: 'bp_1',
+    tenant_id: 't_1',
+    name: 'Blueprint',
+    description: '',
+    category: 'test',
+    nodes: [],
+    edges: [],
+    forms: [],
+    branches: [],
+    triggers: [],
+  };
+
+  const createObjectURL = vi.fn((_blob: Blob) => 'blob:export');
+  const click = vi.spyOn(HTMLAnchorElement.prototype, 'click');
+
+  beforeEach(() => {
+    createObjectURL.mockClear();
+    click.mockReset().mockImplementation(() => {});
+    URL.createObjectURL = createObjectURL;
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  it('disables export until the blueprint has loaded', () => {
+    render(<BlueprintExportMenu blueprint={null} mappings={[]} />);
+
+    expect(screen.getByText('Export Blueprint')).toBeDisabled();
+    expect(screen.getByText('Export Patch')).toBeDisabled();
+  });
+
+  it('downloads the patched blueprint', () => {
+    render(<BlueprintExportMenu blueprint={blueprint} mappings={[]} />);
+
+    fireEvent.click(screen.getByText('Export Blueprint'));
+
+    expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+    expect(click).toHaveBeenCalledTimes(1);
+  });
+
+  it('downloads the patch document', () => {
+    render(<BlueprintExportMenu blueprint={blueprint} mappings={[]} />);
+
+    fireEvent.click(screen.getByText('Export Patch'));
+
+    expect(click).toHaveBeenCalledTimes(1);
+  });
+});
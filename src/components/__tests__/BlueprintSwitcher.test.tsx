@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { BlueprintSwitcher } from '../BlueprintSwitcher';
+
+describe('BlueprintSwitcher', () => {
+  const lists: Record<string, unknown> = {
+    t_1: [
+      { id: 'bp_1', name: 'Onboarding' },
+      { id: 'bp_2', name: 'Offboarding' },
+    ],
+    t_2: [{ id: 'bp_3', name: 'Procurement' }],
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const tenant = url.match(/\/v1\/([^/]+)\//)![1];
+        return lists[tenant]
+          ? new Response(JSON.stringify(lists[tenant]))
+          : new Response('{}', { status: 404, statusText: 'Not Found' });
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('lists the tenant\'s blueprints and opens the chosen one', async () => {
+    const onSelect = vi.fn();
+    render(
+      <BlueprintSwitcher selection={{ tenantId: 't_1', blueprintId: 'bp_1' }} onSelect={onSelect} />
+    );
+
+    expect(await screen.findByRole('option', { name: 'Offboarding' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Blueprint')).toHaveValue('bp_1');
+
+    fireEvent.change(screen.getByLabelText('Blueprint'), { target: { value: 'bp_2' } });
+
+    expect(onSelect).toHaveBeenCalledWith({ tenantId: 't_1', blueprintId: 'bp_2' });
+  });
+
+  it('lists another tenant\'s blueprints after entering it', async () => {
+    const onSelect = vi.fn();
+    render(
+      <BlueprintSwitcher selection={{ tenantId: 't_1', blueprintId: 'bp_1' }} onSelect={onSelect} />
+    );
+
+    fireEvent.change(screen.getByLabelText('Tenant'), { target: { value: 't_2' } });
+    fireEvent.submit(screen.getByLabelText('Tenant'));
+
+    expect(await screen.findByRole('option', { name: 'Procurement' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Blueprint')).toHaveValue('');
+
+    fireEvent.change(screen.getByLabelText('Blueprint'), { target: { value: 'bp_3' } });
+
+    expect(onSelect).toHaveBeenCalledWith({ tenantId: 't_2', blueprintId: 'bp_3' });
+  });
+
+  it('reports when the listing fails', async () => {
+    render(
+      <BlueprintSwitcher selection={{ tenantId: 't_9', blueprintId: 'bp_1' }} onSelect={vi.fn()} />
+    );
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Could not list blueprints');
+    // The open blueprint stays selectable
+    expect(screen.getByLabelText('Blueprint')).toHaveValue('bp_1');
+  });
+});
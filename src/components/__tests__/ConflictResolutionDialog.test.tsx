@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { ConflictResolutionDialog } from '../ConflictResolutionDialog';
+import { MappingConflict } from '../../types';
+
+describe('ConflictResolutionDialog', () => {
+  const conflict: MappingConflict = {
+    nodeId: 'form-d',
+    local: [
+      {
+        targetFormId: 'form-d',
+        targetFieldId: 'email',
+        sourceType: 'form',
+        sourceFormId: 'form-a',
+        sourceFieldId: 'email',
+        sourcePath: 'Form A.Email',
+      },
+    ],
+    server: [],
+    serverVersion: '2',
+  };
+
+  it('renders nothing without a conflict', () => {
+    const { container } = render(
+      <ConflictResolutionDialog conflict={null} formName="" onResolve={vi.fn()} />
+    );
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('shows both versions', () => {
+    render(<ConflictResolutionDialog conflict={conflict} formName="Form D" onResolve={vi.fn()} />);
+
+    expect(screen.getByText('Form D')).toBeInTheDocument();
+    expect(within(screen.getByLabelText('Your version')).getByText(/Form A\.Email/)).toBeInTheDocument();
+    expect(within(screen.getByLabelText('Their version')).getByText('No mappings')).toBeInTheDocument();
+  });
+
+  it('resolves with the chosen side', () => {
+    const onResolve = vi.fn();
+    render(<ConflictResolutionDialog conflict={conflict} formName="Form D" onResolve={onResolve} />);
+
+    fireEvent.click(screen.getByText('Keep Mine'));
+    expect(onResolve).toHaveBeenCalledWith('form-d', 'local');
+
+    fireEvent.click(screen.getByText('Use Theirs'));
+    expect(onResolve).toHaveBeenCalledWith('form-d', 'server');
+  });
+});
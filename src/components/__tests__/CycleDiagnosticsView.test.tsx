@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { CycleDiagnosticsView } from '../CycleDiagnosticsView';
+import { FormGraph } from '../../types';
+
+describe('CycleDiagnosticsView', () => {
+  const formGraph: FormGraph = {
+    'form-a': { id: 'form-a', name: 'Form A', fields: [], dependencies: ['form-b'] },
+    'form-b': { id: 'form-b', name: 'Form B', fields: [], dependencies: ['form-a'] },
+    'form-c': { id: 'form-c', name: 'Form C', fields: [], dependencies: ['form-c'] },
+  };
+
+  it('names the forms of each cycle in dependency order', () => {
+    render(
+      <CycleDiagnosticsView
+        cycles={[['form-a', 'form-b'], ['form-c']]}
+        formGraph={formGraph}
+        onRetry={vi.fn()}
+      />
+    );
+
+    const items = within(screen.getByRole('alert')).getAllByRole('listitem');
+    expect(items.map(item => item.textContent)).toEqual([
+      'Form A → Form B → Form A',
+      'Form C → Form C',
+    ]);
+    expect(screen.getByText(/2 cycles/)).toBeInTheDocument();
+  });
+
+  it('reloads on request', () => {
+    const onRetry = vi.fn();
+    render(<CycleDiagnosticsView cycles={[['form-c']]} formGraph={formGraph} onRetry={onRetry} />);
+
+    fireEvent.click(screen.getByText('Reload'));
+
+    expect(onRetry).toHaveBeenCalled();
+  });
+});
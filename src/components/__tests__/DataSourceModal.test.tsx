@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { DataSourceModal } from '../DataSourceModal';
-import { DataSource, FormField, PrefillMapping } from '../../types';
+import { DataSource, DependencyRoute, FormField, FormGraph, PrefillMapping } from '../../types';
 
 describe('DataSourceModal', () => {
   let mockOnSelectField: ReturnType<typeof vi.fn>;
@@ -139,12 +139,87 @@ describe('DataSourceModal', () => {
     expect(screen.getByText('Forms that upstream forms depend on')).toBeInTheDocument();
   });
 
+  describe('dependency routes', () => {
+    const formSource = (id: string, name: string): DataSource => ({
+      id,
+      name,
+      type: 'form',
+      getFields: () => [{ id: 'field1', label: `${name} Field`, type: 'text', path: `${name}.Field` }],
+    });
+    const formGraph: FormGraph = Object.fromEntries(
+      [['form-d', 'Form D'], ['form-b', 'Form B'], ['form-c', 'Form C'], ['form-a', 'Form A'], ['form-z', 'Form Z']].map(
+        ([id, name]) => [id, { id, name, fields: [], dependencies: [] }]
+      )
+    );
+    const dependencyRoutes = new Map<string, DependencyRoute>([
+      ['form-a', { distance: 2, paths: [['form-d', 'form-b', 'form-a'], ['form-d', 'form-c', 'form-a']] }],
+      ['form-z', { distance: 3, paths: [['form-d', 'form-b', 'form-a', 'form-z']] }],
+    ]);
+    const getRouteProps = () => ({
+      ...getDefaultProps(),
+      transitiveDependencies: [formSource('form-a', 'Form A'), formSource('form-z', 'Form Z')],
+      dependencyRoutes,
+      formGraph,
+    });
+
+    it('annotates transitive sources with their hop distance and chains', () => {
+      render(<DataSourceModal {...getRouteProps()} />);
+
+      const route = screen.getByLabelText('Route to Form A');
+      expect(route).toHaveTextContent('2 hops');
+      expect(route).toHaveTextContent('via Form D ← Form B ← Form A');
+      expect(route).toHaveTextContent('via Form D ← Form C ← Form A');
+      expect(screen.getByLabelText('Route to Form Z')).toHaveTextContent('3 hops');
+    });
+
+    it('groups transitive sources by distance on request', () => {
+      render(<DataSourceModal {...getRouteProps()} />);
+      expect(screen.queryByText('2 hops away')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Group by distance'));
+
+      const headings = screen.getAllByRole('heading', { level: 4 }).map(h => h.textContent);
+      expect(headings).toEqual(['2 hops away', '3 hops away']);
+    });
+
+    it('leaves sources unannotated without routes', () => {
+      render(<DataSourceModal {...getDefaultProps()} transitiveDependencies={[formSource('form-a', 'Form A')]} />);
+
+      expect(screen.queryByLabelText('Route to Form A')).not.toBeInTheDocument();
+      expect(screen.queryByLabelText('Group by distance')).not.toBeInTheDocument();
+    });
+  });
+
   it('renders Global Sources section when globalSources exist', () => {
     render(<DataSourceModal {...getDefaultProps()} />);
     expect(screen.getByText('Global System Dependencies')).toBeInTheDocument();
     expect(screen.getByText('System-wide properties and data')).toBeInTheDocument();
   });
 
+  it('lists plugin sources in their own section and maps them by plugin ID', () => {
+    const crm: DataSource = {
+      id: 'crm',
+      name: 'CRM',
+      type: 'custom',
+      getFields: () => [{ id: 'owner_email', label: 'Owner Email', type: 'email', path: 'CRM.Owner Email' }],
+    };
+
+    render(<DataSourceModal {...getDefaultProps()} customSources={[crm]} />);
+
+    expect(screen.getByText('Custom Sources')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Owner Email'));
+    fireEvent.click(screen.getByText('Save Mapping'));
+
+    expect(mockOnSelectField).toHaveBeenCalledWith({
+      targetFormId: '',
+      targetFieldId: 'email',
+      sourceType: 'custom',
+      sourceId: 'crm',
+      sourceFieldId: 'owner_email',
+      sourcePath: 'CRM.Owner Email',
+    });
+  });
+
   it('shows "No data sources available" when no sources exist', () => {
     const props = getDefaultProps();
     props.directDependencies = [];
@@ -161,6 +236,7 @@ describe('DataSourceModal', () => {
     // Click the email field from Form A (matches target field type)
     const emailField = screen.getByText('Email');
     fireEvent.click(emailField);
+    fireEvent.click(screen.getByText('Save Mapping'));
 
     expect(mockOnSelectField).toHaveBeenCalledWith({
       targetFormId: '',
@@ -218,6 +294,7 @@ describe('DataSourceModal', () => {
     // Confirm the type mismatch
     const continueButton = screen.getByText('Continue Anyway');
     fireEvent.click(continueButton);
+    fireEvent.click(screen.getByText('Save Mapping'));
 
     await waitFor(() => {
       expect(mockOnSelectField).toHaveBeenCalledWith({
@@ -227,6 +304,7 @@ describe('DataSourceModal', () => {
         sourceFormId: 'form-a',
         sourceFieldId: 'name',
         sourcePath: 'Form A.Name',
+        fieldTypes: { source: 'text', target: 'email' },
       });
     });
 
@@ -302,6 +380,7 @@ describe('DataSourceModal', () => {
     expect(statusButton).toBeDefined();
     if (statusButton) {
       fireEvent.click(statusButton);
+      fireEvent.click(screen.getByText('Save Mapping'));
 
       expect(mockOnSelectField).toHaveBeenCalledWith({
         targetFormId: '',
@@ -347,6 +426,175 @@ describe('DataSourceModal', () => {
     expect(mockOnClose).not.toHaveBeenCalled();
   });
 
+  it('shows the transform step after selecting a field', () => {
+    render(<DataSourceModal {...getDefaultProps()} />);
+
+    fireEvent.click(screen.getByText('Email'));
+
+    expect(screen.getByText('Selected Source')).toBeInTheDocument();
+    expect(screen.getByText('Form A.Email')).toBeInTheDocument();
+    expect(screen.queryByPlaceholderText('Search fields...')).not.toBeInTheDocument();
+    expect(mockOnSelectField).not.toHaveBeenCalled();
+  });
+
+  it('returns to source selection when Back is clicked', () => {
+    render(<DataSourceModal {...getDefaultProps()} />);
+
+    fireEvent.click(screen.getByText('Email'));
+    fireEvent.click(screen.getByText('Back'));
+
+    expect(screen.getByPlaceholderText('Search fields...')).toBeInTheDocument();
+    expect(screen.queryByText('Selected Source')).not.toBeInTheDocument();
+  });
+
+  it('includes configured transforms in the mapping', () => {
+    render(<DataSourceModal {...getDefaultProps()} />);
+
+    fireEvent.click(screen.getByText('Email'));
+    fireEvent.change(screen.getByLabelText('Transform type'), { target: { value: 'lowercase' } });
+    fireEvent.click(screen.getByText('Add Transform'));
+    fireEvent.click(screen.getByText('Save Mapping'));
+
+    expect(mockOnSelectField).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sourceFieldId: 'email',
+        transforms: [{ type: 'lowercase' }],
+      })
+    );
+  });
+
+  it('includes a condition built from visible fields in the mapping', () => {
+    render(<DataSourceModal {...getDefaultProps()} />);
+
+    fireEvent.click(screen.getByText('Email'));
+    fireEvent.click(screen.getByLabelText('Only apply this mapping when…'));
+    fireEvent.change(screen.getByLabelText('Condition field'), {
+      target: { value: 'action-properties::status' },
+    });
+    fireEvent.change(screen.getByLabelText('Condition value'), { target: { value: 'open' } });
+    fireEvent.click(screen.getByText('Save Mapping'));
+
+    expect(mockOnSelectField).toHaveBeenCalledWith(
+      expect.objectContaining({
+        condition: {
+          sourceType: 'global',
+          sourceFormId: undefined,
+          sourceFieldId: 'status',
+          sourcePath: 'Action.Status',
+          operator: 'equals',
+          value: 'open',
+        },
+      })
+    );
+  });
+
+  it('creates a constant mapping from a valid static value', () => {
+    const targetField: FormField = { id: 'priority', label: 'Priority', type: 'text' };
+    render(<DataSourceModal {...getDefaultProps()} targetField={targetField} />);
+
+    fireEvent.change(screen.getByLabelText('Static value'), { target: { value: 'normal' } });
+    fireEvent.click(screen.getByText('Use Static Value'));
+    fireEvent.click(screen.getByText('Save Mapping'));
+
+    expect(mockOnSelectField).toHaveBeenCalledWith({
+      targetFormId: '',
+      targetFieldId: 'priority',
+      sourceType: 'constant',
+      sourceFieldId: '',
+      sourcePath: 'Constant = "normal"',
+      constantValue: 'normal',
+    });
+  });
+
+  it('rejects a static value that does not match the target type', () => {
+    render(<DataSourceModal {...getDefaultProps()} />);
+
+    fireEvent.change(screen.getByLabelText('Static value'), { target: { value: 'nope' } });
+    fireEvent.click(screen.getByText('Use Static Value'));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Enter a valid email address');
+    expect(screen.queryByText('Save Mapping')).not.toBeInTheDocument();
+  });
+
+  it('proceeds without a warning for safe conversions', () => {
+    const targetField: FormField = { id: 'notes', label: 'Notes', type: 'text' };
+    render(<DataSourceModal {...getDefaultProps()} targetField={targetField} />);
+
+    // email → text is a safe conversion
+    fireEvent.click(screen.getByText('Email'));
+
+    expect(screen.queryByText('Type Mismatch Warning')).not.toBeInTheDocument();
+    expect(screen.getByText('Selected Source')).toBeInTheDocument();
+  });
+
+  it('lets button sources prefill text fields by default', async () => {
+    const targetField: FormField = { id: 'notes', label: 'Notes', type: 'text' };
+    const buttonSource: DataSource = {
+      id: 'form-c',
+      name: 'Form C',
+      type: 'form',
+      getFields: () => [{ id: 'submit', label: 'Submit', type: 'button', path: 'Form C.Submit' }],
+    };
+    render(
+      <DataSourceModal
+        {...getDefaultProps()}
+        targetField={targetField}
+        directDependencies={[buttonSource]}
+      />
+    );
+
+    const submit = screen.getByText('Submit').closest('button')!;
+    expect(submit).not.toBeDisabled();
+    fireEvent.click(submit);
+    fireEvent.click(screen.getByText('Save Mapping'));
+
+    await waitFor(() => {
+      expect(mockOnSelectField).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sourceFieldId: 'submit',
+          fieldTypes: { source: 'button', target: 'text' },
+        })
+      );
+    });
+  });
+
+  it('labels lossy conversions in the confirmation dialog', () => {
+    render(<DataSourceModal {...getDefaultProps()} />);
+
+    fireEvent.click(screen.getByText('Name'));
+
+    expect(screen.getByText('Lossy conversion')).toBeInTheDocument();
+  });
+
+  it('blocks incompatible sources by default', () => {
+    const targetField: FormField = { id: 'agree', label: 'Agree', type: 'checkbox' };
+    render(<DataSourceModal {...getDefaultProps()} targetField={targetField} />);
+
+    // date → checkbox is incompatible
+    const createdAt = screen.getByText('Created At').closest('button')!;
+    expect(createdAt).toBeDisabled();
+    fireEvent.click(createdAt);
+
+    expect(screen.queryByText('Type Mismatch Warning')).not.toBeInTheDocument();
+    expect(screen.queryByText('Selected Source')).not.toBeInTheDocument();
+  });
+
+  it('warns about incompatible sources when the policy allows them', () => {
+    const targetField: FormField = { id: 'agree', label: 'Agree', type: 'checkbox' };
+    render(
+      <DataSourceModal
+        {...getDefaultProps()}
+        targetField={targetField}
+        incompatiblePolicy="warn"
+      />
+    );
+
+    fireEvent.click(screen.getByText('Created At'));
+
+    expect(screen.getByText('Type Mismatch Warning')).toBeInTheDocument();
+    expect(screen.getByText('Incompatible types')).toBeInTheDocument();
+  });
+
   it('applies modal-enhanced CSS class', () => {
     const { container } = render(<DataSourceModal {...getDefaultProps()} />);
     const modal = container.querySelector('.modal-enhanced');
@@ -279,4 +279,164 @@ describe('DataSourceTree', () => {
     expect(screen.getByText('Form A')).toBeInTheDocument();
     expect(screen.getByText('Action Properties')).toBeInTheDocument();
   });
+
+  describe('nested fields', () => {
+    const nestedSource: DataSource = {
+      id: 'form-n',
+      name: 'Form N',
+      type: 'form',
+      getFields: () => [
+        {
+          id: 'address',
+          label: 'Address',
+          type: 'object',
+          path: 'Form N.Address',
+          children: [
+            { id: 'address.city', label: 'City', type: 'text', path: 'Form N.Address.City' },
+          ],
+        },
+      ],
+    };
+
+    it('keeps nested fields collapsed until the parent is expanded', () => {
+      render(<DataSourceTree dataSources={[nestedSource]} onSelectField={vi.fn()} />);
+
+      expect(screen.getByText('Address')).toBeInTheDocument();
+      expect(screen.queryByText('City')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Expand Address'));
+      expect(screen.getByText('City')).toBeInTheDocument();
+    });
+
+    it('selects nested fields individually', () => {
+      const onSelectField = vi.fn();
+      render(<DataSourceTree dataSources={[nestedSource]} onSelectField={onSelectField} />);
+
+      fireEvent.click(screen.getByLabelText('Expand Address'));
+      fireEvent.click(screen.getByText('City'));
+
+      expect(onSelectField).toHaveBeenCalledWith(
+        nestedSource,
+        expect.objectContaining({ id: 'address.city', path: 'Form N.Address.City' })
+      );
+    });
+
+    it('reveals matching nested fields while filtering', () => {
+      render(
+        <DataSourceTree dataSources={[nestedSource]} onSelectField={vi.fn()} filterText="city" />
+      );
+
+      expect(screen.getByText('Address')).toBeInTheDocument();
+      expect(screen.getByText('City')).toBeInTheDocument();
+    });
+  });
+
+  describe('asynchronous sources', () => {
+    const crmFields = [
+      { id: 'industry', label: 'Industry', type: 'text', path: 'CRM.Industry' },
+      { id: 'revenue', label: 'Revenue', type: 'number', path: 'CRM.Revenue' },
+    ];
+
+    const createAsyncSource = (loadFields: DataSource['loadFields']): DataSource => ({
+      id: 'crm',
+      name: 'CRM',
+      type: 'custom',
+      getFields: () => [],
+      loadFields,
+    });
+
+    it('starts collapsed and loads fields on first expansion', async () => {
+      const loadFields = vi.fn().mockResolvedValue(crmFields);
+      render(
+        <DataSourceTree
+          {...getDefaultProps()}
+          dataSources={[mockDataSources[0], createAsyncSource(loadFields)]}
+        />
+      );
+
+      // Synchronous sources stay expanded, as before
+      expect(screen.getByText('Email')).toBeInTheDocument();
+      expect(loadFields).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByRole('button', { name: /CRM/ }));
+
+      expect(screen.getByRole('status', { name: 'Loading CRM' })).toBeInTheDocument();
+      expect(screen.getByText('Loading fields…')).toBeInTheDocument();
+      expect(await screen.findByText('Industry')).toBeInTheDocument();
+      expect(screen.getByText('(2 fields)')).toBeInTheDocument();
+      expect(screen.queryByRole('status')).not.toBeInTheDocument();
+      expect(loadFields).toHaveBeenCalledTimes(1);
+      expect(loadFields.mock.calls[0][0]).toBeInstanceOf(AbortSignal);
+    });
+
+    it('selects loaded fields like any other', async () => {
+      const source = createAsyncSource(vi.fn().mockResolvedValue(crmFields));
+      render(<DataSourceTree {...getDefaultProps()} dataSources={[source]} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /CRM/ }));
+      fireEvent.click(await screen.findByText('Revenue'));
+
+      expect(mockOnSelectField).toHaveBeenCalledWith(source, crmFields[1]);
+    });
+
+    it('does not load again when re-expanded', async () => {
+      const loadFields = vi.fn().mockResolvedValue(crmFields);
+      render(<DataSourceTree {...getDefaultProps()} dataSources={[createAsyncSource(loadFields)]} />);
+
+      const header = screen.getByRole('button', { name: /CRM/ });
+      fireEvent.click(header);
+      await screen.findByText('Industry');
+      fireEvent.click(header);
+      fireEvent.click(header);
+
+      expect(screen.getByText('Industry')).toBeInTheDocument();
+      expect(loadFields).toHaveBeenCalledTimes(1);
+    });
+
+    it('shows the error and retries on request', async () => {
+      const loadFields = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Service unavailable'))
+        .mockResolvedValueOnce(crmFields);
+      render(<DataSourceTree {...getDefaultProps()} dataSources={[createAsyncSource(loadFields)]} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /CRM/ }));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent(
+        'Could not load fields: Service unavailable'
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+      expect(await screen.findByText('Industry')).toBeInTheDocument();
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+      expect(loadFields).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps unloaded sources visible while filtering', () => {
+      render(
+        <DataSourceTree
+          {...getDefaultProps()}
+          dataSources={[...mockDataSources, createAsyncSource(vi.fn().mockResolvedValue(crmFields))]}
+          filterText="email"
+        />
+      );
+
+      expect(screen.getByText('CRM')).toBeInTheDocument();
+      expect(screen.queryByText('Form B')).not.toBeInTheDocument();
+    });
+
+    it('aborts pending loads when unmounted', () => {
+      const loadFields = vi.fn((_signal?: AbortSignal) => new Promise<never>(() => {}));
+      const { unmount } = render(
+        <DataSourceTree {...getDefaultProps()} dataSources={[createAsyncSource(loadFields)]} />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: /CRM/ }));
+      const signal = loadFields.mock.calls[0][0]!;
+      unmount();
+
+      expect(signal.aborted).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DependencyDiagnosticsPanel } from '../DependencyDiagnosticsPanel';
+import { DependencyIssue } from '../../types';
+
+describe('DependencyDiagnosticsPanel', () => {
+  const issues: DependencyIssue[] = [
+    {
+      type: 'edgeWithoutPrerequisite',
+      origin: 'edge',
+      nodeId: 'form-c',
+      dependencyId: 'form-a',
+      message: 'Edge Form A → Form C has no matching prerequisite on Form C',
+    },
+    {
+      type: 'missingNode',
+      origin: 'prerequisite',
+      nodeId: 'form-b',
+      dependencyId: 'ghost',
+      message: 'Form B has prerequisite ghost, which is not in the blueprint',
+    },
+  ];
+
+  it('renders nothing without issues', () => {
+    const { container } = render(<DependencyDiagnosticsPanel issues={[]} />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('shows a collapsed summary', () => {
+    render(<DependencyDiagnosticsPanel issues={issues} />);
+
+    expect(screen.getByText(/2 issues found/)).toBeInTheDocument();
+    expect(screen.queryByText(issues[0].message)).not.toBeInTheDocument();
+  });
+
+  it('lists issues grouped by type when expanded', () => {
+    render(<DependencyDiagnosticsPanel issues={issues} />);
+
+    fireEvent.click(screen.getByText('Show details'));
+
+    expect(screen.getByText('Edges without a matching prerequisite (1)')).toBeInTheDocument();
+    expect(screen.getByText('References to missing nodes (1)')).toBeInTheDocument();
+    expect(screen.getByText(issues[0].message)).toBeInTheDocument();
+    expect(screen.getByText(issues[1].message)).toBeInTheDocument();
+  });
+});
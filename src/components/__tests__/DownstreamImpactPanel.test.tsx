@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { DownstreamImpactPanel } from '../DownstreamImpactPanel';
+import { FormGraph, PrefillMapping } from '../../types';
+
+describe('DownstreamImpactPanel', () => {
+  const formGraph: FormGraph = {
+    'form-a': {
+      id: 'form-a',
+      name: 'Form A',
+      fields: [{ id: 'email', label: 'Email', type: 'email' }],
+      dependencies: [],
+    },
+    'form-b': {
+      id: 'form-b',
+      name: 'Form B',
+      fields: [{ id: 'contact', label: 'Contact', type: 'email' }],
+      dependencies: ['form-a'],
+    },
+    'form-d': {
+      id: 'form-d',
+      name: 'Form D',
+      fields: [{ id: 'notes', label: 'Notes', type: 'text' }],
+      dependencies: ['form-b'],
+    },
+  };
+
+  const mappings: PrefillMapping[] = [
+    {
+      targetFormId: 'form-b',
+      targetFieldId: 'contact',
+      sourceType: 'form',
+      sourceFormId: 'form-a',
+      sourceFieldId: 'email',
+      sourcePath: 'Form A.Email',
+    },
+    {
+      targetFormId: 'form-d',
+      targetFieldId: 'notes',
+      sourceType: 'constant',
+      sourceFieldId: '',
+      sourcePath: 'Constant',
+      constantValue: 'n/a',
+      condition: {
+        sourceType: 'form',
+        sourceFormId: 'form-a',
+        sourceFieldId: 'email',
+        sourcePath: 'Form A.Email',
+        operator: 'isEmpty',
+      },
+    },
+  ];
+
+  it('lists dependent forms and the fields reading the selected form', () => {
+    render(<DownstreamImpactPanel form={formGraph['form-a']} formGraph={formGraph} mappings={mappings} />);
+
+    expect(screen.getByText('Form B')).toBeInTheDocument();
+    expect(screen.getByText('Form D')).toBeInTheDocument();
+
+    const consumers = within(screen.getByRole('list', { name: 'Field consumers' }));
+    expect(consumers.getByText('Email')).toBeInTheDocument();
+    expect(consumers.getByText('Form B.Contact')).toBeInTheDocument();
+    expect(consumers.getByText('Form D.Notes')).toHaveTextContent('(condition)');
+  });
+
+  it('says when nothing is downstream', () => {
+    render(<DownstreamImpactPanel form={formGraph['form-d']} formGraph={formGraph} mappings={mappings} />);
+
+    expect(screen.getByText('No forms depend on Form D.')).toBeInTheDocument();
+    expect(screen.getByText('No mappings read from this form.')).toBeInTheDocument();
+  });
+});
@@ -139,4 +139,134 @@ describe('FieldMappingRow', () => {
     const clearButton = screen.queryByTitle('Clear mapping');
     expect(clearButton).not.toBeInTheDocument();
   });
+
+  it('should display the transform pipeline of a mapping', () => {
+    render(
+      <FieldMappingRow
+        field={mockField}
+        mapping={{
+          ...mockMapping,
+          transforms: [{ type: 'trim' }, { type: 'split', delimiter: ' ', index: 0 }],
+        }}
+        onOpenModal={vi.fn()}
+        onClearMapping={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('→ Trim')).toBeInTheDocument();
+    expect(screen.getByText('→ Split on " " [0]')).toBeInTheDocument();
+  });
+
+  it('should display the full fallback chain with reorder controls', () => {
+    const onMoveMapping = vi.fn();
+    const onRemoveFromChain = vi.fn();
+    const fallback: PrefillMapping = {
+      ...mockMapping,
+      sourceFormId: 'form-b',
+      sourcePath: 'Form B.Email',
+    };
+
+    render(
+      <FieldMappingRow
+        field={mockField}
+        mapping={fallback}
+        chain={[fallback, mockMapping]}
+        onOpenModal={vi.fn()}
+        onClearMapping={vi.fn()}
+        onMoveMapping={onMoveMapping}
+        onRemoveFromChain={onRemoveFromChain}
+      />
+    );
+
+    expect(screen.getByText('Form B.Email')).toBeInTheDocument();
+    expect(screen.getByText('Form A.Email Address')).toBeInTheDocument();
+    expect(screen.getByLabelText('Move Form B.Email up')).toBeDisabled();
+
+    fireEvent.click(screen.getByLabelText('Move Form A.Email Address up'));
+    expect(onMoveMapping).toHaveBeenCalledWith('email', 1, 0);
+
+    fireEvent.click(screen.getByLabelText('Remove Form B.Email'));
+    expect(onRemoveFromChain).toHaveBeenCalledWith('email', 0);
+  });
+
+  it('should offer to add a fallback when a mapping exists', () => {
+    const onAddFallback = vi.fn();
+
+    render(
+      <FieldMappingRow
+        field={mockField}
+        mapping={mockMapping}
+        onOpenModal={vi.fn()}
+        onClearMapping={vi.fn()}
+        onAddFallback={onAddFallback}
+      />
+    );
+
+    fireEvent.click(screen.getByTitle('Add fallback source'));
+    expect(onAddFallback).toHaveBeenCalledWith('email');
+  });
+
+  it('should display a badge for conditional mappings', () => {
+    render(
+      <FieldMappingRow
+        field={mockField}
+        mapping={{
+          ...mockMapping,
+          condition: {
+            sourceType: 'global',
+            sourceFieldId: 'plan_type',
+            sourcePath: 'clientOrg.Plan Type',
+            operator: 'equals',
+            value: 'enterprise',
+          },
+        }}
+        onOpenModal={vi.fn()}
+        onClearMapping={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('when clientOrg.Plan Type equals "enterprise"')).toBeInTheDocument();
+  });
+
+  it('should mark a mapping the blueprint no longer supports', () => {
+    const problem = {
+      mapping: mockMapping,
+      type: 'missingSourceForm' as const,
+      message: 'Source form form-a no longer exists',
+    };
+
+    render(
+      <FieldMappingRow
+        field={mockField}
+        mapping={mockMapping}
+        onOpenModal={vi.fn()}
+        onClearMapping={vi.fn()}
+        getProblem={m => (m === mockMapping ? problem : undefined)}
+      />
+    );
+
+    expect(screen.getByText('broken')).toHaveAttribute('title', problem.message);
+    expect(screen.getByRole('alert')).toHaveTextContent(problem.message);
+  });
+
+  it('should mark only the broken entry of a fallback chain', () => {
+    const fallback: PrefillMapping = { ...mockMapping, sourceFormId: 'form-b', sourcePath: 'Form B.Email' };
+
+    render(
+      <FieldMappingRow
+        field={mockField}
+        mapping={mockMapping}
+        chain={[mockMapping, fallback]}
+        onOpenModal={vi.fn()}
+        onClearMapping={vi.fn()}
+        getProblem={m =>
+          m === fallback ? { mapping: m, type: 'notAncestor', message: 'Form D no longer depends on Form B' } : undefined
+        }
+      />
+    );
+
+    expect(screen.getAllByText('broken')).toHaveLength(1);
+    expect(screen.getByText('Form B.Email')).toHaveClass('line-through');
+    expect(screen.getByText('Form A.Email Address')).not.toHaveClass('line-through');
+  });
 });
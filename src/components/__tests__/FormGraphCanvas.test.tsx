@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FormGraphCanvas } from '../FormGraphCanvas';
+import { Form, FormGraph, PrefillMapping } from '../../types';
+
+describe('FormGraphCanvas', () => {
+  const fields = [{ id: 'email', label: 'Email', type: 'email' as const }];
+  const forms: Form[] = [
+    { id: 'form-a', name: 'Form A', fields, dependencies: [], position: { x: 0, y: 0 } },
+    { id: 'form-b', name: 'Form B', fields, dependencies: ['form-a'], position: { x: 300, y: 0 } },
+  ];
+  const formGraph: FormGraph = Object.fromEntries(forms.map(form => [form.id, form]));
+  const mappings: PrefillMapping[] = [
+    {
+      targetFormId: 'form-b',
+      targetFieldId: 'email',
+      sourceType: 'form',
+      sourceFormId: 'form-a',
+      sourceFieldId: 'email',
+      sourcePath: 'Form A.Email',
+    },
+  ];
+
+  const renderCanvas = (selectedFormId: string | null = null, onSelectForm = vi.fn()) =>
+    render(
+      <FormGraphCanvas
+        forms={forms}
+        formGraph={formGraph}
+        mappings={mappings}
+        selectedFormId={selectedFormId}
+        onSelectForm={onSelectForm}
+      />
+    );
+
+  it('draws every form with its dependency edges', () => {
+    renderCanvas();
+
+    expect(screen.getByRole('button', { name: 'Form A' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Form B' })).toBeInTheDocument();
+    expect(screen.getAllByTestId('dependency-edge')).toHaveLength(1);
+  });
+
+  it('selects a form on click or Enter', () => {
+    const onSelectForm = vi.fn();
+    renderCanvas('form-a', onSelectForm);
+
+    expect(screen.getByRole('button', { name: 'Form A' })).toHaveAttribute('aria-pressed', 'true');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Form B' }));
+    fireEvent.keyDown(screen.getByRole('button', { name: 'Form A' }), { key: 'Enter' });
+
+    expect(onSelectForm.mock.calls).toEqual([['form-b'], ['form-a']]);
+  });
+
+  it('toggles the mapping overlay', () => {
+    renderCanvas();
+    expect(screen.queryAllByTestId('mapping-edge')).toHaveLength(0);
+
+    fireEvent.click(screen.getByLabelText('Show mappings'));
+
+    expect(screen.getAllByTestId('mapping-edge')).toHaveLength(1);
+    expect(screen.getAllByText('Email')).toHaveLength(2);
+  });
+
+  it('zooms and pans the drawing', () => {
+    renderCanvas();
+    const svg = screen.getByRole('group', { name: 'Form graph' });
+    const drawing = () => svg.querySelector('g')!.getAttribute('transform');
+
+    fireEvent.click(screen.getByLabelText('Zoom in'));
+    const zoomed = drawing();
+    expect(zoomed).toContain('scale(1.2)');
+
+    fireEvent.pointerDown(svg, { clientX: 10, clientY: 10 });
+    fireEvent.pointerMove(svg, { clientX: 30, clientY: 50 });
+    fireEvent.pointerUp(svg);
+    expect(drawing()).not.toBe(zoomed);
+
+    fireEvent.click(screen.getByText('Fit'));
+    expect(drawing()).toBe('translate(0 0) scale(1)');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MappingReconciliationPanel } from '../MappingReconciliationPanel';
+import { FormGraph, MappingReconciliationEntry, PrefillMapping } from '../../types';
+
+describe('MappingReconciliationPanel', () => {
+  const formGraph: FormGraph = {
+    'form-b': {
+      id: 'form-b',
+      name: 'Form B',
+      fields: [
+        { id: 'email', label: 'Email', type: 'email' },
+        { id: 'name', label: 'Name', type: 'text' },
+      ],
+      dependencies: [],
+    },
+  };
+
+  const mapping = (fieldId: string, sourcePath: string): PrefillMapping => ({
+    targetFormId: 'form-b',
+    targetFieldId: fieldId,
+    sourceType: 'global',
+    sourceFieldId: sourcePath,
+    sourcePath,
+  });
+
+  const conflict: MappingReconciliationEntry = {
+    targetFormId: 'form-b',
+    targetFieldId: 'email',
+    status: 'conflict',
+    server: [mapping('email', 'Action.Assignee')],
+    local: [mapping('email', 'clientOrg.Contact Email')],
+  };
+
+  const localOnly: MappingReconciliationEntry = {
+    targetFormId: 'form-b',
+    targetFieldId: 'name',
+    status: 'localOnly',
+    server: [],
+    local: [mapping('name', 'clientOrg.Org Name')],
+  };
+
+  it('renders nothing when there are no disagreements', () => {
+    const { container } = render(
+      <MappingReconciliationPanel entries={[localOnly]} formGraph={formGraph} onUseServer={vi.fn()} />
+    );
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('shows both chains for a conflicting field', () => {
+    render(
+      <MappingReconciliationPanel entries={[conflict]} formGraph={formGraph} onUseServer={vi.fn()} />
+    );
+
+    expect(screen.getByText('Form B.Email')).toBeInTheDocument();
+    expect(screen.getByText('Action.Assignee')).toBeInTheDocument();
+    expect(screen.getByText('clientOrg.Contact Email')).toBeInTheDocument();
+  });
+
+  it('adopts the server chain and hides the row', () => {
+    const onUseServer = vi.fn();
+    render(
+      <MappingReconciliationPanel entries={[conflict]} formGraph={formGraph} onUseServer={onUseServer} />
+    );
+
+    fireEvent.click(screen.getByText('Use server'));
+
+    expect(onUseServer).toHaveBeenCalledWith(conflict);
+    expect(screen.queryByText('Form B.Email')).not.toBeInTheDocument();
+  });
+
+  it('keeps the local chain without calling back', () => {
+    const onUseServer = vi.fn();
+    render(
+      <MappingReconciliationPanel entries={[conflict]} formGraph={formGraph} onUseServer={onUseServer} />
+    );
+
+    fireEvent.click(screen.getByText('Keep local'));
+
+    expect(onUseServer).not.toHaveBeenCalled();
+    expect(screen.queryByText('Form B.Email')).not.toBeInTheDocument();
+  });
+});
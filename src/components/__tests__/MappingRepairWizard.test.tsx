@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MappingRepairWizard } from '../MappingRepairWizard';
+import { FormGraph, PrefillMapping } from '../../types';
+import { MappingProblem } from '../../services/mappingValidation';
+
+describe('MappingRepairWizard', () => {
+  const formGraph: FormGraph = {
+    'form-b': {
+      id: 'form-b',
+      name: 'Form B',
+      fields: [
+        { id: 'email', label: 'Email', type: 'email' },
+        { id: 'work_email', label: 'Work Email', type: 'email' },
+      ],
+      dependencies: [],
+    },
+  };
+
+  const staleSource: PrefillMapping = {
+    targetFormId: 'form-b',
+    targetFieldId: 'email',
+    sourceType: 'form',
+    sourceFormId: 'form-a',
+    sourceFieldId: 'email',
+    sourcePath: 'Form A.Email',
+  };
+  const staleTarget: PrefillMapping = { ...staleSource, targetFieldId: 'phone' };
+
+  const problems: MappingProblem[] = [
+    { mapping: staleSource, type: 'missingSourceForm', message: 'Source form form-a no longer exists' },
+    { mapping: staleTarget, type: 'missingTargetField', message: 'Form B no longer has a field "phone"' },
+  ];
+
+  const renderWizard = (shown = problems) => {
+    const handlers = {
+      onRepoint: vi.fn(),
+      onMove: vi.fn(),
+      onRetype: vi.fn(),
+      onRemoveCondition: vi.fn(),
+      onDelete: vi.fn(),
+    };
+    const utils = render(<MappingRepairWizard problems={shown} formGraph={formGraph} {...handlers} />);
+    return { ...utils, ...handlers };
+  };
+
+  it('should render nothing when every mapping is valid', () => {
+    const { container } = renderWizard([]);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should summarize broken mappings until opened', () => {
+    renderWizard();
+
+    expect(screen.getByRole('region', { name: 'Broken mappings' })).toHaveTextContent('2 broken mappings');
+    expect(screen.queryByText('Delete')).not.toBeInTheDocument();
+  });
+
+  it('should step through problems and re-point or delete the current one', () => {
+    const { onRepoint, onDelete } = renderWizard();
+    fireEvent.click(screen.getByText('Repair…'));
+
+    expect(screen.getByText('1 of 2')).toBeInTheDocument();
+    expect(screen.getByText('Source form form-a no longer exists')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Re-point source…'));
+    expect(onRepoint).toHaveBeenCalledWith(staleSource);
+
+    fireEvent.click(screen.getByText('Skip'));
+
+    expect(screen.getByText('2 of 2')).toBeInTheDocument();
+    // The target field is gone, so there is nothing to re-point
+    expect(screen.queryByText('Re-point source…')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText('Delete'));
+    expect(onDelete).toHaveBeenCalledWith(staleTarget);
+  });
+
+  it('should move a mapping onto another field of its form', () => {
+    const { onMove } = renderWizard([problems[1]]);
+    fireEvent.click(screen.getByText('Repair…'));
+
+    expect(screen.getByText('Move')).toBeDisabled();
+    fireEvent.change(screen.getByLabelText('Move to field'), { target: { value: 'work_email' } });
+    fireEvent.click(screen.getByText('Move'));
+
+    expect(onMove).toHaveBeenCalledWith(staleTarget, 'work_email');
+  });
+
+  it('should offer retyping only for type mismatches', () => {
+    const retyped: PrefillMapping = {
+      ...staleSource,
+      fieldTypes: { source: 'text', target: 'date' },
+    };
+    const { onRetype } = renderWizard([
+      { mapping: retyped, type: 'typeMismatch', message: 'The mapping converts text to date' },
+      problems[1],
+    ]);
+    fireEvent.click(screen.getByText('Repair…'));
+
+    fireEvent.click(screen.getByText('Retype'));
+    expect(onRetype).toHaveBeenCalledWith(retyped);
+
+    fireEvent.click(screen.getByText('Skip'));
+    expect(screen.queryByText('Retype')).not.toBeInTheDocument();
+  });
+
+  it('should offer removing the condition of a broken condition', () => {
+    const { onRemoveCondition } = renderWizard([
+      { mapping: staleSource, type: 'brokenCondition', message: 'The condition reads form form-x' },
+    ]);
+    fireEvent.click(screen.getByText('Repair…'));
+
+    fireEvent.click(screen.getByText('Remove condition'));
+
+    expect(onRemoveCondition).toHaveBeenCalledWith(staleSource);
+  });
+
+  it('should stay on a valid problem when the list shrinks', () => {
+    const { rerender } = renderWizard();
+    fireEvent.click(screen.getByText('Repair…'));
+    fireEvent.click(screen.getByText('Skip'));
+
+    rerender(
+      <MappingRepairWizard
+        problems={[problems[0]]}
+        formGraph={formGraph}
+        onRepoint={vi.fn()}
+        onMove={vi.fn()}
+        onRetype={vi.fn()}
+        onRemoveCondition={vi.fn()}
+        onDelete={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('1 of 1')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { OfflineBanner } from '../OfflineBanner';
+
+describe('OfflineBanner', () => {
+  it('renders nothing while online with nothing to save', () => {
+    const { container } = render(
+      <OfflineBanner isOffline={false} lastSyncedAt={null} pendingCount={0} onRetry={vi.fn()} />
+    );
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('shows when the data was synced and how many forms are waiting', () => {
+    const syncedAt = '2026-01-02T03:04:05.000Z';
+    render(
+      <OfflineBanner isOffline={true} lastSyncedAt={syncedAt} pendingCount={2} onRetry={vi.fn()} />
+    );
+
+    expect(screen.getByText('Offline')).toBeInTheDocument();
+    expect(screen.getByText(new RegExp(`last synced at ${new Date(syncedAt).toLocaleString()}`))).toBeInTheDocument();
+    expect(screen.getByText(/Changes to 2 forms will be saved/)).toBeInTheDocument();
+  });
+
+  it('retries on request', () => {
+    const onRetry = vi.fn();
+    render(<OfflineBanner isOffline={true} lastSyncedAt={null} pendingCount={0} onRetry={onRetry} />);
+
+    fireEvent.click(screen.getByText('Retry now'));
+
+    expect(onRetry).toHaveBeenCalled();
+  });
+});
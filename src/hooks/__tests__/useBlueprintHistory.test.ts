@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useBlueprintHistory } from '../useBlueprintHistory';
+import { Form } from '../../types';
+
+describe('useBlueprintHistory', () => {
+  const v1: Form[] = [{ id: 'form-a', name: 'Form A', fields: [], dependencies: [] }];
+  const v2: Form[] = [{ ...v1[0], name: 'Intake' }];
+
+  const renderHistory = (blueprintId: string | null, forms: Form[], loadedAt: string | null) =>
+    renderHook(props => useBlueprintHistory(props.blueprintId, props.forms, props.loadedAt), {
+      initialProps: { blueprintId, forms, loadedAt },
+    });
+
+  it('should record nothing until a blueprint has loaded', () => {
+    const { result } = renderHistory(null, [], null);
+
+    expect(result.current).toEqual([]);
+  });
+
+  it('should record each fetch that changed the blueprint', () => {
+    const { result, rerender } = renderHistory('bp_1', v1, '2026-01-01T10:00:00Z');
+
+    // A repeated fetch with the same content is not a new version
+    rerender({ blueprintId: 'bp_1', forms: structuredClone(v1), loadedAt: '2026-01-01T10:05:00Z' });
+    rerender({ blueprintId: 'bp_1', forms: v2, loadedAt: '2026-01-01T10:10:00Z' });
+
+    expect(result.current.map(version => [version.loadedAt, version.forms])).toEqual([
+      ['2026-01-01T10:00:00Z', v1],
+      ['2026-01-01T10:10:00Z', v2],
+    ]);
+  });
+
+  it('should start over for another blueprint', () => {
+    const { result, rerender } = renderHistory('bp_1', v1, '2026-01-01T10:00:00Z');
+
+    rerender({ blueprintId: 'bp_2', forms: v2, loadedAt: '2026-01-01T10:10:00Z' });
+
+    expect(result.current).toHaveLength(1);
+    expect(result.current[0].forms).toBe(v2);
+  });
+});
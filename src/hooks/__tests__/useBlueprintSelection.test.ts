@@ -0,0 +1,46 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useBlueprintSelection } from '../useBlueprintSelection';
+import { DEFAULT_BLUEPRINT } from '../../services/apiService';
+
+describe('useBlueprintSelection', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should default to the built-in blueprint', () => {
+    const { result } = renderHook(() => useBlueprintSelection());
+
+    expect(result.current.selection).toEqual(DEFAULT_BLUEPRINT);
+  });
+
+  it('should read the selection from the URL', () => {
+    window.history.replaceState(null, '', '/?tenant=t_2&blueprint=bp_9');
+
+    const { result } = renderHook(() => useBlueprintSelection());
+
+    expect(result.current.selection).toEqual({ tenantId: 't_2', blueprintId: 'bp_9' });
+  });
+
+  it('should write a new selection to the URL', () => {
+    const { result } = renderHook(() => useBlueprintSelection());
+
+    act(() => {
+      result.current.select({ tenantId: 't_2', blueprintId: 'bp_9' });
+    });
+
+    expect(result.current.selection).toEqual({ tenantId: 't_2', blueprintId: 'bp_9' });
+    expect(window.location.search).toBe('?tenant=t_2&blueprint=bp_9');
+  });
+
+  it('should follow back and forward navigation', () => {
+    const { result } = renderHook(() => useBlueprintSelection());
+
+    act(() => {
+      window.history.pushState(null, '', '/?tenant=t_3&blueprint=bp_3');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+
+    expect(result.current.selection).toEqual({ tenantId: 't_3', blueprintId: 'bp_3' });
+  });
+});
@@ -1,6 +1,7 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { renderHook } from '@testing-library/react';
 import { useDataSources } from '../useDataSources';
+import { CustomDataSource } from '../../services/dataSourceRegistry';
 import { FormGraph, GlobalData, Form } from '../../types';
 
 /**
@@ -240,6 +241,22 @@ describe('useDataSources', () => {
       // form-d should not be in its own dependencies
       expect(allFormIds).not.toContain('form-d');
     });
+
+    it('should order transitive dependencies nearest first and give their routes', () => {
+      // form-e → form-d → form-b → form-a, and form-e → form-c directly
+      const graph: FormGraph = {
+        ...mockFormGraph,
+        'form-e': createMockForm('form-e', 'Form E', ['notes'], ['form-c', 'form-d']),
+      };
+
+      const { result } = renderHook(() => useDataSources('form-e', graph, mockGlobalData));
+
+      expect(result.current.transitiveDependencies.map(d => d.id)).toEqual(['form-b', 'form-a']);
+      expect(result.current.dependencyRoutes.get('form-a')).toEqual({
+        distance: 2,
+        paths: [['form-e', 'form-c', 'form-a']],
+      });
+    });
   });
 
   describe('Memoization', () => {
@@ -496,4 +513,46 @@ describe('useDataSources', () => {
       expect(result.current.globalSources).toEqual([]);
     });
   });
+
+  describe('Plugin Sources', () => {
+    const owner = [{ id: 'owner', label: 'Owner', type: 'text' as const }];
+    // Only forms downstream of Form B get the CRM
+    const crm = new CustomDataSource('crm', 'CRM', owner, ({ ancestors }) => ancestors.has('form-b'));
+    const weather = new CustomDataSource('weather', 'Weather', owner);
+    const plugins = [crm, weather];
+
+    it('should offer plugin sources whose rule accepts the form', () => {
+      const { result, rerender } = renderHook(
+        ({ formId }) => useDataSources(formId, mockFormGraph, mockGlobalData, plugins),
+        { initialProps: { formId: 'form-d' } }
+      );
+
+      expect(result.current.customSources).toEqual([crm, weather]);
+
+      rerender({ formId: 'form-c' });
+      expect(result.current.customSources).toEqual([weather]);
+    });
+
+    it('should offer no plugin sources when nothing is selected', () => {
+      const { result } = renderHook(() =>
+        useDataSources(null, mockFormGraph, mockGlobalData, plugins)
+      );
+
+      expect(result.current.customSources).toEqual([]);
+    });
+
+    it('should skip plugins whose ID is already taken', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const impostor = new CustomDataSource('form-a', 'Impostor', owner);
+
+      const { result } = renderHook(() =>
+        useDataSources('form-d', mockFormGraph, mockGlobalData, [impostor])
+      );
+
+      expect(result.current.customSources).toEqual([]);
+      expect(result.current.transitiveDependencies[0].name).toBe('Form A');
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('"form-a"'));
+      warn.mockRestore();
+    });
+  });
 });
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { clearBlueprintCache, useForms } from '../useForms';
+import { DEFAULT_BLUEPRINT } from '../../services/apiService';
+import { MockApi, createMockApi } from '../../mocks/mockApi';
+import { avantosBlueprint } from '../../mocks/fixtures';
+import { loadBlueprintSnapshot, saveBlueprintSnapshot } from '../../services/offlineCache';
+
+// IndexedDB doesn't exist in jsdom
+vi.mock('../../services/offlineCache', () => ({
+  loadBlueprintSnapshot: vi.fn(),
+  saveBlueprintSnapshot: vi.fn(),
+}));
+
+/**
+ * useForms against the bundled mock API, serving the recorded Avantos blueprint
+ */
+describe('useForms', () => {
+  const ref = DEFAULT_BLUEPRINT;
+  const fast = { retryDelayMs: 1 };
+  let api: MockApi;
+
+  beforeEach(() => {
+    clearBlueprintCache();
+    vi.mocked(loadBlueprintSnapshot).mockResolvedValue(null);
+    vi.mocked(saveBlueprintSnapshot).mockResolvedValue();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    api = createMockApi();
+    vi.stubGlobal('fetch', vi.fn(api.fetch));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should load the recorded blueprint', async () => {
+    const { result } = renderHook(() => useForms(ref, fast));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.forms.map(f => f.name)).toEqual([
+      'Form A',
+      'Form B',
+      'Form C',
+      'Form D',
+      'Form E',
+      'Form F',
+    ]);
+    const formF = result.current.forms.find(f => f.name === 'Form F')!;
+    expect(formF.dependencies).toHaveLength(2);
+    expect(result.current.globalData?.actionPropertyTypes?.due_date).toBe('date');
+  });
+
+  it('should retry a failing server before giving up', async () => {
+    api.failNextRequests(503, 2);
+
+    const { result } = renderHook(() => useForms(ref, fast));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.error).toBeNull();
+    expect(result.current.forms).toHaveLength(6);
+  });
+
+  it('should show an error once retries run out and recover on refetch', async () => {
+    api.setScenario({ errorStatus: 500 });
+
+    const { result } = renderHook(() => useForms(ref, { ...fast, retries: 1 }));
+    await waitFor(() => expect(result.current.error).not.toBeNull());
+
+    api.setScenario({});
+    await act(() => result.current.refetch());
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.forms).toHaveLength(6);
+  });
+
+  it('should show cached data while revalidating and keep it when the refresh fails', async () => {
+    const first = renderHook(() => useForms(ref, fast));
+    await waitFor(() => expect(first.result.current.loading).toBe(false));
+    first.unmount();
+
+    api.setScenario({ errorStatus: 403 });
+    const { result } = renderHook(() => useForms(ref, { ...fast, retries: 0 }));
+
+    // Cached copy on the first render, no loading screen
+    expect(result.current.loading).toBe(false);
+    expect(result.current.isRefreshing).toBe(true);
+    expect(result.current.forms).toHaveLength(6);
+
+    await waitFor(() => expect(result.current.isRefreshing).toBe(false));
+    expect(result.current.error).toBeNull();
+    expect(result.current.refreshError).not.toBeNull();
+    expect(result.current.forms).toHaveLength(6);
+  });
+
+  it('should time out a slow server', async () => {
+    api.setScenario({ latencyMs: 200 });
+
+    const { result } = renderHook(() => useForms(ref, { ...fast, retries: 0, timeoutMs: 20 }));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.error?.message).toMatch(/Timed out/);
+  });
+
+  it('should cancel the request when unmounted', async () => {
+    api.setScenario({ latencyMs: 1000 });
+    const { unmount } = renderHook(() => useForms(ref));
+
+    const [, init] = vi.mocked(fetch).mock.calls[0];
+    unmount();
+
+    expect(init?.signal?.aborted).toBe(true);
+  });
+
+  it('should store each load for offline use', async () => {
+    const { result } = renderHook(() => useForms(ref, fast));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(saveBlueprintSnapshot).toHaveBeenCalledWith(
+      ref,
+      expect.objectContaining({ forms: result.current.forms })
+    );
+    expect(result.current.isOffline).toBe(false);
+    expect(result.current.lastSyncedAt).not.toBeNull();
+  });
+
+  it('should boot from the stored copy when the API is unreachable', async () => {
+    const online = renderHook(() => useForms(ref, fast));
+    await waitFor(() => expect(online.result.current.loading).toBe(false));
+    const [, data] = vi.mocked(saveBlueprintSnapshot).mock.calls[0];
+    online.unmount();
+    clearBlueprintCache();
+
+    vi.mocked(loadBlueprintSnapshot).mockResolvedValue({ data, syncedAt: '2026-01-02T03:04:05.000Z' });
+    api.setScenario({ offline: true });
+
+    const { result } = renderHook(() => useForms(ref, { ...fast, retries: 0 }));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.isOffline).toBe(true);
+    expect(result.current.lastSyncedAt).toBe('2026-01-02T03:04:05.000Z');
+    expect(result.current.forms).toHaveLength(6);
+
+    // Back online
+    api.setScenario({});
+    act(() => {
+      window.dispatchEvent(new Event('online'));
+    });
+    await waitFor(() => expect(result.current.isOffline).toBe(false));
+  });
+
+  it('should not use the stored copy when the API rejects the request', async () => {
+    const { result } = renderHook(() =>
+      useForms({ tenantId: ref.tenantId, blueprintId: 'ab_missing' }, fast)
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(loadBlueprintSnapshot).not.toHaveBeenCalled();
+    expect(result.current.error?.message).toContain('Failed to fetch form blueprint');
+  });
+
+  it('should load a large generated graph', async () => {
+    api.setScenario({ largeGraphNodes: 500 });
+
+    const { result } = renderHook(() => useForms(ref, fast));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.forms).toHaveLength(500);
+    expect(result.current.dependencyIssues).toEqual([]);
+  });
+
+  it('should report circular dependencies', async () => {
+    // Form A (the root) now also depends on Form F, closing A → … → F → A
+    const [formA, ...rest] = avantosBlueprint.nodes;
+    const formF = rest[rest.length - 1];
+    const cyclic = {
+      ...avantosBlueprint,
+      nodes: [{ ...formA, data: { ...formA.data, prerequisites: [formF.id] } }, ...rest],
+      edges: [...avantosBlueprint.edges, { source: formF.id, target: formA.id }],
+    };
+    api = createMockApi({ blueprints: [cyclic] });
+    vi.stubGlobal('fetch', vi.fn(api.fetch));
+
+    const { result } = renderHook(() => useForms(ref, fast));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    const names = result.current.cycles.map(cycle =>
+      cycle.map(id => result.current.formGraph[id].name)
+    );
+    // A → F → D → B → A and A → F → E → C → A
+    expect(names).toHaveLength(2);
+    expect(new Set(names.flat())).toEqual(
+      new Set(['Form A', 'Form B', 'Form C', 'Form D', 'Form E', 'Form F'])
+    );
+  });
+});
@@ -1,7 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { renderHook, act } from '@testing-library/react';
-import { usePrefillMappings } from '../usePrefillMappings';
-import { PrefillMapping } from '../../types';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { MappingSyncOptions, usePrefillMappings } from '../usePrefillMappings';
+import { BlueprintRef, MockServerNode, MockServerResponse, PrefillMapping } from '../../types';
+import { MockApi, createMockApi } from '../../mocks/mockApi';
+import { parseNodeInputMapping } from '../../services/inputMappingImport';
+import { DEFAULT_BLUEPRINT } from '../../services/apiService';
 
 /**
  * Comprehensive tests for usePrefillMappings hook
@@ -390,6 +393,186 @@ describe('usePrefillMappings', () => {
     });
   });
 
+  describe('Fallback Chains', () => {
+    const formBEmail: PrefillMapping = {
+      targetFormId: 'form-d',
+      targetFieldId: 'email',
+      sourceType: 'form',
+      sourceFormId: 'form-b',
+      sourceFieldId: 'email',
+      sourcePath: 'Form B.Email',
+    };
+
+    const formAEmail: PrefillMapping = {
+      ...formBEmail,
+      sourceFormId: 'form-a',
+      sourcePath: 'Form A.Email',
+    };
+
+    const orgEmail: PrefillMapping = {
+      targetFormId: 'form-d',
+      targetFieldId: 'email',
+      sourceType: 'global',
+      sourceFieldId: 'contact_email',
+      sourcePath: 'clientOrg.Contact Email',
+    };
+
+    it('should append fallbacks in order', () => {
+      const { result } = renderHook(() => usePrefillMappings());
+
+      act(() => {
+        result.current.setMapping(formBEmail);
+        result.current.addFallbackMapping(formAEmail);
+        result.current.addFallbackMapping(orgEmail);
+      });
+
+      expect(result.current.getMappingChain('form-d', 'email')).toEqual([
+        formBEmail,
+        formAEmail,
+        orgEmail,
+      ]);
+      // The primary mapping is still the first entry
+      expect(result.current.getMapping('form-d', 'email')).toEqual(formBEmail);
+    });
+
+    it('should replace an existing entry with the same source instead of duplicating it', () => {
+      const { result } = renderHook(() => usePrefillMappings());
+      const updated: PrefillMapping = { ...formAEmail, transforms: [{ type: 'trim' }] };
+
+      act(() => {
+        result.current.setMapping(formBEmail);
+        result.current.addFallbackMapping(formAEmail);
+        result.current.addFallbackMapping(updated);
+      });
+
+      expect(result.current.getMappingChain('form-d', 'email')).toEqual([formBEmail, updated]);
+    });
+
+    it('should reorder entries within a chain without moving other mappings', () => {
+      const other: PrefillMapping = {
+        targetFormId: 'form-d',
+        targetFieldId: 'name',
+        sourceType: 'global',
+        sourceFieldId: 'org_name',
+        sourcePath: 'clientOrg.Org Name',
+      };
+      const { result } = renderHook(() => usePrefillMappings());
+
+      act(() => {
+        result.current.setMapping(formBEmail);
+        result.current.setMapping(other);
+        result.current.addFallbackMapping(formAEmail);
+      });
+
+      act(() => {
+        result.current.moveMappingInChain('form-d', 'email', 1, 0);
+      });
+
+      expect(result.current.getMappingChain('form-d', 'email')).toEqual([formAEmail, formBEmail]);
+      expect(result.current.mappings[1]).toEqual(other);
+    });
+
+    it('should ignore out-of-range moves', () => {
+      const { result } = renderHook(() => usePrefillMappings());
+
+      act(() => {
+        result.current.setMapping(formBEmail);
+        result.current.addFallbackMapping(formAEmail);
+      });
+
+      act(() => {
+        result.current.moveMappingInChain('form-d', 'email', 0, 5);
+      });
+
+      expect(result.current.getMappingChain('form-d', 'email')).toEqual([formBEmail, formAEmail]);
+    });
+
+    it('should remove a single entry from a chain', () => {
+      const { result } = renderHook(() => usePrefillMappings());
+
+      act(() => {
+        result.current.setMapping(formBEmail);
+        result.current.addFallbackMapping(formAEmail);
+        result.current.addFallbackMapping(orgEmail);
+      });
+
+      act(() => {
+        result.current.removeMappingFromChain('form-d', 'email', 1);
+      });
+
+      expect(result.current.getMappingChain('form-d', 'email')).toEqual([formBEmail, orgEmail]);
+    });
+
+    it('should replace the whole chain when setMapping is called', () => {
+      const { result } = renderHook(() => usePrefillMappings());
+
+      act(() => {
+        result.current.setMapping(formBEmail);
+        result.current.addFallbackMapping(formAEmail);
+        result.current.setMapping(orgEmail);
+      });
+
+      expect(result.current.getMappingChain('form-d', 'email')).toEqual([orgEmail]);
+    });
+
+    it('should replace a chain with setMappingChain', () => {
+      const { result } = renderHook(() => usePrefillMappings());
+
+      act(() => {
+        result.current.setMapping(formBEmail);
+      });
+
+      act(() => {
+        result.current.setMappingChain('form-d', 'email', [orgEmail, formAEmail]);
+      });
+
+      expect(result.current.getMappingChain('form-d', 'email')).toEqual([orgEmail, formAEmail]);
+    });
+
+    it('should replace or remove one stored entry with replaceMapping', () => {
+      const { result } = renderHook(() => usePrefillMappings());
+
+      act(() => {
+        result.current.setMapping(formBEmail);
+        result.current.addFallbackMapping(formAEmail);
+        result.current.addFallbackMapping(orgEmail);
+      });
+
+      act(() => {
+        const [, stored] = result.current.getMappingChain('form-d', 'email');
+        result.current.replaceMapping(stored, { ...formAEmail, sourceFormId: 'form-c' });
+      });
+
+      expect(result.current.getMappingChain('form-d', 'email')).toEqual([
+        formBEmail,
+        { ...formAEmail, sourceFormId: 'form-c' },
+        orgEmail,
+      ]);
+
+      act(() => {
+        result.current.replaceMapping(result.current.getMapping('form-d', 'email')!, null);
+      });
+
+      expect(result.current.getMappingChain('form-d', 'email')).toHaveLength(2);
+      expect(result.current.getMapping('form-d', 'email')?.sourceFormId).toBe('form-c');
+    });
+
+    it('should clear the whole chain with clearMapping', () => {
+      const { result } = renderHook(() => usePrefillMappings());
+
+      act(() => {
+        result.current.setMapping(formBEmail);
+        result.current.addFallbackMapping(formAEmail);
+      });
+
+      act(() => {
+        result.current.clearMapping('form-d', 'email');
+      });
+
+      expect(result.current.getMappingChain('form-d', 'email')).toEqual([]);
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle non-existent form IDs in getMapping', () => {
       const { result } = renderHook(() => usePrefillMappings());
@@ -563,4 +746,277 @@ describe('usePrefillMappings', () => {
       expect(result.current.getMappingsForForm).not.toBe(initialGetMappingsForForm);
     });
   });
+
+  describe('Blueprint Scoping', () => {
+    const mapping: PrefillMapping = {
+      targetFormId: 'form-d',
+      targetFieldId: 'email',
+      sourceType: 'form',
+      sourceFormId: 'form-a',
+      sourceFieldId: 'email',
+      sourcePath: 'Form A.Email',
+    };
+    const first: BlueprintRef = { tenantId: 't_1', blueprintId: 'bp_1' };
+    const second: BlueprintRef = { tenantId: 't_1', blueprintId: 'bp_2' };
+
+    it('should store mappings under a key per tenant and blueprint', () => {
+      const { result } = renderHook(() => usePrefillMappings(undefined, first));
+
+      act(() => {
+        result.current.setMapping(mapping);
+      });
+
+      expect(JSON.parse(storage['prefill-mappings:t_1:bp_1'])).toEqual([mapping]);
+      expect(storage['prefill-mappings']).toBeUndefined();
+    });
+
+    it('should swap in the other blueprint\'s mappings when the scope changes', () => {
+      storage['prefill-mappings:t_1:bp_1'] = JSON.stringify([mapping]);
+
+      const { result, rerender } = renderHook(
+        ({ scope }) => usePrefillMappings(undefined, scope),
+        { initialProps: { scope: first } }
+      );
+      expect(result.current.mappings).toEqual([mapping]);
+
+      rerender({ scope: second });
+      expect(result.current.mappings).toEqual([]);
+      expect(storage['prefill-mappings:t_1:bp_2']).toBe('[]');
+      expect(JSON.parse(storage['prefill-mappings:t_1:bp_1'])).toEqual([mapping]);
+
+      rerender({ scope: first });
+      expect(result.current.mappings).toEqual([mapping]);
+    });
+
+    it('should pick up unscoped mappings for the default blueprint', () => {
+      storage['prefill-mappings'] = JSON.stringify([mapping]);
+
+      const { result } = renderHook(() => usePrefillMappings(undefined, DEFAULT_BLUEPRINT));
+
+      expect(result.current.mappings).toEqual([mapping]);
+    });
+
+    it('should not share unscoped mappings with other blueprints', () => {
+      storage['prefill-mappings'] = JSON.stringify([mapping]);
+
+      const { result } = renderHook(() => usePrefillMappings(undefined, second));
+
+      expect(result.current.mappings).toEqual([]);
+    });
+  });
+
+  describe('API Sync', () => {
+    const createNode = (id: string): MockServerNode => ({
+      id,
+      type: 'form',
+      position: { x: 0, y: 0 },
+      data: {
+        id: `bp_c-${id}`,
+        component_key: id,
+        component_type: 'form',
+        component_id: `f_${id}`,
+        name: id,
+        prerequisites: [],
+        permitted_roles: [],
+        input_mapping: {},
+        sla_duration: { number: 0, unit: 'minutes' },
+        approval_required: false,
+        approval_roles: [],
+      },
+    });
+
+    // Unscoped mappings are saved to the default blueprint
+    const blueprint: MockServerResponse = {
+      id: DEFAULT_BLUEPRINT.blueprintId,
+      tenant_id: DEFAULT_BLUEPRINT.tenantId,
+      name: 'Blueprint',
+      description: '',
+      category: 'test',
+      nodes: [createNode('form-a'), createNode('form-d')],
+      edges: [],
+      forms: [],
+      branches: [],
+      triggers: [],
+    };
+
+    const formAEmail: PrefillMapping = {
+      targetFormId: 'form-d',
+      targetFieldId: 'email',
+      sourceType: 'form',
+      sourceFormId: 'form-a',
+      sourceFieldId: 'email',
+      sourcePath: 'form-a.email',
+    };
+
+    const sync: MappingSyncOptions = {
+      versions: { 'form-a': '1', 'form-d': '1' },
+      parseInputMapping: (nodeId, inputMapping) =>
+        parseNodeInputMapping(nodeId, inputMapping, [], {
+          actionProperties: [],
+          clientOrgProperties: [],
+        }),
+    };
+
+    let server: MockApi;
+
+    beforeEach(() => {
+      server = createMockApi({ blueprints: [blueprint] });
+      vi.stubGlobal('fetch', vi.fn(server.fetch));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should write changes to the server and advance the version', async () => {
+      const { result } = renderHook(() => usePrefillMappings(sync));
+
+      act(() => {
+        result.current.setMapping(formAEmail);
+      });
+
+      expect(result.current.mappings).toEqual([formAEmail]);
+      await waitFor(() => expect(result.current.isSaving).toBe(false));
+      expect(server.getInputMapping('form-d')).toEqual({
+        email: { type: 'form_field', component_key: 'form-a', property: 'email' },
+      });
+      expect(server.getVersion('form-d')).toBe('2');
+
+      act(() => {
+        result.current.clearMapping('form-d', 'email');
+      });
+
+      await waitFor(() => expect(server.getVersion('form-d')).toBe('3'));
+      expect(server.getInputMapping('form-d')).toEqual({});
+    });
+
+    it('should report what the server now holds after a successful write', async () => {
+      const onServerMappings = vi.fn();
+      const { result } = renderHook(() => usePrefillMappings({ ...sync, onServerMappings }));
+
+      act(() => {
+        result.current.setMapping(formAEmail);
+      });
+
+      await waitFor(() => expect(onServerMappings).toHaveBeenCalledWith('form-d', [formAEmail]));
+    });
+
+    it('should roll back a rejected write', async () => {
+      const { result } = renderHook(() => usePrefillMappings(sync));
+      // A 5xx would mean "unreachable" and queue the write instead
+      server.failNextWrite(422);
+
+      act(() => {
+        result.current.setMapping(formAEmail);
+      });
+
+      await waitFor(() => expect(result.current.syncError).not.toBeNull());
+      expect(result.current.mappings).toEqual([]);
+      expect(result.current.conflicts).toEqual([]);
+    });
+
+    it('should report a conflict when someone else changed the node', async () => {
+      server.editNode('form-d', { email: { type: 'constant', value: 'theirs@example.com' } });
+      const { result } = renderHook(() => usePrefillMappings(sync));
+
+      act(() => {
+        result.current.setMapping(formAEmail);
+      });
+
+      await waitFor(() => expect(result.current.conflicts).toHaveLength(1));
+      const [conflict] = result.current.conflicts;
+      expect(conflict.nodeId).toBe('form-d');
+      expect(conflict.local).toEqual([formAEmail]);
+      expect(conflict.server[0].constantValue).toBe('theirs@example.com');
+      expect(conflict.serverVersion).toBe('2');
+    });
+
+    it('should take the server version when resolving with theirs', async () => {
+      server.editNode('form-d', { email: { type: 'constant', value: 'theirs@example.com' } });
+      const { result } = renderHook(() => usePrefillMappings(sync));
+
+      act(() => {
+        result.current.setMapping(formAEmail);
+      });
+      await waitFor(() => expect(result.current.conflicts).toHaveLength(1));
+
+      act(() => {
+        result.current.resolveConflict('form-d', 'server');
+      });
+
+      expect(result.current.conflicts).toEqual([]);
+      expect(result.current.mappings[0].sourceType).toBe('constant');
+    });
+
+    it('should overwrite the server when resolving with mine', async () => {
+      server.editNode('form-d', { email: { type: 'constant', value: 'theirs@example.com' } });
+      const { result } = renderHook(() => usePrefillMappings(sync));
+
+      act(() => {
+        result.current.setMapping(formAEmail);
+      });
+      await waitFor(() => expect(result.current.conflicts).toHaveLength(1));
+
+      act(() => {
+        result.current.resolveConflict('form-d', 'local');
+      });
+
+      await waitFor(() => expect(server.getVersion('form-d')).toBe('3'));
+      expect(server.getInputMapping('form-d')).toEqual({
+        email: { type: 'form_field', component_key: 'form-a', property: 'email' },
+      });
+      expect(result.current.mappings).toEqual([formAEmail]);
+    });
+
+    it('should queue writes while the API is unreachable and replay them when back online', async () => {
+      const { result } = renderHook(() => usePrefillMappings(sync));
+      vi.mocked(fetch).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      act(() => {
+        result.current.setMapping(formAEmail);
+      });
+
+      await waitFor(() => expect(result.current.pendingNodeIds).toEqual(['form-d']));
+      expect(result.current.mappings).toEqual([formAEmail]);
+      expect(result.current.syncError).toBeNull();
+      expect(server.getVersion('form-d')).toBe('1');
+
+      act(() => {
+        window.dispatchEvent(new Event('online'));
+      });
+
+      await waitFor(() => expect(result.current.pendingNodeIds).toEqual([]));
+      expect(server.getVersion('form-d')).toBe('2');
+      expect(server.getInputMapping('form-d')).toEqual({
+        email: { type: 'form_field', component_key: 'form-a', property: 'email' },
+      });
+    });
+
+    it('should replay queued writes after the blueprint reloads', async () => {
+      const { result, rerender } = renderHook(({ options }) => usePrefillMappings(options), {
+        initialProps: { options: sync },
+      });
+      server.failNextWrite(503);
+
+      act(() => {
+        result.current.setMapping(formAEmail);
+      });
+      await waitFor(() => expect(result.current.pendingNodeIds).toEqual(['form-d']));
+
+      rerender({ options: { ...sync, versions: { 'form-a': '1', 'form-d': '1' } } });
+
+      await waitFor(() => expect(server.getVersion('form-d')).toBe('2'));
+      expect(result.current.pendingNodeIds).toEqual([]);
+    });
+
+    it('should not call the API without sync options', () => {
+      const { result } = renderHook(() => usePrefillMappings());
+
+      act(() => {
+        result.current.setMapping(formAEmail);
+      });
+
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
 });
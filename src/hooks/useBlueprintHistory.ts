@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { Form } from '../types';
+
+/** How many versions of a blueprint are kept for comparison */
+const MAX_VERSIONS = 5;
+
+/**
+ * A version of the blueprint as it was fetched
+ */
+export interface BlueprintVersion {
+  /** When this version was loaded from the API (ISO timestamp) */
+  loadedAt: string;
+  /** The forms of this version */
+  forms: Form[];
+}
+
+interface RecordedVersion extends BlueprintVersion {
+  /** Serialized forms, to tell a changed blueprint from a repeated fetch */
+  fingerprint: string;
+}
+
+interface History {
+  blueprintId: string | null;
+  versions: RecordedVersion[];
+}
+
+/**
+ * Custom hook to remember the versions of a blueprint seen during the session
+ * A fetch is recorded only when its forms differ from the previous version;
+ * switching to another blueprint starts a new history
+ *
+ * @param blueprintId - ID of the loaded blueprint (null until it loads)
+ * @param forms - The loaded blueprint's forms
+ * @param loadedAt - When they were loaded
+ * @returns Versions, oldest first; the last one is the blueprint currently shown
+ */
+export function useBlueprintHistory(
+  blueprintId: string | null,
+  forms: Form[],
+  loadedAt: string | null
+): BlueprintVersion[] {
+  const [history, setHistory] = useState<History>({ blueprintId: null, versions: [] });
+
+  useEffect(() => {
+    if (!blueprintId || !loadedAt || forms.length === 0) return;
+
+    const fingerprint = JSON.stringify(forms);
+    setHistory(prev => {
+      const versions = prev.blueprintId === blueprintId ? prev.versions : [];
+      if (versions[versions.length - 1]?.fingerprint === fingerprint) {
+        return prev;
+      }
+      return {
+        blueprintId,
+        versions: [...versions, { loadedAt, forms, fingerprint }].slice(-MAX_VERSIONS),
+      };
+    });
+  }, [blueprintId, forms, loadedAt]);
+
+  return history.blueprintId === blueprintId ? history.versions : [];
+}
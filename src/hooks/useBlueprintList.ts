@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { BlueprintSummary } from '../types';
+import { fetchBlueprints } from '../services/apiService';
+
+interface UseBlueprintListResult {
+  /** The tenant's blueprints */
+  blueprints: BlueprintSummary[];
+  /** Loading state */
+  loading: boolean;
+  /** Error state */
+  error: Error | null;
+}
+
+/**
+ * Custom hook to list a tenant's blueprints
+ * Refetches whenever the tenant changes
+ *
+ * @param tenantId - The tenant whose blueprints to list
+ * @returns The blueprints, loading state, and error state
+ */
+export function useBlueprintList(tenantId: string): UseBlueprintListResult {
+  const [blueprints, setBlueprints] = useState<BlueprintSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetchBlueprints(tenantId)
+      .then(list => {
+        if (!cancelled) setBlueprints(list);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setBlueprints([]);
+        setError(err instanceof Error ? err : new Error('Failed to list blueprints'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tenantId]);
+
+  return { blueprints, loading, error };
+}
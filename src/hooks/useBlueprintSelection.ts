@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BlueprintRef } from '../types';
+import { DEFAULT_BLUEPRINT } from '../services/apiService';
+
+/**
+ * Reads the selected blueprint from the page URL (`?tenant=…&blueprint=…`)
+ * Missing parameters fall back to the default blueprint
+ */
+function readSelection(): BlueprintRef {
+  const params = new URLSearchParams(window.location.search);
+  return {
+    tenantId: params.get('tenant') || DEFAULT_BLUEPRINT.tenantId,
+    blueprintId: params.get('blueprint') || DEFAULT_BLUEPRINT.blueprintId,
+  };
+}
+
+interface UseBlueprintSelectionResult {
+  /** The blueprint currently open */
+  selection: BlueprintRef;
+  /** Open another blueprint (adds a browser history entry) */
+  select: (ref: BlueprintRef) => void;
+}
+
+/**
+ * Custom hook to track which tenant and blueprint are open
+ * The selection lives in the URL, so it survives reloads, can be shared as a
+ * link, and follows the browser's back and forward buttons
+ *
+ * @returns The current selection and a function to change it
+ *
+ * @example
+ * const { selection, select } = useBlueprintSelection();
+ * const { forms } = useForms(selection);
+ * select({ tenantId: 't_1', blueprintId: 'bp_2' }); // URL becomes ?tenant=t_1&blueprint=bp_2
+ */
+export function useBlueprintSelection(): UseBlueprintSelectionResult {
+  const [selection, setSelection] = useState<BlueprintRef>(readSelection);
+
+  // Back/forward navigation changes the URL without going through select()
+  useEffect(() => {
+    const handlePopState = () => setSelection(readSelection());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const select = useCallback((ref: BlueprintRef) => {
+    const params = new URLSearchParams(window.location.search);
+    params.set('tenant', ref.tenantId);
+    params.set('blueprint', ref.blueprintId);
+    window.history.pushState(null, '', `${window.location.pathname}?${params.toString()}`);
+    setSelection({ tenantId: ref.tenantId, blueprintId: ref.blueprintId });
+  }, []);
+
+  return { selection, select };
+}
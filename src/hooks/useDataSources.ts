@@ -1,5 +1,5 @@
 import { useMemo } from 'react';
-import { FormGraph, GlobalData, CategorizedDataSources } from '../types';
+import { FormGraph, GlobalData, CategorizedDataSources, DataSourcePlugin } from '../types';
 import {
   DataSourceRegistry,
   FormDataSource,
@@ -7,17 +7,28 @@ import {
   OrganizationDataSource,
 } from '../services/dataSourceRegistry';
 import {
+  getDependencies,
+  getDependencyRoutes,
   getDirectDependencies,
   getTransitiveDependencies,
 } from '../services/dagTraversal';
 
+// Shared default, so that omitting plugins doesn't rebuild the registry on every render
+const NO_PLUGINS: DataSourcePlugin[] = [];
+
 /**
  * Custom hook to get available data sources for a target form
- * Categorizes sources into direct dependencies, transitive dependencies, and global sources
+ * Categorizes sources into direct dependencies, transitive dependencies, global
+ * sources and plugin sources
+ *
+ * Plugin sources are offered when their availability rule accepts the target
+ * form. A plugin whose ID is already taken by a form or global source is
+ * skipped with a warning.
  *
  * @param targetFormId - The form to get data sources for
  * @param formGraph - The complete form graph
  * @param globalData - Global data sources
+ * @param plugins - Data sources contributed by the host app (keep the array stable between renders)
  * @returns Categorized data sources
  *
  * @example
@@ -33,50 +44,83 @@ import {
 export function useDataSources(
   targetFormId: string | null,
   formGraph: FormGraph,
-  globalData: GlobalData | null
+  globalData: GlobalData | null,
+  plugins: DataSourcePlugin[] = NO_PLUGINS
 ): CategorizedDataSources {
-  return useMemo(() => {
-    const registry = new DataSourceRegistry();
+  // Built once per blueprint, not on every selection
+  const registry = useMemo(() => {
+    const sources = new DataSourceRegistry();
+
+    // Register all forms as data sources
+    Object.values(formGraph).forEach(form => {
+      sources.register(new FormDataSource(form.id, form.name, form));
+    });
+
+    // Register global data sources
+    if (globalData) {
+      sources.register(new GlobalDataSource(globalData));
+      sources.register(new OrganizationDataSource(globalData));
+    }
+
+    // Register plugin data sources without letting them shadow built-in ones
+    plugins.forEach(plugin => {
+      if (sources.has(plugin.id)) {
+        console.warn(`Data source plugin "${plugin.id}" skipped: the ID is already taken`);
+        return;
+      }
+      sources.register(plugin);
+    });
+
+    return sources;
+  }, [formGraph, globalData, plugins]);
 
+  return useMemo(() => {
     // If no form is selected, return empty sources
     if (!targetFormId) {
       return {
         directDependencies: [],
         transitiveDependencies: [],
         globalSources: [],
+        customSources: [],
+        dependencyRoutes: new Map(),
       };
     }
 
-    // Register all forms as data sources
-    Object.values(formGraph).forEach(form => {
-      registry.register(new FormDataSource(form.id, form.name, form));
-    });
-
-    // Register global data sources
-    if (globalData) {
-      registry.register(new GlobalDataSource(globalData));
-      registry.register(new OrganizationDataSource(globalData));
-    }
-
-    // Get dependencies for the target form
+    // Get dependencies for the target form (transitive ones come from the graph's index)
     const directDeps = getDirectDependencies(targetFormId, formGraph);
     const transitiveDeps = getTransitiveDependencies(targetFormId, formGraph);
+    const dependencyRoutes = getDependencyRoutes(targetFormId, formGraph);
 
     // Categorize data sources
     const directDependencies = Array.from(directDeps)
       .map(depId => registry.get(depId))
       .filter((source): source is NonNullable<typeof source> => source !== undefined);
 
+    // Nearest first, so that of two similarly named forms the closer one comes first
+    const distanceOf = (depId: string) => dependencyRoutes.get(depId)?.distance ?? Infinity;
     const transitiveDependencies = Array.from(transitiveDeps)
+      .sort((a, b) => distanceOf(a) - distanceOf(b))
       .map(depId => registry.get(depId))
       .filter((source): source is NonNullable<typeof source> => source !== undefined);
 
     const globalSources = registry.getByType('global');
 
+    const targetForm = formGraph[targetFormId];
+    const context = targetForm
+      ? { targetForm, ancestors: getDependencies(targetFormId, formGraph), formGraph }
+      : null;
+    const customSources = context
+      ? plugins.filter(
+          plugin => registry.get(plugin.id) === plugin && (plugin.isAvailable?.(context) ?? true)
+        )
+      : [];
+
     return {
       directDependencies,
       transitiveDependencies,
       globalSources,
+      customSources,
+      dependencyRoutes,
     };
-  }, [targetFormId, formGraph, globalData]);
+  }, [targetFormId, formGraph, registry, plugins]);
 }
@@ -1,6 +1,36 @@
-import { useState, useEffect } from 'react';
-import { Form, GlobalData, FormGraph } from '../types';
-import { fetchFormBlueprint } from '../services/apiService';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  BlueprintRef,
+  DependencyIssue,
+  Form,
+  FormBlueprintResponse,
+  GlobalData,
+  FormGraph,
+  MockServerResponse,
+  PrefillMapping,
+} from '../types';
+import {
+  DEFAULT_BLUEPRINT,
+  fetchFormBlueprint,
+  isUnreachableError,
+} from '../services/apiService';
+import { RequestOptions } from '../services/resilientFetch';
+import { findCycles } from '../services/dagTraversal';
+import {
+  BlueprintSnapshot,
+  loadBlueprintSnapshot,
+  saveBlueprintSnapshot,
+} from '../services/offlineCache';
+
+// Last successful load of each blueprint, shared by every useForms instance
+const blueprintCache = new Map<string, BlueprintSnapshot>();
+
+/**
+ * Forgets all cached blueprints (the next load waits for the server again)
+ */
+export function clearBlueprintCache(): void {
+  blueprintCache.clear();
+}
 
 interface UseFormsResult {
   /** Array of all forms */
@@ -9,18 +39,48 @@ interface UseFormsResult {
   formGraph: FormGraph;
   /** Global data sources */
   globalData: GlobalData | null;
+  /** Prefill mappings parsed from the blueprint's input_mapping */
+  serverMappings: PrefillMapping[];
+  /** The raw blueprint (used to export mappings back to the platform) */
+  blueprint: MockServerResponse | null;
+  /** input_mapping version per node, used for conflict detection when saving */
+  nodeVersions: Record<string, string>;
+  /** Disagreements between node prerequisites and graph edges */
+  dependencyIssues: DependencyIssue[];
+  /** Circular dependencies, each as form IDs in dependency order (empty for a valid DAG) */
+  cycles: string[][];
   /** Loading state */
   loading: boolean;
-  /** Error state */
+  /** Error state (only set when there is no data to show) */
   error: Error | null;
-  /** Refetch function */
+  /** Whether cached data is on screen while a fresh copy loads */
+  isRefreshing: boolean;
+  /** Why the last refresh of cached data failed (the cached data stays) */
+  refreshError: Error | null;
+  /** Whether the API is unreachable and the data shown is a stored copy */
+  isOffline: boolean;
+  /** When the data shown was loaded from the API (ISO timestamp) */
+  lastSyncedAt: string | null;
+  /** Refetch function (keeps showing the current data until the new copy arrives) */
   refetch: () => Promise<void>;
+  /** Record a node's input_mapping as now stored on the server (after a successful save) */
+  setNodeServerMappings: (nodeId: string, nodeMappings: PrefillMapping[]) => void;
 }
 
 /**
  * Custom hook to fetch and manage form data
- * Fetches the form blueprint from the API on mount
+ * Fetches the form blueprint from the API on mount and whenever `ref` changes
+ *
+ * Failed requests are retried with backoff and time out (see fetchWithRetry).
+ * A blueprint loaded before is shown from cache straight away while it is
+ * refreshed in the background, and an outdated request is cancelled.
  *
+ * Every load is also stored in IndexedDB. When the API can't be reached, the
+ * stored copy is shown instead (`isOffline`), and loading is retried as soon
+ * as the browser reports a connection again.
+ *
+ * @param ref - Which tenant's blueprint to load
+ * @param options - Retry and timeout settings
  * @returns Object containing forms, loading state, and error state
  *
  * @example
@@ -33,46 +93,146 @@ interface UseFormsResult {
  *   return <div>{forms.length} forms loaded</div>;
  * }
  */
-export function useForms(): UseFormsResult {
+export function useForms(
+  ref: BlueprintRef = DEFAULT_BLUEPRINT,
+  options: Omit<RequestOptions, 'signal'> = {}
+): UseFormsResult {
   const [forms, setForms] = useState<Form[]>([]);
   const [formGraph, setFormGraph] = useState<FormGraph>({});
   const [globalData, setGlobalData] = useState<GlobalData | null>(null);
+  const [serverMappings, setServerMappings] = useState<PrefillMapping[]>([]);
+  const [blueprint, setBlueprint] = useState<MockServerResponse | null>(null);
+  const [nodeVersions, setNodeVersions] = useState<Record<string, string>>({});
+  const [dependencyIssues, setDependencyIssues] = useState<DependencyIssue[]>([]);
+  const [cycles, setCycles] = useState<string[][]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<Error | null>(null);
+  const [isOffline, setIsOffline] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
 
-  const loadForms = async () => {
-    try {
-      setLoading(true);
-      setError(null);
+  // Cancels the request in flight when a newer one starts or the component unmounts
+  const controllerRef = useRef<AbortController | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const applyData = (data: FormBlueprintResponse) => {
+    setForms(data.forms);
+    setGlobalData(data.globalData);
+    setServerMappings(data.serverMappings);
+    setBlueprint(data.blueprint);
+    setNodeVersions(data.nodeVersions);
+    setDependencyIssues(data.dependencyIssues);
+
+    // Create form graph for easy lookup
+    const graph: FormGraph = {};
+    data.forms.forEach(form => {
+      graph[form.id] = form;
+    });
+    setFormGraph(graph);
+    setCycles(findCycles(graph));
+  };
 
-      const data = await fetchFormBlueprint();
+  const loadForms = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
 
-      setForms(data.forms);
-      setGlobalData(data.globalData);
+    // Stale-while-revalidate: show the cached copy at once, then refresh it
+    const cacheKey = `${ref.tenantId}:${ref.blueprintId}`;
+    const cached = blueprintCache.get(cacheKey);
+    if (cached) {
+      applyData(cached.data);
+      setLastSyncedAt(cached.syncedAt);
+    }
+    setLoading(!cached);
+    setIsRefreshing(!!cached);
+    setError(null);
 
-      // Create form graph for easy lookup
-      const graph: FormGraph = {};
-      data.forms.forEach(form => {
-        graph[form.id] = form;
+    try {
+      const data = await fetchFormBlueprint(ref, {
+        ...optionsRef.current,
+        signal: controller.signal,
       });
-      setFormGraph(graph);
+      if (controller.signal.aborted) return;
+
+      const snapshot: BlueprintSnapshot = { data, syncedAt: new Date().toISOString() };
+      blueprintCache.set(cacheKey, snapshot);
+      saveBlueprintSnapshot(ref, data);
+      applyData(data);
+      setLastSyncedAt(snapshot.syncedAt);
+      setRefreshError(null);
+      setIsOffline(false);
     } catch (err) {
-      setError(err instanceof Error ? err : new Error('Failed to fetch forms'));
+      if (controller.signal.aborted) return;
+
+      const failure = err instanceof Error ? err : new Error('Failed to fetch forms');
+      const unreachable = isUnreachableError(err);
+
+      // With a cached copy on screen, a failed refresh is not fatal
+      if (cached) {
+        setIsOffline(unreachable);
+        setRefreshError(unreachable ? null : failure);
+        return;
+      }
+
+      // Unreachable API: boot from the copy stored by an earlier session
+      const stored = unreachable ? await loadBlueprintSnapshot(ref) : null;
+      if (controller.signal.aborted) return;
+      if (stored) {
+        applyData(stored.data);
+        setLastSyncedAt(stored.syncedAt);
+        setIsOffline(true);
+      } else {
+        setError(failure);
+      }
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+        setIsRefreshing(false);
+      }
     }
   };
 
+  const setNodeServerMappings = useCallback(
+    (nodeId: string, nodeMappings: PrefillMapping[]) => {
+      setServerMappings(prev => [...prev.filter(m => m.targetFormId !== nodeId), ...nodeMappings]);
+    },
+    []
+  );
+
   useEffect(() => {
     loadForms();
-  }, []);
+    return () => controllerRef.current?.abort();
+  }, [ref.tenantId, ref.blueprintId]);
+
+  // Reconnected: try the API again
+  useEffect(() => {
+    if (!isOffline) return;
+    const handleOnline = () => {
+      loadForms();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [isOffline, ref.tenantId, ref.blueprintId]);
 
   return {
     forms,
     formGraph,
     globalData,
+    serverMappings,
+    blueprint,
+    nodeVersions,
+    dependencyIssues,
+    cycles,
     loading,
     error,
+    isRefreshing,
+    refreshError,
+    isOffline,
+    lastSyncedAt,
     refetch: loadForms,
+    setNodeServerMappings,
   };
 }
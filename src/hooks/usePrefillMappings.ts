@@ -1,29 +1,201 @@
-import { useState, useEffect, useCallback } from 'react';
-import { PrefillMapping } from '../types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AvantosInputMapping, BlueprintRef, MappingConflict, PrefillMapping } from '../types';
+import { buildInputMappings } from '../services/inputMappingExport';
+import {
+  ConflictError,
+  DEFAULT_BLUEPRINT,
+  deleteNodeInputMapping,
+  isUnreachableError,
+  saveNodeInputMapping,
+  updateNodeInputMapping,
+} from '../services/apiService';
+import {
+  loadMappingsSnapshot,
+  loadPendingNodes,
+  saveMappingsSnapshot,
+  savePendingNodes,
+} from '../services/offlineCache';
 
 const STORAGE_KEY = 'prefill-mappings';
 
+/**
+ * localStorage key for a blueprint's mappings (the shared legacy key when unscoped)
+ */
+function getStorageKey(scope?: BlueprintRef): string {
+  return scope ? `${STORAGE_KEY}:${scope.tenantId}:${scope.blueprintId}` : STORAGE_KEY;
+}
+
+/**
+ * Loads a blueprint's mappings from localStorage
+ * Mappings saved before storage was scoped belong to the default blueprint,
+ * so that blueprint falls back to the legacy key
+ */
+function loadMappings(scope?: BlueprintRef): PrefillMapping[] {
+  try {
+    let stored = localStorage.getItem(getStorageKey(scope));
+    if (
+      stored === null &&
+      scope?.tenantId === DEFAULT_BLUEPRINT.tenantId &&
+      scope.blueprintId === DEFAULT_BLUEPRINT.blueprintId
+    ) {
+      stored = localStorage.getItem(STORAGE_KEY);
+    }
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Which side wins when resolving a conflict
+ * - local: overwrite the server with the local mappings
+ * - server: discard the local edits and take the server's mappings
+ */
+export type ConflictResolution = 'local' | 'server';
+
+/**
+ * Enables saving mappings to the blueprint API
+ */
+export interface MappingSyncOptions {
+  /** input_mapping version per node from the last blueprint load */
+  versions: Record<string, string>;
+  /** Turns a node's server-side input_mapping back into mappings (used for conflicts) */
+  parseInputMapping: (nodeId: string, inputMapping: AvantosInputMapping) => PrefillMapping[];
+  /** Called with a node's mappings once the server holds them (after a save or taking the server's side) */
+  onServerMappings?: (nodeId: string, nodeMappings: PrefillMapping[]) => void;
+}
+
+/**
+ * Checks whether a mapping targets the given form field
+ */
+function isForField(mapping: PrefillMapping, formId: string, fieldId: string): boolean {
+  return mapping.targetFormId === formId && mapping.targetFieldId === fieldId;
+}
+
+/**
+ * Checks whether two mappings read from the same source field
+ */
+function isSameSource(a: PrefillMapping, b: PrefillMapping): boolean {
+  return (
+    a.sourceType === b.sourceType &&
+    a.sourceFormId === b.sourceFormId &&
+    a.sourceId === b.sourceId &&
+    a.sourceFieldId === b.sourceFieldId
+  );
+}
+
+/**
+ * Rewrites the chain of one target field inside the flat mappings list
+ * Chain entries keep the slots they occupied so unrelated mappings don't move
+ */
+function replaceChain(
+  mappings: PrefillMapping[],
+  formId: string,
+  fieldId: string,
+  update: (chain: PrefillMapping[]) => PrefillMapping[]
+): PrefillMapping[] {
+  const chain = mappings.filter(m => isForField(m, formId, fieldId));
+  const nextChain = update(chain);
+
+  const result: PrefillMapping[] = [];
+  let chainIndex = 0;
+  mappings.forEach(m => {
+    if (!isForField(m, formId, fieldId)) {
+      result.push(m);
+    } else if (chainIndex < nextChain.length) {
+      result.push(nextChain[chainIndex++]);
+    }
+  });
+
+  // Any extra entries (the chain grew) go at the end
+  return [...result, ...nextChain.slice(chainIndex)];
+}
+
+/**
+ * Replaces all mappings that target one node
+ */
+function replaceNodeMappings(
+  mappings: PrefillMapping[],
+  nodeId: string,
+  nodeMappings: PrefillMapping[]
+): PrefillMapping[] {
+  return [...mappings.filter(m => m.targetFormId !== nodeId), ...nodeMappings];
+}
+
+/**
+ * Lists the nodes whose serialized input_mapping differs between two states
+ */
+function changedNodes(prev: PrefillMapping[], next: PrefillMapping[]): string[] {
+  const before = buildInputMappings(prev);
+  const after = buildInputMappings(next);
+  const nodeIds = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return Array.from(nodeIds).filter(
+    nodeId => JSON.stringify(before[nodeId] ?? {}) !== JSON.stringify(after[nodeId] ?? {})
+  );
+}
+
 interface UsePrefillMappingsResult {
   /** All prefill mappings */
   mappings: PrefillMapping[];
   /** Get mappings for a specific form */
   getMappingsForForm: (formId: string) => PrefillMapping[];
-  /** Get a specific mapping for a form field */
+  /** Get the primary (first) mapping for a form field */
   getMapping: (formId: string, fieldId: string) => PrefillMapping | undefined;
-  /** Set a mapping for a form field */
+  /** Get the ordered fallback chain for a form field */
+  getMappingChain: (formId: string, fieldId: string) => PrefillMapping[];
+  /** Set a mapping for a form field, replacing its whole chain */
   setMapping: (mapping: PrefillMapping) => void;
+  /** Replace a field's whole chain (an empty chain clears the field) */
+  setMappingChain: (formId: string, fieldId: string, chain: PrefillMapping[]) => void;
+  /** Append a fallback source to the end of a field's chain */
+  addFallbackMapping: (mapping: PrefillMapping) => void;
+  /** Move an entry within a field's chain */
+  moveMappingInChain: (formId: string, fieldId: string, fromIndex: number, toIndex: number) => void;
+  /** Remove a single entry from a field's chain */
+  removeMappingFromChain: (formId: string, fieldId: string, index: number) => void;
+  /** Replace one stored mapping in place, or remove it when the replacement is null */
+  replaceMapping: (mapping: PrefillMapping, replacement: PrefillMapping | null) => void;
   /** Clear a mapping for a form field */
   clearMapping: (formId: string, fieldId: string) => void;
   /** Clear all mappings for a form */
   clearAllMappingsForForm: (formId: string) => void;
   /** Clear all mappings */
   clearAllMappings: () => void;
+  /** Whether any writes to the server are in flight */
+  isSaving: boolean;
+  /** Message of the last failed (and rolled back) write */
+  syncError: string | null;
+  /** Writes rejected because someone else changed the node first */
+  conflicts: MappingConflict[];
+  /** Resolve a conflict by keeping one side */
+  resolveConflict: (nodeId: string, resolution: ConflictResolution) => void;
+  /** Nodes changed while the API was unreachable, waiting to be written */
+  pendingNodeIds: string[];
 }
 
 /**
  * Custom hook to manage prefill mappings
  * Persists mappings to localStorage for demo purposes
  *
+ * A target field may have several mappings forming an ordered fallback chain:
+ * at prefill time the first source with a non-empty value wins. Chain order is
+ * the order in which the entries appear in `mappings`.
+ *
+ * When `sync` is given, every change is also written to the blueprint API.
+ * Writes are optimistic: the UI updates at once, a failed write is rolled back,
+ * and a write rejected because the node's version moved on is reported as a conflict.
+ * A write that can't reach the API is kept instead of rolled back: the node is
+ * queued (in IndexedDB, so the queue survives a reload) and written again once
+ * the connection is back or the blueprint has been reloaded.
+ * Without `sync` nothing is written to the API, so nothing is queued either; a
+ * queue restored from an earlier session waits until `sync` is given.
+ *
+ * Mappings are stored per blueprint when `scope` is given; switching to another
+ * blueprint swaps in that blueprint's mappings and drops pending conflicts.
+ *
+ * @param sync - Optional API sync settings (localStorage only when omitted)
+ * @param scope - Blueprint the mappings belong to (one shared store when omitted)
  * @returns Object with mappings and functions to manage them
  *
  * @example
@@ -42,25 +214,221 @@ interface UsePrefillMappingsResult {
  *   };
  * }
  */
-export function usePrefillMappings(): UsePrefillMappingsResult {
-  const [mappings, setMappings] = useState<PrefillMapping[]>(() => {
-    // Load from localStorage on mount
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      return stored ? JSON.parse(stored) : [];
-    } catch {
-      return [];
-    }
-  });
+export function usePrefillMappings(
+  sync?: MappingSyncOptions,
+  scope?: BlueprintRef
+): UsePrefillMappingsResult {
+  const storageKey = getStorageKey(scope);
+
+  // Load from localStorage on mount
+  const [mappings, setMappingsState] = useState<PrefillMapping[]>(() => loadMappings(scope));
+  const [loadedKey, setLoadedKey] = useState(storageKey);
+
+  const [pendingWrites, setPendingWrites] = useState(0);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<MappingConflict[]>([]);
+  const [pendingNodeIds, setPendingNodeIds] = useState<string[]>([]);
+
+  // Refs let the stable callbacks below see the latest state synchronously
+  const mappingsRef = useRef(mappings);
+  const syncRef = useRef(sync);
+  syncRef.current = sync;
+  const scopeRef = useRef(scope);
+  scopeRef.current = scope;
+  const versionsRef = useRef<Record<string, string>>({});
+  const queuesRef = useRef<Record<string, Promise<void>>>({});
+  const pendingRef = useRef<string[]>([]);
+
+  // Switched blueprint: load its mappings before anything is persisted under the new key
+  if (loadedKey !== storageKey) {
+    const next = loadMappings(scope);
+    mappingsRef.current = next;
+    versionsRef.current = {};
+    pendingRef.current = [];
+    setPendingNodeIds([]);
+    setLoadedKey(storageKey);
+    setMappingsState(next);
+    setConflicts([]);
+    setSyncError(null);
+  }
 
   // Persist to localStorage whenever mappings change
   useEffect(() => {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+      localStorage.setItem(storageKey, JSON.stringify(mappings));
     } catch (err) {
       console.error('Failed to save mappings to localStorage:', err);
     }
-  }, [mappings]);
+    saveMappingsSnapshot(scope ?? DEFAULT_BLUEPRINT, mappings);
+  }, [mappings, storageKey]);
+
+  /**
+   * Replace the local state without writing to the server
+   */
+  const setLocalMappings = useCallback((next: PrefillMapping[]) => {
+    mappingsRef.current = next;
+    setMappingsState(next);
+  }, []);
+
+  /**
+   * Replace the queue of nodes waiting for the API, keeping a copy in IndexedDB
+   */
+  const setPending = useCallback((update: (ids: string[]) => string[]) => {
+    const current = pendingRef.current;
+    const next = update(current);
+    if (next.length === current.length && next.every((id, i) => id === current[i])) return;
+    pendingRef.current = next;
+    setPendingNodeIds(next);
+    savePendingNodes(scopeRef.current ?? DEFAULT_BLUEPRINT, next);
+  }, []);
+
+  /**
+   * Write one node's current mappings to the server
+   * Writes to the same node are queued so each one sends the latest version
+   *
+   * @param nodeId - The node to write
+   * @param rollbackTo - The node's mappings to restore if the write fails
+   */
+  const pushNode = useCallback((nodeId: string, rollbackTo: PrefillMapping[]) => {
+    const key = getStorageKey(scopeRef.current);
+    const ref = scopeRef.current ?? DEFAULT_BLUEPRINT;
+    const write = async () => {
+      const options = syncRef.current;
+      // Writes still queued when the user switched blueprints are dropped
+      if (!options || getStorageKey(scopeRef.current) !== key) return;
+
+      const written = mappingsRef.current.filter(m => m.targetFormId === nodeId);
+      const inputMapping = buildInputMappings(written)[nodeId] ?? {};
+      const version = versionsRef.current[nodeId];
+
+      setPendingWrites(n => n + 1);
+      try {
+        versionsRef.current[nodeId] =
+          version === undefined
+            ? await saveNodeInputMapping(nodeId, inputMapping, ref)
+            : Object.keys(inputMapping).length === 0
+              ? await deleteNodeInputMapping(nodeId, version, ref)
+              : await updateNodeInputMapping(nodeId, inputMapping, version, ref);
+        options.onServerMappings?.(nodeId, written);
+        setSyncError(null);
+        setPending(ids => ids.filter(id => id !== nodeId));
+      } catch (err) {
+        if (isUnreachableError(err)) {
+          // Keep the edit and try again when the API is back
+          setPending(ids => (ids.includes(nodeId) ? ids : [...ids, nodeId]));
+        } else if (err instanceof ConflictError) {
+          const conflict: MappingConflict = {
+            nodeId,
+            local: mappingsRef.current.filter(m => m.targetFormId === nodeId),
+            server: options.parseInputMapping(nodeId, err.current.inputMapping),
+            serverVersion: err.current.version,
+          };
+          setConflicts(prev => [...prev.filter(c => c.nodeId !== nodeId), conflict]);
+        } else {
+          setLocalMappings(replaceNodeMappings(mappingsRef.current, nodeId, rollbackTo));
+          setSyncError(err instanceof Error ? err.message : 'Failed to save mappings');
+        }
+      } finally {
+        setPendingWrites(n => n - 1);
+      }
+    };
+
+    const queued = (queuesRef.current[nodeId] ?? Promise.resolve()).then(write);
+    queuesRef.current[nodeId] = queued;
+  }, [setLocalMappings, setPending]);
+
+  /**
+   * Write every queued node again
+   * The queue is emptied first; writes that still can't get through re-queue themselves
+   */
+  const replayPending = useCallback(() => {
+    if (!syncRef.current) return;
+    const ids = pendingRef.current;
+    setPending(() => []);
+    ids.forEach(nodeId =>
+      pushNode(nodeId, mappingsRef.current.filter(m => m.targetFormId === nodeId))
+    );
+  }, [pushNode, setPending]);
+
+  // Adopt versions from each (re)load of the blueprint; a successful load also
+  // means the API is reachable again
+  useEffect(() => {
+    if (sync) {
+      versionsRef.current = { ...versionsRef.current, ...sync.versions };
+      replayPending();
+    }
+  }, [sync?.versions]);
+
+  useEffect(() => {
+    window.addEventListener('online', replayPending);
+    return () => window.removeEventListener('online', replayPending);
+  }, [replayPending]);
+
+  // Restore what an earlier session left behind: the offline queue, and the
+  // mappings themselves if localStorage lost them
+  useEffect(() => {
+    const ref = scope ?? DEFAULT_BLUEPRINT;
+    const isCurrent = () => getStorageKey(scopeRef.current) === storageKey;
+
+    // A store that can't be read just means nothing is restored
+    loadPendingNodes(ref)
+      .catch(() => [] as string[])
+      .then(ids => {
+        if (!isCurrent() || ids.length === 0) return;
+        setPending(current => [...current, ...ids.filter(id => !current.includes(id))]);
+        replayPending();
+      });
+
+    if (mappingsRef.current.length === 0) {
+      loadMappingsSnapshot(ref)
+        .catch(() => null)
+        .then(stored => {
+          if (isCurrent() && stored && stored.length > 0 && mappingsRef.current.length === 0) {
+            setLocalMappings(stored);
+          }
+        });
+    }
+  }, [storageKey]);
+
+  /**
+   * Apply a change locally and, when syncing, write every node it touched
+   * All mutations go through here instead of setting state directly
+   */
+  const setMappings = useCallback(
+    (update: (prev: PrefillMapping[]) => PrefillMapping[]) => {
+      const prev = mappingsRef.current;
+      const next = update(prev);
+      setLocalMappings(next);
+
+      if (syncRef.current) {
+        changedNodes(prev, next).forEach(nodeId =>
+          pushNode(nodeId, prev.filter(m => m.targetFormId === nodeId))
+        );
+      }
+    },
+    [setLocalMappings, pushNode]
+  );
+
+  /**
+   * Resolve a conflict by keeping the local or the server mappings
+   */
+  const resolveConflict = useCallback(
+    (nodeId: string, resolution: ConflictResolution) => {
+      const conflict = conflicts.find(c => c.nodeId === nodeId);
+      if (!conflict) return;
+
+      setConflicts(prev => prev.filter(c => c.nodeId !== nodeId));
+      versionsRef.current[nodeId] = conflict.serverVersion;
+
+      if (resolution === 'server') {
+        syncRef.current?.onServerMappings?.(nodeId, conflict.server);
+        setLocalMappings(replaceNodeMappings(mappingsRef.current, nodeId, conflict.server));
+      } else {
+        pushNode(nodeId, conflict.server);
+      }
+    },
+    [conflicts, setLocalMappings, pushNode]
+  );
 
   /**
    * Get all mappings for a specific form
@@ -84,9 +452,19 @@ export function usePrefillMappings(): UsePrefillMappingsResult {
     [mappings]
   );
 
+  /**
+   * Get the ordered fallback chain for a form field
+   */
+  const getMappingChain = useCallback(
+    (formId: string, fieldId: string): PrefillMapping[] => {
+      return mappings.filter(m => isForField(m, formId, fieldId));
+    },
+    [mappings]
+  );
+
   /**
    * Set a mapping for a form field
-   * Replaces existing mapping if one exists
+   * Replaces the field's existing mapping (or whole fallback chain) if one exists
    */
   const setMapping = useCallback((mapping: PrefillMapping) => {
     setMappings(prev => {
@@ -100,7 +478,83 @@ export function usePrefillMappings(): UsePrefillMappingsResult {
       );
       return [...filtered, mapping];
     });
-  }, []);
+  }, [setMappings]);
+
+  /**
+   * Replace a field's whole chain, e.g. when accepting the server's version
+   */
+  const setMappingChain = useCallback(
+    (formId: string, fieldId: string, chain: PrefillMapping[]) => {
+      setMappings(prev => replaceChain(prev, formId, fieldId, () => chain));
+    },
+    [setMappings]
+  );
+
+  /**
+   * Append a fallback source to a field's chain
+   * If the chain already reads from the same source, that entry is replaced in place
+   */
+  const addFallbackMapping = useCallback((mapping: PrefillMapping) => {
+    setMappings(prev =>
+      replaceChain(prev, mapping.targetFormId, mapping.targetFieldId, chain => {
+        const existingIndex = chain.findIndex(m => isSameSource(m, mapping));
+        if (existingIndex === -1) {
+          return [...chain, mapping];
+        }
+        return chain.map((m, i) => (i === existingIndex ? mapping : m));
+      })
+    );
+  }, [setMappings]);
+
+  /**
+   * Move an entry within a field's chain
+   */
+  const moveMappingInChain = useCallback(
+    (formId: string, fieldId: string, fromIndex: number, toIndex: number) => {
+      setMappings(prev =>
+        replaceChain(prev, formId, fieldId, chain => {
+          if (
+            fromIndex < 0 ||
+            fromIndex >= chain.length ||
+            toIndex < 0 ||
+            toIndex >= chain.length
+          ) {
+            return chain;
+          }
+          const next = [...chain];
+          const [moved] = next.splice(fromIndex, 1);
+          next.splice(toIndex, 0, moved);
+          return next;
+        })
+      );
+    },
+    [setMappings]
+  );
+
+  /**
+   * Remove a single entry from a field's chain
+   */
+  const removeMappingFromChain = useCallback(
+    (formId: string, fieldId: string, index: number) => {
+      setMappings(prev =>
+        replaceChain(prev, formId, fieldId, chain => chain.filter((_, i) => i !== index))
+      );
+    },
+    [setMappings]
+  );
+
+  /**
+   * Replace a single stored mapping, keeping its slot (and so its place in a chain)
+   * Used to repair one broken entry without touching the rest of its chain
+   */
+  const replaceMapping = useCallback(
+    (mapping: PrefillMapping, replacement: PrefillMapping | null) => {
+      setMappings(prev =>
+        prev.flatMap(m => (m !== mapping ? [m] : replacement ? [replacement] : []))
+      );
+    },
+    [setMappings]
+  );
 
   /**
    * Clear a specific mapping
@@ -111,29 +565,40 @@ export function usePrefillMappings(): UsePrefillMappingsResult {
         m => !(m.targetFormId === formId && m.targetFieldId === fieldId)
       )
     );
-  }, []);
+  }, [setMappings]);
 
   /**
    * Clear all mappings for a form
    */
   const clearAllMappingsForForm = useCallback((formId: string) => {
     setMappings(prev => prev.filter(m => m.targetFormId !== formId));
-  }, []);
+  }, [setMappings]);
 
   /**
    * Clear all mappings
    */
   const clearAllMappings = useCallback(() => {
-    setMappings([]);
-  }, []);
+    setMappings(() => []);
+  }, [setMappings]);
 
   return {
     mappings,
     getMappingsForForm,
     getMapping,
+    getMappingChain,
     setMapping,
+    setMappingChain,
+    addFallbackMapping,
+    moveMappingInChain,
+    removeMappingFromChain,
+    replaceMapping,
     clearMapping,
     clearAllMappingsForForm,
     clearAllMappings,
+    isSaving: pendingWrites > 0,
+    syncError,
+    conflicts,
+    resolveConflict,
+    pendingNodeIds,
   };
 }
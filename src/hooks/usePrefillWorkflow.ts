@@ -1,5 +1,12 @@
 import { useState, useCallback } from 'react';
 import { FormField, PrefillMapping, Form } from '../types';
+import { findField } from '../services/fieldTree';
+
+/**
+ * Whether the modal replaces a field's mapping, appends a fallback to its chain,
+ * or re-points one (broken) entry of the chain at a new source
+ */
+export type PrefillModalMode = 'replace' | 'fallback' | 'repoint';
 
 /**
  * Custom hook to manage the prefill workflow state and interactions
@@ -11,55 +18,125 @@ import { FormField, PrefillMapping, Form } from '../types';
 export function usePrefillWorkflow(
   selectedForm: Form | null,
   selectedFormId: string | null,
-  setMapping: (mapping: PrefillMapping) => void
+  setMapping: (mapping: PrefillMapping) => void,
+  addFallbackMapping?: (mapping: PrefillMapping) => void,
+  replaceMapping?: (mapping: PrefillMapping, replacement: PrefillMapping | null) => void
 ) {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedField, setSelectedField] = useState<FormField | null>(null);
+  const [modalMode, setModalMode] = useState<PrefillModalMode>('replace');
+  const [repointedMapping, setRepointedMapping] = useState<PrefillMapping | null>(null);
 
   /**
-   * Opens the data source modal for a specific field
-   * @param fieldId - The ID of the field to configure
+   * Opens the data source modal for a field in the given mode
    */
-  const handleOpenModal = useCallback((fieldId: string) => {
-    if (!selectedForm) return;
+  const openModal = useCallback((
+    fieldId: string,
+    mode: PrefillModalMode,
+    form: Form | null = selectedForm
+  ) => {
+    if (!form) return;
 
-    const field = selectedForm.fields.find(f => f.id === fieldId);
+    const field = findField(form.fields, fieldId);
     if (!field) return;
 
     setSelectedField(field);
+    setModalMode(mode);
     setIsModalOpen(true);
   }, [selectedForm]);
 
+  /**
+   * Opens the data source modal for a specific field
+   * @param fieldId - The ID of the field to configure
+   */
+  const handleOpenModal = useCallback(
+    (fieldId: string) => openModal(fieldId, 'replace'),
+    [openModal]
+  );
+
+  /**
+   * Opens the data source modal to append a fallback source to a field's chain
+   * @param fieldId - The ID of the field to configure
+   */
+  const handleOpenFallbackModal = useCallback(
+    (fieldId: string) => openModal(fieldId, 'fallback'),
+    [openModal]
+  );
+
+  /**
+   * Opens the data source modal to pick a new source for one stored mapping
+   * The mapping's form need not be selected yet, so it is passed along
+   * @param mapping - The chain entry to re-point
+   * @param form - The form the mapping prefills
+   */
+  const handleOpenRepointModal = useCallback(
+    (mapping: PrefillMapping, form: Form) => {
+      setRepointedMapping(mapping);
+      openModal(mapping.targetFieldId, 'repoint', form);
+    },
+    [openModal]
+  );
+
   /**
    * Closes the modal and resets selected field
    */
   const handleCloseModal = useCallback(() => {
     setIsModalOpen(false);
     setSelectedField(null);
+    setModalMode('replace');
+    setRepointedMapping(null);
   }, []);
 
   /**
    * Handles field selection from the data source modal
-   * Creates a complete mapping and submits it
+   * Creates a complete mapping and submits it, either replacing the field's
+   * mapping, appending it as a fallback or re-pointing one entry, depending on
+   * how the modal was opened
    * @param partialMapping - Mapping data without targetFormId
    */
   const handleSelectMapping = useCallback((
     partialMapping: Omit<PrefillMapping, 'targetFormId'>
   ) => {
+    if (modalMode === 'repoint' && repointedMapping && replaceMapping) {
+      replaceMapping(repointedMapping, {
+        ...partialMapping,
+        targetFormId: repointedMapping.targetFormId,
+      });
+      handleCloseModal();
+      return;
+    }
+
     if (!selectedFormId) return;
 
-    setMapping({
+    const mapping = {
       ...partialMapping,
       targetFormId: selectedFormId,
-    });
+    };
+
+    if (modalMode === 'fallback' && addFallbackMapping) {
+      addFallbackMapping(mapping);
+    } else {
+      setMapping(mapping);
+    }
 
     handleCloseModal();
-  }, [selectedFormId, setMapping, handleCloseModal]);
+  }, [
+    selectedFormId,
+    modalMode,
+    repointedMapping,
+    setMapping,
+    addFallbackMapping,
+    replaceMapping,
+    handleCloseModal,
+  ]);
 
   return {
     isModalOpen,
     selectedField,
+    modalMode,
     handleOpenModal,
+    handleOpenFallbackModal,
+    handleOpenRepointModal,
     handleCloseModal,
     handleSelectMapping,
   };
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMockApi } from '../mockApi';
+import { avantosBlueprint, createLargeBlueprint } from '../fixtures';
+
+describe('createMockApi', () => {
+  const base = `/api/v1/${avantosBlueprint.tenant_id}`;
+  const graphUrl = `${base}/actions/blueprints/${avantosBlueprint.id}/graph`;
+  const nodeId = avantosBlueprint.nodes[0].id;
+  const nodeUrl = `${base}/actions/blueprints/${avantosBlueprint.id}/nodes/${nodeId}/input_mapping`;
+
+  it('serves the recorded blueprint with input_mapping versions', async () => {
+    const api = createMockApi();
+
+    const body = await (await api.fetch(graphUrl)).json();
+
+    expect(body.nodes).toHaveLength(6);
+    expect(body.nodes[0].data.input_mapping_version).toBe('1');
+  });
+
+  it('routes by tenant and blueprint', async () => {
+    const api = createMockApi();
+
+    const otherTenant = `/api/v1/t_other/actions/blueprints/${avantosBlueprint.id}/graph`;
+    expect((await api.fetch(otherTenant)).status).toBe(404);
+    expect(await (await api.fetch(`${base}/actions/blueprints`)).json()).toEqual([
+      { id: avantosBlueprint.id, name: avantosBlueprint.name, description: avantosBlueprint.description },
+    ]);
+  });
+
+  it('versions writes and rejects stale ones', async () => {
+    const api = createMockApi();
+    const put = (version: string) =>
+      api.fetch(nodeUrl, {
+        method: 'PUT',
+        headers: { 'If-Match': `"${version}"` },
+        body: JSON.stringify({ input_mapping: { email: { type: 'constant', value: 'x' } } }),
+      });
+
+    expect((await put('1')).headers.get('ETag')).toBe('"2"');
+    expect((await put('1')).status).toBe(412);
+    expect(api.getVersion(nodeId)).toBe('2');
+  });
+
+  it('rejects writes without an input_mapping object', async () => {
+    const api = createMockApi();
+    const put = (body: string) =>
+      api.fetch(nodeUrl, { method: 'PUT', headers: { 'If-Match': '"1"' }, body });
+
+    expect((await put('{}')).status).toBe(400);
+    expect((await put('{ "input_mapping": [] }')).status).toBe(400);
+    expect((await put('not json')).status).toBe(400);
+    expect(api.getVersion(nodeId)).toBe('1');
+    expect(api.getInputMapping(nodeId)).toEqual(avantosBlueprint.nodes[0].data.input_mapping);
+  });
+
+  it('applies scenario switches', async () => {
+    const api = createMockApi({ scenario: { errorStatus: 503 } });
+    expect((await api.fetch(graphUrl)).status).toBe(503);
+
+    api.setScenario({ offline: true });
+    await expect(api.fetch(graphUrl)).rejects.toBeInstanceOf(TypeError);
+
+    api.setScenario({ largeGraphNodes: 120 });
+    expect((await (await api.fetch(graphUrl)).json()).nodes).toHaveLength(120);
+  });
+
+  it('delays responses and honours cancellation', async () => {
+    const api = createMockApi({ scenario: { latencyMs: 1000 } });
+    const controller = new AbortController();
+
+    const pending = api.fetch(graphUrl, { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('stops listening for cancellation once the delay is over', async () => {
+    const api = createMockApi({ scenario: { latencyMs: 1 } });
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+
+    await api.fetch(graphUrl, { signal: controller.signal });
+
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+});
+
+describe('createLargeBlueprint', () => {
+  it('builds layered dependencies that only point backwards', () => {
+    const blueprint = createLargeBlueprint(35);
+    const index = (id: string) => Number(id.replace('form-', ''));
+
+    expect(blueprint.nodes).toHaveLength(35);
+    expect(blueprint.nodes.slice(0, 10).every(node => node.data.prerequisites.length === 0)).toBe(true);
+    blueprint.edges.forEach(edge => expect(index(edge.source)).toBeLessThan(index(edge.target)));
+  });
+});
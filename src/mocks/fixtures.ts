@@ -0,0 +1,179 @@
+import {
+  MockServerFormTemplate,
+  MockServerGlobalPropertiesResponse,
+  MockServerNode,
+  MockServerResponse,
+} from '../types';
+
+/**
+ * Recorded responses of the Avantos mock server, served by the bundled mock API
+ *
+ * The blueprint is the challenge's "Onboard Customer" graph:
+ * Form A → Form B → Form D → Form F, and Form A → Form C → Form E → Form F,
+ * all built from one shared form template.
+ */
+
+const TENANT_ID = 't_01jk71bxfsewajm2vb41twnk2h';
+const TEMPLATE_ID = 'f_01jk7ap2r3ewf9gx6a9r09gzjv';
+
+const formTemplate: MockServerFormTemplate = {
+  id: TEMPLATE_ID,
+  name: 'test form',
+  description: 'test',
+  is_reusable: false,
+  field_schema: {
+    type: 'object',
+    properties: {
+      button: { avantos_type: 'button', title: 'Button', type: 'object' },
+      dynamic_checkbox_group: {
+        avantos_type: 'checkbox-group',
+        items: { enum: ['foo', 'bar', 'foobar'], type: 'string' },
+        type: 'array',
+        title: 'Dynamic Checkbox Group',
+      },
+      dynamic_object: {
+        avantos_type: 'object-enum',
+        enum: null,
+        title: 'Dynamic Object',
+        type: 'object',
+      },
+      email: { avantos_type: 'short-text', format: 'email', title: 'Email', type: 'string' },
+      id: { avantos_type: 'short-text', title: 'ID', type: 'string' },
+      multi_select: {
+        avantos_type: 'multi-select',
+        items: { enum: ['foo', 'bar', 'foobar'], type: 'string' },
+        type: 'array',
+        title: 'Multi Select',
+      },
+      name: { avantos_type: 'short-text', title: 'Name', type: 'string' },
+      notes: { avantos_type: 'multi-line-text', title: 'Notes', type: 'string' },
+    },
+    required: ['id', 'name', 'email'],
+  },
+  ui_schema: { type: 'VerticalLayout', elements: [] },
+  dynamic_field_config: {},
+};
+
+/**
+ * Builds a form node of the shared template
+ */
+function formNode(id: string, name: string, prerequisites: string[], x: number, y: number): MockServerNode {
+  return {
+    id,
+    type: 'form',
+    position: { x, y },
+    data: {
+      id: `bp_c_${id.slice(-26)}`,
+      component_key: id,
+      component_type: 'form',
+      component_id: TEMPLATE_ID,
+      name,
+      prerequisites,
+      permitted_roles: [],
+      input_mapping: {},
+      sla_duration: { number: 0, unit: 'minutes' },
+      approval_required: false,
+      approval_roles: [],
+    },
+  };
+}
+
+const FORM_A = 'form-47c61d17-62b0-4c42-8ca2-0eff641c9d88';
+const FORM_B = 'form-a4750667-d774-40fb-9b0a-44f8539ff6c4';
+const FORM_C = 'form-7c26f280-7bff-40e3-b9a5-0533136f52c3';
+const FORM_D = 'form-0f58384c-4966-4ce6-9ec2-40b96d61f745';
+const FORM_E = 'form-e15d42df-c7c0-4819-9391-53730e6d47b3';
+const FORM_F = 'form-bad163fd-09bd-4710-ad80-245f31b797d5';
+
+/**
+ * The blueprint served for the default tenant and blueprint
+ */
+export const avantosBlueprint: MockServerResponse = {
+  $schema: 'http://localhost:3000/schemas/ActionBlueprintGraphDescription.json',
+  id: 'ab_01jk7at9w9eweev3fq8rrv3sbv',
+  tenant_id: TENANT_ID,
+  name: 'Onboard Customer 0',
+  description: 'Automated test action',
+  category: 'Category 4',
+  nodes: [
+    formNode(FORM_A, 'Form A', [], 1437, 264),
+    formNode(FORM_B, 'Form B', [FORM_A], 1764, 130),
+    formNode(FORM_C, 'Form C', [FORM_A], 1764, 415),
+    formNode(FORM_D, 'Form D', [FORM_B], 2090, 130),
+    formNode(FORM_E, 'Form E', [FORM_C], 2090, 415),
+    formNode(FORM_F, 'Form F', [FORM_D, FORM_E], 2417, 264),
+  ],
+  edges: [
+    { source: FORM_A, target: FORM_B },
+    { source: FORM_A, target: FORM_C },
+    { source: FORM_B, target: FORM_D },
+    { source: FORM_C, target: FORM_E },
+    { source: FORM_D, target: FORM_F },
+    { source: FORM_E, target: FORM_F },
+  ],
+  forms: [formTemplate],
+  branches: [],
+  triggers: [],
+};
+
+/**
+ * The global properties catalog served for every tenant
+ */
+export const avantosGlobalProperties: MockServerGlobalPropertiesResponse = {
+  action_properties: [
+    { name: 'id', type: 'string' },
+    { name: 'name', type: 'string' },
+    { name: 'status', type: 'string' },
+    { name: 'created_at', type: 'string', format: 'date-time' },
+    { name: 'updated_at', type: 'string', format: 'date-time' },
+    { name: 'due_date', type: 'string', format: 'date' },
+  ],
+  client_organisation_properties: [
+    { name: 'id', type: 'string' },
+    { name: 'name', type: 'string' },
+    { name: 'industry', type: 'string' },
+    { name: 'size', type: 'string' },
+    { name: 'created_date', type: 'string', format: 'date' },
+    { name: 'contact_email', type: 'string', format: 'email' },
+  ],
+};
+
+/**
+ * Generates a blueprint with `nodeCount` forms, for exercising large graphs
+ *
+ * Nodes are laid out in layers of 10; each node depends on up to two nodes of
+ * the layer before, so every node has a long chain of ancestors.
+ *
+ * @param nodeCount - Number of form nodes
+ * @param blueprintId - ID of the generated blueprint
+ */
+export function createLargeBlueprint(
+  nodeCount: number,
+  blueprintId = 'ab_large'
+): MockServerResponse {
+  const LAYER_SIZE = 10;
+  const nodes: MockServerNode[] = [];
+  const edges: MockServerResponse['edges'] = [];
+
+  for (let i = 0; i < nodeCount; i++) {
+    const layer = Math.floor(i / LAYER_SIZE);
+    const slot = i % LAYER_SIZE;
+    const prerequisites =
+      layer === 0
+        ? []
+        : Array.from(
+            new Set([(layer - 1) * LAYER_SIZE + slot, (layer - 1) * LAYER_SIZE + ((slot + 1) % LAYER_SIZE)])
+          ).map(index => `form-${index}`);
+
+    nodes.push(formNode(`form-${i}`, `Form ${i}`, prerequisites, layer * 300, slot * 150));
+    prerequisites.forEach(source => edges.push({ source, target: `form-${i}` }));
+  }
+
+  return {
+    ...avantosBlueprint,
+    id: blueprintId,
+    name: `Large Blueprint (${nodeCount} forms)`,
+    nodes,
+    edges,
+  };
+}
@@ -0,0 +1,273 @@
+import { MockServerGlobalPropertiesResponse, MockServerResponse } from '../types';
+import { avantosBlueprint, avantosGlobalProperties, createLargeBlueprint } from './fixtures';
+
+/**
+ * Switches that make the mock API misbehave in realistic ways
+ */
+export interface MockScenario {
+  /** Delay before every response (ms) */
+  latencyMs?: number;
+  /** Answer every request with this HTTP status */
+  errorStatus?: number;
+  /** Fail every request with a network error, as if the server were down */
+  offline?: boolean;
+  /** Serve a generated graph with this many forms instead of the stored blueprint */
+  largeGraphNodes?: number;
+}
+
+/**
+ * Named scenarios, selectable with MOCK_SCENARIO when running `npm run dev:mock`
+ */
+export const MOCK_SCENARIOS: Record<string, MockScenario> = {
+  normal: {},
+  slow: { latencyMs: 2000 },
+  error: { errorStatus: 500 },
+  offline: { offline: true },
+  large: { largeGraphNodes: 5000 },
+};
+
+export interface MockApiOptions {
+  /** Blueprints to serve, addressed by their `tenant_id` and `id` (defaults to the recorded one) */
+  blueprints?: MockServerResponse[];
+  /** Global properties catalog; the route answers 404 when null */
+  globalProperties?: MockServerGlobalPropertiesResponse | null;
+  /** Initial scenario */
+  scenario?: MockScenario;
+}
+
+const BLUEPRINT_ROUTE = /\/v1\/([^/]+)\/actions\/blueprints(?:\/([^/]+)(\/graph|\/nodes\/([^/]+)\/input_mapping))?$/;
+const GLOBAL_PROPERTIES_ROUTE = /\/v1\/([^/]+)\/global_properties$/;
+
+/**
+ * Reads the input_mapping object from a write request body
+ * Returns null when the body isn't JSON or has no input_mapping object
+ */
+function readInputMapping(body: string | null): Record<string, unknown> | null {
+  try {
+    const inputMapping = JSON.parse(body ?? '').input_mapping;
+    return typeof inputMapping === 'object' && inputMapping !== null && !Array.isArray(inputMapping)
+      ? inputMapping
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * In-process implementation of the blueprint API
+ *
+ * Serves the blueprint listing, the graph, the global properties catalog and
+ * the per-node input_mapping routes with ETag versioning, so optimistic writes
+ * and conflicts behave as they do against the real server. The same handler
+ * backs `npm run dev:mock` (see mockApiPlugin) and tests, where it replaces `fetch`.
+ *
+ * @example
+ * const api = createMockApi({ blueprints: [blueprint] });
+ * vi.stubGlobal('fetch', vi.fn(api.fetch));
+ * api.setScenario({ latencyMs: 50, errorStatus: 503 });
+ * api.editNode('form-a', { email: { type: 'constant', value: 'x' } }); // Another user's edit
+ */
+export function createMockApi(options: MockApiOptions = {}) {
+  const blueprints: MockServerResponse[] = JSON.parse(
+    JSON.stringify(options.blueprints ?? [avantosBlueprint])
+  );
+  const globalProperties =
+    options.globalProperties === undefined ? avantosGlobalProperties : options.globalProperties;
+  let scenario: MockScenario = options.scenario ?? {};
+  let largeBlueprint: MockServerResponse | null = null;
+  let nextFailure: number | null = null;
+  let injectedFailures = { status: 0, remaining: 0 };
+
+  // input_mapping versions per blueprint and node
+  const versions = new Map<MockServerResponse, Record<string, number>>();
+  const versionsOf = (blueprint: MockServerResponse) => {
+    if (!versions.has(blueprint)) {
+      versions.set(
+        blueprint,
+        Object.fromEntries(blueprint.nodes.map(node => [node.id, 1]))
+      );
+    }
+    return versions.get(blueprint)!;
+  };
+
+  const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+
+  const findBlueprint = (tenantId: string, blueprintId: string) =>
+    blueprints.find(bp => bp.tenant_id === tenantId && bp.id === blueprintId);
+
+  const findNode = (blueprint: MockServerResponse, nodeId: string) =>
+    blueprint.nodes.find(node => node.id === nodeId);
+
+  const nodeState = (blueprint: MockServerResponse, nodeId: string, status = 200) =>
+    json({ input_mapping: findNode(blueprint, nodeId)!.data.input_mapping }, status, {
+      ETag: `"${versionsOf(blueprint)[nodeId]}"`,
+    });
+
+  /**
+   * The blueprint tests address by node ID alone: the given one, else the first
+   */
+  const defaultBlueprint = (blueprintId?: string) =>
+    (blueprintId && blueprints.find(bp => bp.id === blueprintId)) || blueprints[0];
+
+  /**
+   * Handles a request the way the API would (scenario switches aside)
+   */
+  function route(url: string, method: string, headers: Headers, body: string | null): Response {
+    const globalMatch = url.match(GLOBAL_PROPERTIES_ROUTE);
+    if (globalMatch && method === 'GET') {
+      return globalProperties ? json(globalProperties) : json({ error: 'Not found' }, 404);
+    }
+
+    const match = url.match(BLUEPRINT_ROUTE);
+    if (!match) {
+      return json({ error: 'Not found' }, 404);
+    }
+    const [, tenantId, blueprintId, resource, nodeId] = match.map(part =>
+      part === undefined ? part : decodeURIComponent(part)
+    );
+
+    // Listing
+    if (!blueprintId) {
+      if (method !== 'GET') return json({ error: 'Method not allowed' }, 405);
+      const listed = blueprints.filter(bp => bp.tenant_id === tenantId);
+      if (scenario.largeGraphNodes) {
+        listed.push(createLargeBlueprint(scenario.largeGraphNodes));
+      }
+      return json(listed.map(({ id, name, description }) => ({ id, name, description })));
+    }
+
+    // A large-graph scenario replaces every graph, so existing links keep working
+    let blueprint = findBlueprint(tenantId, blueprintId);
+    if (scenario.largeGraphNodes && resource === '/graph' && method === 'GET') {
+      if (largeBlueprint?.nodes.length !== scenario.largeGraphNodes) {
+        largeBlueprint = createLargeBlueprint(scenario.largeGraphNodes);
+      }
+      blueprint = largeBlueprint;
+    }
+    if (!blueprint) {
+      return json({ error: `Blueprint ${blueprintId} not found` }, 404);
+    }
+    const nodeVersions = versionsOf(blueprint);
+
+    if (resource === '/graph') {
+      if (method !== 'GET') return json({ error: 'Method not allowed' }, 405);
+      return json({
+        ...blueprint,
+        nodes: blueprint.nodes.map(node => ({
+          ...node,
+          data: { ...node.data, input_mapping_version: String(nodeVersions[node.id]) },
+        })),
+      });
+    }
+
+    const node = nodeId ? findNode(blueprint, nodeId) : undefined;
+    if (!nodeId || !node) {
+      return json({ error: 'Not found' }, 404);
+    }
+
+    if (method === 'GET') {
+      return nodeState(blueprint, nodeId);
+    }
+
+    if (nextFailure !== null) {
+      const status = nextFailure;
+      nextFailure = null;
+      return json({ error: 'Injected failure' }, status);
+    }
+
+    // Preconditions: If-None-Match: * only succeeds while the node has no mappings
+    const ifMatch = headers.get('If-Match')?.replace(/"/g, '');
+    const isEmpty = Object.keys(node.data.input_mapping).length === 0;
+    if (headers.get('If-None-Match') === '*' ? !isEmpty : ifMatch !== String(nodeVersions[nodeId])) {
+      return nodeState(blueprint, nodeId, 412);
+    }
+
+    if (method === 'DELETE') {
+      node.data.input_mapping = {};
+    } else if (method === 'POST' || method === 'PUT') {
+      const inputMapping = readInputMapping(body);
+      if (!inputMapping) {
+        return json({ error: 'Body must be JSON with an input_mapping object' }, 400);
+      }
+      node.data.input_mapping = inputMapping;
+    } else {
+      return json({ error: 'Method not allowed' }, 405);
+    }
+
+    nodeVersions[nodeId] += 1;
+    return nodeState(blueprint, nodeId);
+  }
+
+  /**
+   * Drop-in replacement for `fetch`
+   */
+  async function handle(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = (init.method ?? 'GET').toUpperCase();
+    const signal = init.signal;
+
+    if (scenario.latencyMs) {
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(new DOMException('Aborted', 'AbortError'));
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, scenario.latencyMs);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+    if (signal?.aborted) {
+      throw new DOMException('Aborted', 'AbortError');
+    }
+    if (scenario.offline) {
+      throw new TypeError('Failed to fetch');
+    }
+    if (injectedFailures.remaining > 0) {
+      injectedFailures.remaining -= 1;
+      return json({ error: 'Injected failure' }, injectedFailures.status);
+    }
+    if (scenario.errorStatus) {
+      return json({ error: 'Scenario failure' }, scenario.errorStatus);
+    }
+
+    const body = typeof init.body === 'string' ? init.body : null;
+    return route(url, method, new Headers(init.headers), body);
+  }
+
+  return {
+    fetch: handle,
+    /** Switches the scenario for all following requests */
+    setScenario(next: MockScenario) {
+      scenario = next;
+    },
+    /** Current input_mapping of a node */
+    getInputMapping: (nodeId: string, blueprintId?: string) =>
+      findNode(defaultBlueprint(blueprintId), nodeId)?.data.input_mapping,
+    /** Current version of a node */
+    getVersion: (nodeId: string, blueprintId?: string) =>
+      String(versionsOf(defaultBlueprint(blueprintId))[nodeId]),
+    /** Simulates another user saving a node */
+    editNode(nodeId: string, inputMapping: Record<string, unknown>, blueprintId?: string) {
+      const blueprint = defaultBlueprint(blueprintId);
+      findNode(blueprint, nodeId)!.data.input_mapping = inputMapping;
+      versionsOf(blueprint)[nodeId] += 1;
+    },
+    /** Makes the next write fail with the given HTTP status */
+    failNextWrite(status: number) {
+      nextFailure = status;
+    },
+    /** Makes the next `count` requests of any kind fail with the given HTTP status */
+    failNextRequests(status: number, count = 1) {
+      injectedFailures = { status, remaining: count };
+    },
+  };
+}
+
+export type MockApi = ReturnType<typeof createMockApi>;
@@ -0,0 +1,59 @@
+import type { Plugin } from 'vite';
+import { MOCK_SCENARIOS, MockScenario, createMockApi } from './mockApi';
+
+/**
+ * Vite plugin that answers `/api/*` from the bundled mock API
+ * Lets the app run without the external mock server on localhost:3000
+ *
+ * The scenario is picked by name (see MOCK_SCENARIOS), e.g.
+ * `MOCK_SCENARIO=slow npm run dev:mock`
+ *
+ * @param scenarioName - Name of the scenario to start with
+ */
+export function mockApiPlugin(scenarioName = 'normal'): Plugin {
+  const scenario: MockScenario | undefined = MOCK_SCENARIOS[scenarioName];
+  if (!scenario) {
+    throw new Error(
+      `Unknown mock scenario "${scenarioName}". Use one of: ${Object.keys(MOCK_SCENARIOS).join(', ')}`
+    );
+  }
+
+  return {
+    name: 'mock-api',
+    configureServer(server) {
+      const api = createMockApi({ scenario });
+
+      server.middlewares.use('/api', async (req, res, next) => {
+        try {
+          let body = '';
+          for await (const chunk of req) {
+            body += chunk;
+          }
+
+          const headers = new Headers();
+          Object.entries(req.headers).forEach(([name, value]) => {
+            if (typeof value === 'string') headers.set(name, value);
+          });
+
+          // Mounted on /api, so req.url is the path below it
+          const response = await api.fetch(`/api${req.url ?? ''}`, {
+            method: req.method,
+            headers,
+            body: body || undefined,
+          });
+
+          res.statusCode = response.status;
+          response.headers.forEach((value, name) => res.setHeader(name, value));
+          res.end(await response.text());
+        } catch (error) {
+          // The offline scenario: drop the connection like a dead server would
+          if (error instanceof TypeError) {
+            req.socket.destroy();
+            return;
+          }
+          next(error);
+        }
+      });
+    },
+  };
+}
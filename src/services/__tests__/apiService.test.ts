@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ApiError,
+  ConflictError,
+  DEFAULT_BLUEPRINT,
+  deleteNodeInputMapping,
+  fetchBlueprints,
+  fetchFormBlueprint,
+  fetchGlobalProperties,
+  fetchNodeInputMapping,
+  isUnreachableError,
+  NetworkError,
+  saveNodeInputMapping,
+  updateNodeInputMapping,
+} from '../apiService';
+import { MockServerResponse } from '../../types';
+import { MockApi, createMockApi } from '../../mocks/mockApi';
+
+describe('apiService', () => {
+  const blueprint: MockServerResponse = {
+    id: DEFAULT_BLUEPRINT.blueprintId,
+    tenant_id: DEFAULT_BLUEPRINT.tenantId,
+    name: 'Blueprint',
+    description: '',
+    category: 'test',
+    nodes: [
+      {
+        id: 'form-a',
+        type: 'form',
+        position: { x: 0, y: 0 },
+        data: {
+          id: 'bp_c-form-a',
+          component_key: 'form-a',
+          component_type: 'form',
+          component_id: 'f_a',
+          name: 'Form A',
+          prerequisites: [],
+          permitted_roles: [],
+          input_mapping: {},
+          sla_duration: { number: 0, unit: 'minutes' },
+          approval_required: false,
+          approval_roles: [],
+        },
+      },
+    ],
+    edges: [],
+    forms: [],
+    branches: [],
+    triggers: [],
+  };
+
+  const inputMapping = { priority: { type: 'constant' as const, value: 'normal' } };
+
+  let server: MockApi;
+
+  beforeEach(() => {
+    server = createMockApi({ blueprints: [blueprint], globalProperties: null });
+    vi.stubGlobal('fetch', vi.fn(server.fetch));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should return node versions with the blueprint', async () => {
+    const result = await fetchFormBlueprint();
+    expect(result.nodeVersions).toEqual({ 'form-a': '1' });
+  });
+
+  it('should read a node input_mapping with its version', async () => {
+    expect(await fetchNodeInputMapping('form-a')).toEqual({ inputMapping: {}, version: '1' });
+  });
+
+  it('should save, update and delete with version preconditions', async () => {
+    const saved = await saveNodeInputMapping('form-a', inputMapping);
+    expect(saved).toBe('2');
+    expect(server.getInputMapping('form-a')).toEqual(inputMapping);
+
+    const updated = await updateNodeInputMapping('form-a', {}, saved);
+    expect(updated).toBe('3');
+
+    const deleted = await deleteNodeInputMapping('form-a', updated);
+    expect(deleted).toBe('4');
+    expect(fetch).toHaveBeenLastCalledWith(
+      expect.stringContaining('/nodes/form-a/input_mapping'),
+      expect.objectContaining({ method: 'DELETE', headers: expect.objectContaining({ 'If-Match': '"3"' }) })
+    );
+  });
+
+  it('should throw a ConflictError carrying the server state on a stale version', async () => {
+    server.editNode('form-a', inputMapping);
+
+    const error = await updateNodeInputMapping('form-a', {}, '1').catch(e => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.statusCode).toBe(412);
+    expect(error.current).toEqual({ inputMapping, version: '2' });
+  });
+
+  it('should still throw a ConflictError when the 412 body is empty or not JSON', async () => {
+    server.editNode('form-a', inputMapping);
+    const serverFetch = server.fetch;
+    // The 412 comes back bare; the node's state is then fetched separately
+    vi.stubGlobal(
+      'fetch',
+      vi.fn((url: string, init?: RequestInit) =>
+        init?.method === 'PUT'
+          ? Promise.resolve(new Response('', { status: 412, headers: { ETag: '"2"' } }))
+          : serverFetch(url, init)
+      )
+    );
+
+    const error = await updateNodeInputMapping('form-a', {}, '1').catch(e => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.current).toEqual({ inputMapping, version: '2' });
+  });
+
+  it('should fall back to an empty conflict state when the node cannot be read', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init?: RequestInit) =>
+        init?.method === 'PUT'
+          ? new Response('Precondition Failed', { status: 412, headers: { ETag: '"5"' } })
+          : new Response('', { status: 500 })
+      )
+    );
+
+    const error = await updateNodeInputMapping('form-a', {}, '1').catch(e => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.current).toEqual({ inputMapping: {}, version: '5' });
+  });
+
+  it('should refuse to create over existing mappings', async () => {
+    server.editNode('form-a', inputMapping);
+    await expect(saveNodeInputMapping('form-a', {})).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('should throw an ApiError for other failures', async () => {
+    server.failNextWrite(500);
+
+    const error = await updateNodeInputMapping('form-a', {}, '1').catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).not.toBeInstanceOf(ConflictError);
+    expect(error.statusCode).toBe(500);
+  });
+
+  it('should reject an invalid blueprint with path-addressed issues', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(JSON.stringify({ nodes: [], forms: [{ id: 'f_1' }] })))
+    );
+
+    const error = await fetchFormBlueprint().catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.issues).toEqual([
+      { path: 'forms[0].field_schema', message: 'missing', severity: 'error' },
+      { path: 'edges', message: 'missing', severity: 'warning' },
+    ]);
+  });
+
+  it('should load typed global properties from the catalog endpoint', async () => {
+    server = createMockApi({
+      blueprints: [blueprint],
+      globalProperties: {
+        action_properties: [{ name: 'due_date', type: 'string', format: 'date' }],
+        client_organisation_properties: [],
+      },
+    });
+    vi.stubGlobal('fetch', vi.fn(server.fetch));
+
+    expect(await fetchGlobalProperties()).toMatchObject({
+      actionProperties: ['due_date'],
+      actionPropertyTypes: { due_date: 'date' },
+    });
+    expect((await fetchFormBlueprint()).globalData.actionProperties).toEqual(['due_date']);
+  });
+
+  it('should fall back to built-in global properties when the catalog is unavailable', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await fetchFormBlueprint();
+
+    expect(result.globalData.actionProperties).toContain('created_at');
+    expect(warn).toHaveBeenCalledWith('Using built-in global properties:', expect.any(String));
+    warn.mockRestore();
+  });
+
+  it('should request the catalog once, alongside the graph', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const serverFetch = server.fetch;
+    const fetchMock = vi.fn((url: string, init?: RequestInit) =>
+      url.endsWith('/global_properties')
+        ? Promise.resolve(new Response('', { status: 503 }))
+        : serverFetch(url, init)
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await fetchFormBlueprint(DEFAULT_BLUEPRINT, { retryDelayMs: 0 });
+
+    const catalogCalls = fetchMock.mock.calls.filter(([url]) => url.endsWith('/global_properties'));
+    expect(catalogCalls).toHaveLength(1);
+    expect(catalogCalls[0][1]?.signal).toBeInstanceOf(AbortSignal);
+    expect(result.globalData.actionProperties).toContain('created_at');
+    warn.mockRestore();
+  });
+
+  it('should list a tenant\'s blueprints', async () => {
+    expect(await fetchBlueprints(DEFAULT_BLUEPRINT.tenantId)).toEqual([
+      { id: DEFAULT_BLUEPRINT.blueprintId, name: 'Blueprint', description: '' },
+    ]);
+    expect(fetch).toHaveBeenCalledWith(
+      `/api/v1/${DEFAULT_BLUEPRINT.tenantId}/actions/blueprints`,
+      { method: 'GET' }
+    );
+  });
+
+  it('should accept a blueprint list wrapped in items', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(JSON.stringify({ items: [{ id: 'bp_2' }] })))
+    );
+
+    expect(await fetchBlueprints('t_1')).toEqual([
+      { id: 'bp_2', name: 'bp_2', description: undefined },
+    ]);
+  });
+
+  it('should request the selected tenant and blueprint', async () => {
+    server = createMockApi({ blueprints: [{ ...blueprint, tenant_id: 't_2', id: 'bp_9' }] });
+    vi.stubGlobal('fetch', vi.fn(server.fetch));
+
+    await fetchFormBlueprint({ tenantId: 't_2', blueprintId: 'bp_9' });
+    await saveNodeInputMapping('form-a', inputMapping, { tenantId: 't_2', blueprintId: 'bp_9' });
+
+    const urls = vi.mocked(fetch).mock.calls.map(([url]) => url);
+    expect(urls).toEqual([
+      '/api/v1/t_2/actions/blueprints/bp_9/graph',
+      '/api/v1/t_2/global_properties',
+      '/api/v1/t_2/actions/blueprints/bp_9/nodes/form-a/input_mapping',
+    ]);
+  });
+
+  it('should tell unreachable failures from rejected requests', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+
+    const error = await saveNodeInputMapping('form-a', inputMapping).catch(e => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(isUnreachableError(error)).toBe(true);
+    expect(isUnreachableError(new ApiError('Bad Gateway', 502))).toBe(true);
+    expect(isUnreachableError(new ApiError('Not Found', 404))).toBe(false);
+  });
+});
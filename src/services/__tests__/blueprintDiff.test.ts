@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { diffBlueprints, parseBlueprintJson } from '../blueprintDiff';
+import { avantosBlueprint } from '../../mocks/fixtures';
+import { Form, FormField, PrefillMapping } from '../../types';
+
+describe('blueprintDiff', () => {
+  const fields: FormField[] = [
+    { id: 'email', label: 'Email', type: 'email' },
+    {
+      id: 'address',
+      label: 'Address',
+      type: 'object',
+      children: [{ id: 'address.city', label: 'City', type: 'text' }],
+    },
+  ];
+  const form = (id: string, name: string, dependencies: string[] = []): Form => ({
+    id,
+    name,
+    fields,
+    dependencies,
+  });
+
+  // Form D depends on Form B and Form C, which both depend on Form A
+  const before: Form[] = [
+    form('form-a', 'Form A'),
+    form('form-b', 'Form B', ['form-a']),
+    form('form-c', 'Form C', ['form-a']),
+    form('form-d', 'Form D', ['form-b', 'form-c']),
+  ];
+  const replaceForm = (id: string, changes: Partial<Form>) =>
+    before.map(f => (f.id === id ? { ...f, ...changes } : f));
+
+  const mapping = (targetFormId: string, sourceFormId: string, sourceFieldId = 'email'): PrefillMapping => ({
+    targetFormId,
+    targetFieldId: 'email',
+    sourceType: 'form',
+    sourceFormId,
+    sourceFieldId,
+    sourcePath: `${sourceFormId}.${sourceFieldId}`,
+  });
+  const dFromB = mapping('form-d', 'form-b');
+  const dFromA = mapping('form-d', 'form-a', 'address.city');
+  const bFromA = mapping('form-b', 'form-a');
+  const mappings = [dFromB, dFromA, bFromA];
+
+  it('should find no changes between identical versions', () => {
+    expect(diffBlueprints(before, before, mappings)).toEqual([]);
+  });
+
+  it('should list added and removed forms with the mappings that used them', () => {
+    const after = [...before.filter(f => f.id !== 'form-b'), form('form-e', 'Form E', ['form-d'])];
+
+    const changes = diffBlueprints(before, after, mappings);
+
+    expect(changes.map(c => [c.type, c.formId])).toEqual([
+      ['formRemoved', 'form-b'],
+      ['formAdded', 'form-e'],
+    ]);
+    expect(changes[0].description).toBe('Form B was removed');
+    expect(changes[0].affectedMappings).toEqual([dFromB, bFromA]);
+    expect(changes[1].affectedMappings).toEqual([]);
+  });
+
+  it('should report renamed forms as affecting the mappings reading them', () => {
+    const changes = diffBlueprints(before, replaceForm('form-a', { name: 'Intake' }), mappings);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ type: 'formRenamed', description: 'Form A was renamed to "Intake"' });
+    expect(changes[0].affectedMappings).toEqual([dFromA, bFromA]);
+  });
+
+  it('should report a removed field once, including the fields nested in it', () => {
+    const after = replaceForm('form-a', { fields: [fields[0]] });
+
+    const changes = diffBlueprints(before, after, mappings);
+
+    expect(changes).toEqual([
+      {
+        type: 'fieldRemoved',
+        formId: 'form-a',
+        fieldId: 'address',
+        newFieldId: undefined,
+        description: 'Form A: field Address was removed',
+        affectedMappings: [dFromA],
+      },
+    ]);
+  });
+
+  it('should detect renamed field keys, renamed labels and retyped fields', () => {
+    const after = replaceForm('form-b', {
+      fields: [
+        { id: 'email_address', label: 'Email', type: 'email' },
+        {
+          ...fields[1],
+          label: 'Home address',
+          children: [{ id: 'address.city', label: 'City', type: 'number' }],
+        },
+      ],
+    });
+
+    const changes = diffBlueprints(before, after, mappings);
+
+    expect(changes.map(c => [c.type, c.fieldId, c.newFieldId])).toEqual([
+      ['fieldRenamed', 'email', 'email_address'],
+      ['fieldRenamed', 'address', undefined],
+      ['fieldRetyped', 'address.city', undefined],
+    ]);
+    // Form B.email is read by Form D and prefilled from Form A
+    expect(changes[0].affectedMappings).toEqual([dFromB, bFromA]);
+    expect(changes[1].description).toBe('Form B: field Address was renamed to "Home address"');
+    expect(changes[2].description).toBe('Form B: field City changed type from text to number');
+  });
+
+  it('should report changed prerequisites and the mappings they cut off', () => {
+    // Form D keeps Form A through Form C, but loses Form B
+    const after = replaceForm('form-d', { dependencies: ['form-c', 'form-a'] });
+
+    const changes = diffBlueprints(before, after, mappings);
+
+    expect(changes.map(c => [c.type, c.dependencyId, c.description])).toEqual([
+      ['dependencyRemoved', 'form-b', 'Form D no longer depends on Form B'],
+      ['dependencyAdded', 'form-a', 'Form D now depends on Form A'],
+    ]);
+    expect(changes[0].affectedMappings).toEqual([dFromB]);
+    expect(changes[1].affectedMappings).toEqual([]);
+  });
+
+  it('should parse an uploaded blueprint file', () => {
+    const { forms } = parseBlueprintJson(JSON.stringify(avantosBlueprint));
+
+    expect(forms.map(f => f.name)).toEqual(['Form A', 'Form B', 'Form C', 'Form D', 'Form E', 'Form F']);
+  });
+
+  it('should reject files that are not blueprints', () => {
+    expect(() => parseBlueprintJson('{ not json')).toThrow('The file is not valid JSON');
+    expect(() => parseBlueprintJson(JSON.stringify({ nodes: [] }))).toThrow(/^Not a blueprint: forms/);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  constantToString,
+  formatConstantValue,
+  parseConstantInput,
+  validateConstantValue,
+} from '../constantValues';
+
+describe('constantValues', () => {
+  describe('validateConstantValue', () => {
+    it('should accept strings for text fields', () => {
+      expect(validateConstantValue('normal', 'text')).toBeNull();
+      expect(validateConstantValue(5, 'text')).not.toBeNull();
+    });
+
+    it('should validate email addresses', () => {
+      expect(validateConstantValue('ops@example.com', 'email')).toBeNull();
+      expect(validateConstantValue('not-an-email', 'email')).toBe('Enter a valid email address');
+    });
+
+    it('should validate calendar dates', () => {
+      expect(validateConstantValue('2024-02-29', 'date')).toBeNull();
+      expect(validateConstantValue('2023-02-29', 'date')).not.toBeNull();
+      expect(validateConstantValue('02/01/2024', 'date')).not.toBeNull();
+    });
+
+    it('should require finite numbers for number fields', () => {
+      expect(validateConstantValue(42, 'number')).toBeNull();
+      expect(validateConstantValue(Number.NaN, 'number')).toBe('Enter a number');
+    });
+
+    it('should require at least one option for checkbox fields', () => {
+      expect(validateConstantValue(['Option A'], 'checkbox')).toBeNull();
+      expect(validateConstantValue([], 'checkbox')).not.toBeNull();
+    });
+
+    it('should require a JSON object for object fields', () => {
+      expect(validateConstantValue('{"a": 1}', 'object')).toBeNull();
+      expect(validateConstantValue('[1, 2]', 'object')).not.toBeNull();
+      expect(validateConstantValue('{oops', 'object')).not.toBeNull();
+    });
+
+    it('should reject static values for button fields', () => {
+      expect(validateConstantValue('click', 'button')).not.toBeNull();
+    });
+  });
+
+  describe('parseConstantInput', () => {
+    it('should parse numbers', () => {
+      expect(parseConstantInput('3.5', 'number')).toBe(3.5);
+      expect(parseConstantInput('', 'number')).toBeNaN();
+    });
+
+    it('should split checkbox selections', () => {
+      expect(parseConstantInput(' A, B ,,C', 'checkbox')).toEqual(['A', 'B', 'C']);
+    });
+
+    it('should keep other types as strings', () => {
+      expect(parseConstantInput('2024-01-01', 'date')).toBe('2024-01-01');
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format literals for display', () => {
+      expect(formatConstantValue('normal')).toBe('"normal"');
+      expect(formatConstantValue(42)).toBe('42');
+      expect(formatConstantValue(['A', 'B'])).toBe('[A, B]');
+    });
+
+    it('should convert literals to plain strings', () => {
+      expect(constantToString(['A', 'B'])).toBe('A, B');
+      expect(constantToString(true)).toBe('true');
+    });
+  });
+});
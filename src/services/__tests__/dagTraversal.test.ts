@@ -1,8 +1,13 @@
 import { describe, it, expect } from 'vitest';
 import {
+  findCycles,
   getDependencies,
+  getDependencyRoutes,
+  getDependents,
   getDirectDependencies,
+  getDirectDependents,
   getTransitiveDependencies,
+  getTransitiveDependents,
   hasCircularDependencies,
 } from '../dagTraversal';
 import { FormGraph } from '../../types';
@@ -181,4 +186,130 @@ describe('dagTraversal', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('getDependencyRoutes', () => {
+    it('should give the hop distance of every dependency', () => {
+      const routes = getDependencyRoutes('form-e', mockFormGraph);
+
+      expect(routes.get('form-c')?.distance).toBe(1);
+      expect(routes.get('form-d')?.distance).toBe(1);
+      expect(routes.get('form-b')?.distance).toBe(2);
+      expect(routes.get('form-a')?.distance).toBe(2);
+      expect(routes.has('form-e')).toBe(false);
+    });
+
+    it('should list every shortest chain', () => {
+      const routes = getDependencyRoutes('form-e', mockFormGraph);
+
+      expect(routes.get('form-a')?.paths).toEqual([['form-e', 'form-c', 'form-a']]);
+      expect(routes.get('form-b')?.paths).toEqual([['form-e', 'form-d', 'form-b']]);
+    });
+
+    it('should keep parallel chains of equal length', () => {
+      // form-x reaches form-a through form-b and through form-c
+      const graph: FormGraph = {
+        ...mockFormGraph,
+        'form-x': { id: 'form-x', name: 'Form X', fields: [], dependencies: ['form-b', 'form-c'] },
+      };
+
+      expect(getDependencyRoutes('form-x', graph).get('form-a')?.paths).toEqual([
+        ['form-x', 'form-b', 'form-a'],
+        ['form-x', 'form-c', 'form-a'],
+      ]);
+      expect(getDependencyRoutes('form-x', graph, 1).get('form-a')?.paths).toHaveLength(1);
+    });
+
+    it('should return nothing for an unknown form', () => {
+      expect(getDependencyRoutes('non-existent', mockFormGraph).size).toBe(0);
+    });
+  });
+
+  describe('dependents', () => {
+    it('should find every form downstream of a form', () => {
+      expect(getDependents('form-a', mockFormGraph)).toEqual(
+        new Set(Object.keys(mockFormGraph).filter(id => id !== 'form-a'))
+      );
+      expect(getDependents('form-b', mockFormGraph)).toEqual(new Set(['form-d', 'form-e']));
+    });
+
+    it('should split direct and transitive dependents', () => {
+      expect(getDirectDependents('form-a', mockFormGraph)).toEqual(new Set(['form-b', 'form-c']));
+      // form-e depends on form-c directly and on form-b through form-d
+      expect(getTransitiveDependents('form-a', mockFormGraph)).toEqual(
+        new Set(['form-d', 'form-e'])
+      );
+      expect(getTransitiveDependents('form-b', mockFormGraph)).toEqual(new Set(['form-e']));
+    });
+
+    it('should return nothing for a leaf or an unknown form', () => {
+      expect(getDependents('form-e', mockFormGraph).size).toBe(0);
+      expect(getDirectDependents('non-existent', mockFormGraph).size).toBe(0);
+    });
+  });
+
+  describe('findCycles', () => {
+    // Builds a graph from "form → its dependencies"
+    const graphOf = (dependencies: Record<string, string[]>): FormGraph =>
+      Object.fromEntries(
+        Object.entries(dependencies).map(([id, deps]) => [
+          id,
+          { id, name: id, fields: [], dependencies: deps },
+        ])
+      );
+
+    it('should return no cycles for an acyclic graph', () => {
+      expect(findCycles(mockFormGraph)).toEqual([]);
+    });
+
+    it('should return the cycle in dependency order', () => {
+      const graph = graphOf({ c: ['a'], a: ['b'], b: ['c'], d: ['a'] });
+
+      expect(findCycles(graph)).toEqual([['a', 'b', 'c']]);
+    });
+
+    it('should report a form that depends on itself', () => {
+      expect(findCycles(graphOf({ a: ['a'], b: ['a'] }))).toEqual([['a']]);
+    });
+
+    it('should report separate cycles separately', () => {
+      const graph = graphOf({ a: ['b'], b: ['a'], c: ['d'], d: ['c'], e: ['a', 'c'] });
+
+      const cycles = findCycles(graph);
+
+      expect(cycles).toHaveLength(2);
+      expect(cycles).toContainEqual(['a', 'b']);
+      expect(cycles).toContainEqual(['c', 'd']);
+    });
+
+    it('should cover every form on a cycle', () => {
+      // a → b → c → a, plus a → d → b
+      const graph = graphOf({ a: ['b', 'd'], b: ['c'], c: ['a'], d: ['b'] });
+
+      const cycles = findCycles(graph);
+      const onCycles = new Set(cycles.flat());
+
+      expect(cycles).toContainEqual(['a', 'b', 'c']);
+      expect(onCycles).toEqual(new Set(['a', 'b', 'c', 'd']));
+    });
+
+    it('should handle a dependency chain deeper than the call stack', () => {
+      // form-0 → form-1 → … → form-49999, first without and then with a link back
+      const size = 50000;
+      const chain = Object.fromEntries(
+        Array.from({ length: size }, (_, i) => [`form-${i}`, i + 1 < size ? [`form-${i + 1}`] : []])
+      );
+
+      expect(findCycles(graphOf(chain))).toEqual([]);
+
+      const cycles = findCycles(graphOf({ ...chain, [`form-${size - 1}`]: ['form-0'] }));
+      expect(cycles).toHaveLength(1);
+      expect(cycles[0]).toHaveLength(size);
+    });
+
+    it('should keep a form out of its own dependencies', () => {
+      const graph = graphOf({ a: ['b'], b: ['a'] });
+
+      expect(getDependencies('a', graph)).toEqual(new Set(['b']));
+    });
+  });
 });
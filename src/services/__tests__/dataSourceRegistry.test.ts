@@ -1,10 +1,13 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
+  AsyncDataSource,
+  CustomDataSource,
   DataSourceRegistry,
   FormDataSource,
   GlobalDataSource,
+  OrganizationDataSource,
 } from '../dataSourceRegistry';
-import { Form, GlobalData } from '../../types';
+import { DataField, Form, GlobalData } from '../../types';
 
 describe('DataSourceRegistry', () => {
   let registry: DataSourceRegistry;
@@ -187,6 +190,30 @@ describe('FormDataSource', () => {
       path: 'Contact Form.Full Name',
     });
   });
+
+  it('should keep nested fields as children with nested paths', () => {
+    const mockForm: Form = {
+      id: 'form-a',
+      name: 'Contact Form',
+      fields: [
+        {
+          id: 'address',
+          label: 'Address',
+          type: 'object',
+          children: [{ id: 'address.city', label: 'City', type: 'text' }],
+        },
+      ],
+      dependencies: [],
+    };
+
+    const source = new FormDataSource('form-a', 'Contact Form', mockForm);
+    const [address] = source.getFields();
+
+    expect(address.path).toBe('Contact Form.Address');
+    expect(address.children).toEqual([
+      { id: 'address.city', label: 'City', type: 'text', path: 'Contact Form.Address.City' },
+    ]);
+  });
 });
 
 describe('GlobalDataSource', () => {
@@ -227,3 +254,195 @@ describe('GlobalDataSource', () => {
     expect(source.type).toBe('global');
   });
 });
+
+describe('typed global properties', () => {
+  const typedGlobalData: GlobalData = {
+    actionProperties: ['created_at', 'status'],
+    clientOrgProperties: ['org_id', 'contact_email'],
+    actionPropertyTypes: { created_at: 'date' },
+    clientOrgPropertyTypes: { org_id: 'text', contact_email: 'email' },
+  };
+
+  it('should expose action property types and default the rest to text', () => {
+    const fields = new GlobalDataSource(typedGlobalData).getFields();
+    expect(fields.map(f => [f.id, f.type])).toEqual([
+      ['created_at', 'date'],
+      ['status', 'text'],
+    ]);
+  });
+
+  it('should expose organization property types', () => {
+    const fields = new OrganizationDataSource(typedGlobalData).getFields();
+    expect(fields.map(f => [f.id, f.type])).toEqual([
+      ['org_id', 'text'],
+      ['contact_email', 'email'],
+    ]);
+  });
+});
+
+describe('CustomDataSource', () => {
+  const fields = [
+    {
+      id: 'account',
+      label: 'Account',
+      type: 'object' as const,
+      children: [{ id: 'account.owner', label: 'Owner', type: 'text' as const }],
+    },
+  ];
+  const form: Form = { id: 'form-d', name: 'Form D', fields: [], dependencies: ['form-kyc'] };
+
+  it('should build field paths from the source name', () => {
+    const source = new CustomDataSource('crm', 'CRM', fields);
+
+    expect(source.type).toBe('custom');
+    expect(source.getFields()[0].path).toBe('CRM.Account');
+    expect(source.getFields()[0].children?.[0].path).toBe('CRM.Account.Owner');
+  });
+
+  it('should apply its availability rule', () => {
+    const context = { targetForm: form, ancestors: new Set(['form-kyc']), formGraph: { 'form-d': form } };
+
+    expect(new CustomDataSource('crm', 'CRM', fields).isAvailable(context)).toBe(true);
+    expect(
+      new CustomDataSource('crm', 'CRM', fields, ({ ancestors }) => ancestors.has('form-kyc')).isAvailable(context)
+    ).toBe(true);
+    expect(
+      new CustomDataSource('crm', 'CRM', fields, ({ ancestors }) => ancestors.has('form-x')).isAvailable(context)
+    ).toBe(false);
+  });
+
+  it('should be found by type in a registry', () => {
+    const registry = new DataSourceRegistry();
+    const source = new CustomDataSource('crm', 'CRM', fields);
+
+    registry.register(source);
+
+    expect(registry.has('crm')).toBe(true);
+    expect(registry.getByType('custom')).toEqual([source]);
+  });
+});
+
+describe('AsyncDataSource', () => {
+  const fields: DataField[] = [
+    { id: 'industry', label: 'Industry', type: 'text', path: 'CRM.Industry' },
+  ];
+
+  class TestSource extends AsyncDataSource {
+    readonly id = 'crm';
+    readonly name = 'CRM';
+    readonly type = 'custom' as const;
+    fetch = vi.fn<[AbortSignal], Promise<DataField[]>>();
+
+    protected fetchFields(signal: AbortSignal): Promise<DataField[]> {
+      return this.fetch(signal);
+    }
+  }
+
+  /** A fetch that settles when the test says so, and rejects when aborted */
+  function deferred() {
+    let resolve!: (value: DataField[]) => void;
+    let signal!: AbortSignal;
+    const start = (s: AbortSignal) => {
+      signal = s;
+      return new Promise<DataField[]>((res, rej) => {
+        resolve = res;
+        s.addEventListener('abort', () => rej(new DOMException('Aborted', 'AbortError')));
+      });
+    };
+    return {
+      start,
+      resolve: (value: DataField[]) => resolve(value),
+      signal: () => signal,
+    };
+  }
+
+  it('has no fields until loaded, then caches them', async () => {
+    const source = new TestSource();
+    source.fetch.mockResolvedValue(fields);
+
+    expect(source.getFields()).toEqual([]);
+    expect(source.isLoaded()).toBe(false);
+
+    await expect(source.loadFields()).resolves.toEqual(fields);
+    await expect(source.loadFields()).resolves.toEqual(fields);
+
+    expect(source.getFields()).toEqual(fields);
+    expect(source.isLoaded()).toBe(true);
+    expect(source.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one request between concurrent loads', async () => {
+    const source = new TestSource();
+    const request = deferred();
+    source.fetch.mockImplementation(request.start);
+
+    const first = source.loadFields();
+    const second = source.loadFields();
+    request.resolve(fields);
+
+    await expect(first).resolves.toEqual(fields);
+    await expect(second).resolves.toEqual(fields);
+    expect(source.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the request going while another caller still waits', async () => {
+    const source = new TestSource();
+    const request = deferred();
+    source.fetch.mockImplementation(request.start);
+    const controller = new AbortController();
+
+    const cancelled = source.loadFields(controller.signal);
+    const kept = source.loadFields();
+    controller.abort();
+
+    await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+    expect(request.signal().aborted).toBe(false);
+
+    request.resolve(fields);
+    await expect(kept).resolves.toEqual(fields);
+  });
+
+  it('cancels the request once every caller aborts', async () => {
+    const source = new TestSource();
+    const request = deferred();
+    source.fetch.mockImplementation(request.start);
+    const controller = new AbortController();
+
+    const load = source.loadFields(controller.signal);
+    controller.abort();
+
+    await expect(load).rejects.toMatchObject({ name: 'AbortError' });
+    expect(request.signal().aborted).toBe(true);
+    expect(source.isLoaded()).toBe(false);
+  });
+
+  it('rejects at once when the signal is already aborted', async () => {
+    const source = new TestSource();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(source.loadFields(controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    expect(source.fetch).not.toHaveBeenCalled();
+  });
+
+  it('does not cache failures, so a later load retries', async () => {
+    const source = new TestSource();
+    source.fetch.mockRejectedValueOnce(new Error('Service unavailable')).mockResolvedValueOnce(fields);
+
+    await expect(source.loadFields()).rejects.toThrow('Service unavailable');
+    await expect(source.loadFields()).resolves.toEqual(fields);
+    expect(source.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('fetches again after invalidate', async () => {
+    const source = new TestSource();
+    source.fetch.mockResolvedValue(fields);
+
+    await source.loadFields();
+    source.invalidate();
+    expect(source.getFields()).toEqual([]);
+
+    await source.loadFields();
+    expect(source.fetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { reconcileDependencies } from '../dependencyReconciliation';
+import { MockServerNode } from '../../types';
+
+describe('reconcileDependencies', () => {
+  const createNode = (id: string, prerequisites: string[] = []): MockServerNode => ({
+    id,
+    type: 'form',
+    position: { x: 0, y: 0 },
+    data: {
+      id: `bp_c-${id}`,
+      component_key: id,
+      component_type: 'form',
+      component_id: `f_${id}`,
+      name: `Form ${id.toUpperCase()}`,
+      prerequisites,
+      permitted_roles: [],
+      input_mapping: {},
+      sla_duration: { number: 0, unit: 'minutes' },
+      approval_required: false,
+      approval_roles: [],
+    },
+  });
+
+  it('should report nothing when prerequisites and edges agree', () => {
+    const result = reconcileDependencies(
+      [createNode('a'), createNode('b', ['a'])],
+      [{ source: 'a', target: 'b' }]
+    );
+
+    expect(result.dependencies).toEqual({ a: [], b: ['a'] });
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should add dependencies from edges missing a prerequisite', () => {
+    const result = reconcileDependencies(
+      [createNode('a'), createNode('b'), createNode('c', ['b'])],
+      [{ source: 'a', target: 'c' }]
+    );
+
+    expect(result.dependencies.c).toEqual(['b', 'a']);
+    expect(result.issues).toEqual([
+      {
+        type: 'edgeWithoutPrerequisite',
+        origin: 'edge',
+        nodeId: 'c',
+        dependencyId: 'a',
+        message: 'Edge Form A → Form C has no matching prerequisite on Form C',
+      },
+    ]);
+  });
+
+  it('should drop and report references to missing nodes', () => {
+    const result = reconcileDependencies(
+      [createNode('a'), createNode('b', ['ghost'])],
+      [{ source: 'phantom', target: 'a' }]
+    );
+
+    expect(result.dependencies).toEqual({ a: [], b: [] });
+    expect(result.issues.map(i => [i.type, i.origin, i.dependencyId])).toEqual([
+      ['missingNode', 'prerequisite', 'ghost'],
+      ['missingNode', 'edge', 'phantom'],
+    ]);
+  });
+
+  it('should report duplicate prerequisites and edges once each', () => {
+    const result = reconcileDependencies(
+      [createNode('a'), createNode('b', ['a', 'a'])],
+      [
+        { source: 'a', target: 'b' },
+        { source: 'a', target: 'b' },
+      ]
+    );
+
+    expect(result.dependencies.b).toEqual(['a']);
+    expect(result.issues.map(i => [i.type, i.origin])).toEqual([
+      ['duplicate', 'prerequisite'],
+      ['duplicate', 'edge'],
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { findField, flattenFields, flattenFieldTree } from '../fieldTree';
+import { FormField } from '../../types';
+
+describe('fieldTree', () => {
+  const fields: FormField[] = [
+    { id: 'email', label: 'Email', type: 'email' },
+    {
+      id: 'address',
+      label: 'Address',
+      type: 'object',
+      children: [
+        { id: 'address.city', label: 'City', type: 'text' },
+        {
+          id: 'address.geo',
+          label: 'Geo',
+          type: 'object',
+          children: [{ id: 'address.geo.lat', label: 'Lat', type: 'number' }],
+        },
+      ],
+    },
+  ];
+
+  it('should flatten parents before children with depths', () => {
+    expect(flattenFieldTree(fields).map(e => [e.field.id, e.depth])).toEqual([
+      ['email', 0],
+      ['address', 0],
+      ['address.city', 1],
+      ['address.geo', 1],
+      ['address.geo.lat', 2],
+    ]);
+  });
+
+  it('should flatten into a plain list', () => {
+    expect(flattenFields(fields)).toHaveLength(5);
+  });
+
+  it('should find nested fields by ID', () => {
+    expect(findField(fields, 'address.geo.lat')?.label).toBe('Lat');
+    expect(findField(fields, 'email')?.label).toBe('Email');
+    expect(findField(fields, 'missing')).toBeUndefined();
+  });
+});
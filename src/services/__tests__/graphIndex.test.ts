@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { GraphIndex, getGraphIndex } from '../graphIndex';
+import { getDependencyRoutes } from '../dagTraversal';
+import { createLargeBlueprint } from '../../mocks/fixtures';
+import { FormGraph } from '../../types';
+
+describe('graphIndex', () => {
+  // Builds a graph from "form → its dependencies"
+  const graphOf = (dependencies: Record<string, string[]>): FormGraph =>
+    Object.fromEntries(
+      Object.entries(dependencies).map(([id, deps]) => [
+        id,
+        { id, name: id, fields: [], dependencies: deps },
+      ])
+    );
+
+  // a ← b ← d, a ← c ← e, d and e ← f
+  const diamond = graphOf({
+    f: ['d', 'e'],
+    e: ['c'],
+    d: ['b'],
+    c: ['a'],
+    b: ['a'],
+    a: [],
+  });
+
+  /**
+   * Plain breadth-first search, the reference the index must agree with
+   */
+  const searchAncestors = (formId: string, graph: FormGraph) => {
+    const found = new Set<string>();
+    const queue = [...(graph[formId]?.dependencies ?? [])];
+    while (queue.length > 0) {
+      const depId = queue.shift()!;
+      if (found.has(depId) || !graph[depId]) continue;
+      found.add(depId);
+      queue.push(...graph[depId].dependencies);
+    }
+    found.delete(formId);
+    return found;
+  };
+
+  describe('GraphIndex', () => {
+    it('should order every form after its dependencies', () => {
+      const { order } = new GraphIndex(diamond);
+
+      expect(order).toHaveLength(6);
+      Object.values(diamond).forEach(form => {
+        form.dependencies.forEach(depId => {
+          expect(order.indexOf(depId)).toBeLessThan(order.indexOf(form.id));
+        });
+      });
+    });
+
+    it('should hold the transitive closure', () => {
+      const index = new GraphIndex(diamond);
+
+      expect(index.getAncestors('f')).toEqual(new Set(['a', 'b', 'c', 'd', 'e']));
+      expect(index.getAncestors('d')).toEqual(new Set(['a', 'b']));
+      expect(index.getAncestors('a')).toEqual(new Set());
+      expect(index.dependsOn('f', 'a')).toBe(true);
+      expect(index.dependsOn('d', 'c')).toBe(false);
+      expect(index.dependsOn('a', 'f')).toBe(false);
+    });
+
+    it('should list the nearest ancestors first', () => {
+      const index = new GraphIndex(graphOf({ c: ['b'], b: ['a'], a: [] }));
+
+      expect([...index.getAncestors('c')]).toEqual(['b', 'a']);
+    });
+
+    it('should keep the reverse edges and descendants', () => {
+      const index = new GraphIndex(diamond);
+
+      expect(index.getDependents('a').sort()).toEqual(['b', 'c']);
+      expect(index.getDependents('f')).toEqual([]);
+      expect(index.getDescendants('b')).toEqual(new Set(['d', 'f']));
+    });
+
+    it('should measure depth along the longest chain from a root', () => {
+      const index = new GraphIndex(graphOf({ a: [], b: ['a'], c: ['b'], d: ['a', 'c'] }));
+
+      expect(index.depth.get('a')).toBe(0);
+      expect(index.depth.get('b')).toBe(1);
+      expect(index.depth.get('d')).toBe(3);
+    });
+
+    it('should ignore dependencies on forms outside the graph', () => {
+      const index = new GraphIndex(graphOf({ a: ['missing'], b: ['a'] }));
+
+      expect(index.getAncestors('b')).toEqual(new Set(['a']));
+      expect(index.getAncestors('unknown')).toEqual(new Set());
+      expect(index.hasCycles).toBe(false);
+    });
+
+    it('should find the distance and shortest chains to each ancestor', () => {
+      const index = new GraphIndex(diamond);
+      const routes = index.getRoutes('f');
+
+      expect(routes.get('d')).toEqual({ distance: 1, paths: [['f', 'd']] });
+      expect(routes.get('a')).toEqual({
+        distance: 3,
+        paths: [
+          ['f', 'd', 'b', 'a'],
+          ['f', 'e', 'c', 'a'],
+        ],
+      });
+      expect(routes.has('f')).toBe(false);
+      expect(index.getRoutes('f', 1).get('a')?.paths).toHaveLength(1);
+      expect(index.getRoutes('unknown').size).toBe(0);
+    });
+
+    it('should find the routes of a form once', () => {
+      const index = new GraphIndex(diamond);
+
+      expect(index.getRoutes('d')).toBe(index.getRoutes('d'));
+      expect(getDependencyRoutes('d', diamond)).toBe(getDependencyRoutes('d', diamond));
+    });
+
+    it('should still answer for forms on and behind a cycle', () => {
+      // a → b → a, c depends on the cycle, d is independent
+      const index = new GraphIndex(graphOf({ a: ['b', 'd'], b: ['a'], c: ['a'], d: [] }));
+
+      expect(index.hasCycles).toBe(true);
+      expect(index.order).toHaveLength(4);
+      expect(index.getAncestors('a')).toEqual(new Set(['b', 'd']));
+      expect(index.getAncestors('c')).toEqual(new Set(['a', 'b', 'd']));
+      expect(index.depth.has('c')).toBe(false);
+    });
+  });
+
+  describe('getGraphIndex', () => {
+    it('should build the index once per graph', () => {
+      expect(getGraphIndex(diamond)).toBe(getGraphIndex(diamond));
+      expect(getGraphIndex({ ...diamond })).not.toBe(getGraphIndex(diamond));
+    });
+  });
+
+  describe('5000 forms', () => {
+    const { nodes } = createLargeBlueprint(5000);
+    const largeGraph: FormGraph = Object.fromEntries(
+      nodes.map(node => [
+        node.id,
+        { id: node.id, name: node.data.name, fields: [], dependencies: node.data.prerequisites },
+      ])
+    );
+
+    it('should agree with a breadth-first search', () => {
+      const index = new GraphIndex(largeGraph);
+
+      ['form-0', 'form-15', 'form-999', 'form-4999'].forEach(formId => {
+        expect(index.getAncestors(formId)).toEqual(searchAncestors(formId, largeGraph));
+      });
+      expect(index.depth.get('form-4999')).toBe(499);
+    });
+
+    it('should read each form a bounded number of times, and none when answering', () => {
+      // Counts work rather than timing it, so the result doesn't depend on the machine
+      let reads = 0;
+      const countingGraph: FormGraph = Object.fromEntries(
+        Object.entries(largeGraph).map(([formId, form]) => [
+          formId,
+          new Proxy(form, {
+            get(target, property, receiver) {
+              if (property === 'dependencies') reads++;
+              return Reflect.get(target, property, receiver);
+            },
+          }),
+        ])
+      );
+
+      const index = new GraphIndex(countingGraph);
+      expect(reads).toBeLessThanOrEqual(2 * 5000);
+
+      // Selecting 200 forms spread over the graph, as a user clicking around would
+      reads = 0;
+      for (let i = 0; i < 5000; i += 25) {
+        index.getAncestors(`form-${i}`);
+        index.dependsOn(`form-${i}`, 'form-0');
+        index.getDependents(`form-${i}`);
+        index.getRoutes(`form-${i}`);
+      }
+      expect(reads).toBe(0);
+    });
+  });
+});
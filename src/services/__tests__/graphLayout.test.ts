@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FIELD_ROW_HEIGHT,
+  NODE_HEADER_HEIGHT,
+  NODE_WIDTH,
+  layoutFormGraph,
+} from '../graphLayout';
+import { Form, FormGraph, PrefillMapping } from '../../types';
+
+describe('graphLayout', () => {
+  const fields = [
+    { id: 'email', label: 'Email', type: 'email' as const },
+    {
+      id: 'address',
+      label: 'Address',
+      type: 'object' as const,
+      children: [{ id: 'address.city', label: 'City', type: 'text' as const }],
+    },
+  ];
+  const formA: Form = { id: 'form-a', name: 'Form A', fields, dependencies: [], position: { x: 0, y: 100 } };
+  const formB: Form = {
+    id: 'form-b',
+    name: 'Form B',
+    fields,
+    dependencies: ['form-a'],
+    position: { x: 300, y: 0 },
+  };
+  const forms = [formA, formB];
+  const formGraph: FormGraph = { 'form-a': formA, 'form-b': formB };
+
+  const mapping: PrefillMapping = {
+    targetFormId: 'form-b',
+    targetFieldId: 'email',
+    sourceType: 'form',
+    sourceFormId: 'form-a',
+    sourceFieldId: 'address.city',
+    sourcePath: 'Form A.Address.City',
+  };
+
+  it('should place forms at their blueprint coordinates', () => {
+    const { nodes, bounds } = layoutFormGraph(forms, formGraph);
+
+    expect(nodes.map(node => [node.x, node.y])).toEqual([
+      [0, 100],
+      [300, 0],
+    ]);
+    expect(nodes[0].height).toBe(NODE_HEADER_HEIGHT);
+    expect(bounds).toEqual({
+      x: -40,
+      y: -40,
+      width: 300 + NODE_WIDTH + 80,
+      height: 100 + NODE_HEADER_HEIGHT + 80,
+    });
+  });
+
+  it('should lay out by dependency depth when coordinates are missing', () => {
+    const unplaced = forms.map(({ position: _position, ...form }) => form);
+
+    const { nodes } = layoutFormGraph(unplaced, formGraph);
+
+    expect(nodes[0].x).toBeLessThan(nodes[1].x);
+  });
+
+  it('should run dependency edges from the upstream form to its dependent', () => {
+    const { dependencyEdges } = layoutFormGraph(forms, formGraph);
+
+    expect(dependencyEdges).toHaveLength(1);
+    expect(dependencyEdges[0]).toMatchObject({ sourceFormId: 'form-a', targetFormId: 'form-b' });
+    expect(dependencyEdges[0].path).toMatch(new RegExp(`^M ${NODE_WIDTH} ${100 + NODE_HEADER_HEIGHT / 2} C`));
+    expect(dependencyEdges[0].path).toMatch(new RegExp(`300 ${NODE_HEADER_HEIGHT / 2}$`));
+  });
+
+  it('should draw mappings between field rows only when fields are shown', () => {
+    expect(layoutFormGraph(forms, formGraph, { mappings: [mapping] }).mappingEdges).toEqual([]);
+
+    const { nodes, mappingEdges } = layoutFormGraph(forms, formGraph, {
+      showFields: true,
+      mappings: [mapping],
+    });
+
+    expect(nodes[0].height).toBe(NODE_HEADER_HEIGHT + 2 * FIELD_ROW_HEIGHT);
+    expect(mappingEdges).toHaveLength(1);
+    // The nested source field attaches to its top-level Address row
+    const addressRow = nodes[0].fieldRows.find(row => row.fieldId === 'address')!;
+    const emailRow = nodes[1].fieldRows.find(row => row.fieldId === 'email')!;
+    expect(mappingEdges[0].path).toMatch(new RegExp(`^M ${NODE_WIDTH} ${addressRow.y} C`));
+    expect(mappingEdges[0].path).toMatch(new RegExp(`300 ${emailRow.y}$`));
+  });
+
+  it('should skip mappings that do not read from a drawn form', () => {
+    const global: PrefillMapping = { ...mapping, sourceType: 'global', sourceFormId: undefined };
+    const missing: PrefillMapping = { ...mapping, sourceFormId: 'form-z' };
+
+    const { mappingEdges } = layoutFormGraph(forms, formGraph, {
+      showFields: true,
+      mappings: [global, missing],
+    });
+
+    expect(mappingEdges).toEqual([]);
+  });
+
+  it('should handle an empty blueprint', () => {
+    expect(layoutFormGraph([], {}).bounds).toEqual({ x: 0, y: 0, width: 0, height: 0 });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeDownstreamImpact, findConsumers } from '../impactAnalysis';
+import { FormGraph, PrefillMapping } from '../../types';
+
+describe('impactAnalysis', () => {
+  const formGraph: FormGraph = {
+    'form-a': { id: 'form-a', name: 'Form A', fields: [], dependencies: [] },
+    'form-b': { id: 'form-b', name: 'Form B', fields: [], dependencies: ['form-a'] },
+    'form-d': { id: 'form-d', name: 'Form D', fields: [], dependencies: ['form-b'] },
+  };
+
+  const fromA = (targetFormId: string, targetFieldId: string, sourceFieldId: string): PrefillMapping => ({
+    targetFormId,
+    targetFieldId,
+    sourceType: 'form',
+    sourceFormId: 'form-a',
+    sourceFieldId,
+    sourcePath: `Form A.${sourceFieldId}`,
+  });
+
+  const email = fromA('form-b', 'email', 'email');
+  const city = fromA('form-d', 'city', 'address.city');
+  const conditional: PrefillMapping = {
+    targetFormId: 'form-d',
+    targetFieldId: 'notes',
+    sourceType: 'global',
+    sourceFieldId: 'status',
+    sourcePath: 'Action Properties.status',
+    condition: {
+      sourceType: 'form',
+      sourceFormId: 'form-a',
+      sourceFieldId: 'email',
+      sourcePath: 'Form A.email',
+      operator: 'isNotEmpty',
+    },
+  };
+  const fromB: PrefillMapping = { ...email, targetFormId: 'form-d', sourceFormId: 'form-b' };
+  const mappings = [email, city, conditional, fromB];
+
+  describe('findConsumers', () => {
+    it('should find mappings reading from a form as source or condition', () => {
+      const consumers = findConsumers(mappings, 'form-a');
+
+      expect(consumers.map(c => [c.mapping, c.via])).toEqual([
+        [email, 'source'],
+        [city, 'source'],
+        [conditional, 'condition'],
+      ]);
+    });
+
+    it('should narrow down to a field', () => {
+      expect(findConsumers(mappings, 'form-a', 'email').map(c => c.mapping)).toEqual([
+        email,
+        conditional,
+      ]);
+    });
+
+    it('should include fields nested in the given one', () => {
+      expect(findConsumers(mappings, 'form-a', 'address').map(c => c.fieldId)).toEqual([
+        'address.city',
+      ]);
+      expect(findConsumers(mappings, 'form-a', 'addr')).toEqual([]);
+    });
+  });
+
+  describe('analyzeDownstreamImpact', () => {
+    it('should combine dependents and consumers', () => {
+      const impact = analyzeDownstreamImpact('form-a', formGraph, mappings);
+
+      expect(impact.directDependents).toEqual(['form-b']);
+      expect(impact.transitiveDependents).toEqual(['form-d']);
+      expect(impact.consumers).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildInputMappings,
+  createInputMappingPatch,
+  exportBlueprint,
+} from '../inputMappingExport';
+import { parseInputMappings } from '../inputMappingImport';
+import { Form, GlobalData, MockServerNode, MockServerResponse, PrefillMapping } from '../../types';
+
+describe('inputMappingExport', () => {
+  const createNode = (id: string, inputMapping: Record<string, unknown> = {}): MockServerNode => ({
+    id,
+    type: 'form',
+    position: { x: 0, y: 0 },
+    data: {
+      id: `bp_c-${id}`,
+      component_key: id,
+      component_type: 'form',
+      component_id: `f_${id}`,
+      name: id,
+      prerequisites: [],
+      permitted_roles: [],
+      input_mapping: inputMapping,
+      sla_duration: { number: 0, unit: 'minutes' },
+      approval_required: false,
+      approval_roles: [],
+    },
+  });
+
+  const createBlueprint = (nodes: MockServerNode[]): MockServerResponse => ({
+    id: 'bp_1',
+    tenant_id: 't_1',
+    name: 'Blueprint',
+    description: '',
+    category: 'test',
+    nodes,
+    edges: [],
+    forms: [],
+    branches: [],
+    triggers: [],
+  });
+
+  const fromFormA: PrefillMapping = {
+    targetFormId: 'form-b',
+    targetFieldId: 'email',
+    sourceType: 'form',
+    sourceFormId: 'form-a',
+    sourceFieldId: 'email',
+    sourcePath: 'Form A.Email',
+  };
+  const fromOrg: PrefillMapping = {
+    targetFormId: 'form-b',
+    targetFieldId: 'email',
+    sourceType: 'global',
+    sourceFieldId: 'contact_email',
+    sourcePath: 'clientOrg.Contact Email',
+  };
+  const fromCrm: PrefillMapping = {
+    targetFormId: 'form-b',
+    targetFieldId: 'owner',
+    sourceType: 'custom',
+    sourceId: 'crm',
+    sourceFieldId: 'owner',
+    sourcePath: 'CRM.Owner',
+    fieldTypes: { source: 'button', target: 'text' },
+  };
+  const priority: PrefillMapping = {
+    targetFormId: 'form-b',
+    targetFieldId: 'priority',
+    sourceType: 'constant',
+    sourceFieldId: '',
+    sourcePath: 'Constant = "normal"',
+    constantValue: 'normal',
+    transforms: [{ type: 'uppercase' }],
+  };
+
+  describe('buildInputMappings', () => {
+    it('should serialize each source type', () => {
+      const assignee: PrefillMapping = {
+        ...fromOrg,
+        targetFieldId: 'owner',
+        sourceFieldId: 'assignee',
+        sourcePath: 'Action.Assignee',
+      };
+
+      expect(buildInputMappings([fromFormA, assignee, priority, { ...fromCrm, targetFieldId: 'crm_owner' }])).toEqual({
+        'form-b': {
+          email: { type: 'form_field', component_key: 'form-a', property: 'email' },
+          owner: { type: 'action_property', property: 'assignee' },
+          crm_owner: {
+            type: 'custom_source',
+            source_id: 'crm',
+            property: 'owner',
+            source_path: 'CRM.Owner',
+            field_types: { source: 'button', target: 'text' },
+          },
+          priority: { type: 'constant', value: 'normal', transforms: [{ type: 'uppercase' }] },
+        },
+      });
+    });
+
+    it('should serialize a fallback chain as an ordered array', () => {
+      expect(buildInputMappings([fromFormA, fromOrg])['form-b'].email).toEqual([
+        { type: 'form_field', component_key: 'form-a', property: 'email' },
+        { type: 'client_organisation_property', property: 'contact_email' },
+      ]);
+    });
+  });
+
+  describe('exportBlueprint', () => {
+    it('should replace input_mapping on every node without mutating the input', () => {
+      const blueprint = createBlueprint([
+        createNode('form-a', { stale: { type: 'constant', value: 'x' } }),
+        createNode('form-b'),
+      ]);
+
+      const exported = exportBlueprint(blueprint, [fromFormA]);
+
+      expect(exported.nodes[0].data.input_mapping).toEqual({});
+      expect(exported.nodes[1].data.input_mapping).toEqual({
+        email: { type: 'form_field', component_key: 'form-a', property: 'email' },
+      });
+      expect(blueprint.nodes[0].data.input_mapping).toHaveProperty('stale');
+    });
+
+    it('should round-trip through the importer', () => {
+      const forms: Form[] = [
+        { id: 'form-a', name: 'Form A', fields: [{ id: 'email', label: 'Email', type: 'email' }], dependencies: [] },
+        { id: 'form-b', name: 'Form B', fields: [], dependencies: ['form-a'] },
+      ];
+      const globalData: GlobalData = { actionProperties: [], clientOrgProperties: ['contact_email'] };
+      const mappings = [fromFormA, fromOrg, priority, fromCrm];
+
+      const exported = exportBlueprint(createBlueprint([createNode('form-a'), createNode('form-b')]), mappings);
+
+      expect(parseInputMappings(exported.nodes, forms, globalData)).toEqual(mappings);
+    });
+  });
+
+  describe('createInputMappingPatch', () => {
+    it('should include only nodes whose input_mapping changes', () => {
+      const blueprint = createBlueprint([
+        createNode('form-a', { stale: { type: 'constant', value: 'x' } }),
+        createNode('form-b'),
+        createNode('form-c'),
+      ]);
+
+      const patch = createInputMappingPatch(blueprint, [fromFormA]);
+
+      expect(patch.tenant_id).toBe('t_1');
+      expect(patch.blueprint_id).toBe('bp_1');
+      expect(patch.nodes.map(n => n.id)).toEqual(['form-a', 'form-b']);
+      expect(patch.nodes[0].input_mapping).toEqual({});
+    });
+
+    it('should be empty when nothing changed', () => {
+      const blueprint = exportBlueprint(createBlueprint([createNode('form-b')]), [fromFormA]);
+      expect(createInputMappingPatch(blueprint, [fromFormA]).nodes).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseInputMappings, reconcileMappings } from '../inputMappingImport';
+import { Form, GlobalData, MockServerNode, PrefillMapping } from '../../types';
+
+describe('inputMappingImport', () => {
+  const createNode = (id: string, inputMapping: Record<string, unknown>): MockServerNode => ({
+    id,
+    type: 'form',
+    position: { x: 0, y: 0 },
+    data: {
+      id: `bp_c-${id}`,
+      component_key: id,
+      component_type: 'form',
+      component_id: `f_${id}`,
+      name: id,
+      prerequisites: [],
+      permitted_roles: [],
+      input_mapping: inputMapping,
+      sla_duration: { number: 0, unit: 'minutes' },
+      approval_required: false,
+      approval_roles: [],
+    },
+  });
+
+  const forms: Form[] = [
+    {
+      id: 'form-a',
+      name: 'Form A',
+      fields: [{ id: 'email', label: 'Email', type: 'email' }],
+      dependencies: [],
+    },
+    {
+      id: 'form-b',
+      name: 'Form B',
+      fields: [{ id: 'email', label: 'Email', type: 'email' }],
+      dependencies: ['form-a'],
+    },
+  ];
+
+  const globalData: GlobalData = {
+    actionProperties: ['created_at'],
+    clientOrgProperties: ['org_name'],
+  };
+
+  describe('parseInputMappings', () => {
+    it('should parse a form_field entry using form and field labels', () => {
+      const nodes = [
+        createNode('form-b', {
+          email: { type: 'form_field', component_key: 'form-a', property: 'email' },
+        }),
+      ];
+
+      expect(parseInputMappings(nodes, forms, globalData)).toEqual([
+        {
+          targetFormId: 'form-b',
+          targetFieldId: 'email',
+          sourceType: 'form',
+          sourceFormId: 'form-a',
+          sourceFieldId: 'email',
+          sourcePath: 'Form A.Email',
+        },
+      ]);
+    });
+
+    it('should parse global and constant entries', () => {
+      const nodes = [
+        createNode('form-b', {
+          created: { type: 'action_property', property: 'created_at' },
+          org: { type: 'client_organisation_property', property: 'org_name' },
+          tier: { type: 'constant', value: 'normal' },
+        }),
+      ];
+
+      const [created, org, tier] = parseInputMappings(nodes, forms, globalData);
+
+      expect(created).toMatchObject({ sourceType: 'global', sourcePath: 'Action.Created At' });
+      expect(org).toMatchObject({ sourceType: 'global', sourcePath: 'clientOrg.Org Name' });
+      expect(tier).toEqual({
+        targetFormId: 'form-b',
+        targetFieldId: 'tier',
+        sourceType: 'constant',
+        sourceFieldId: '',
+        sourcePath: 'Constant = "normal"',
+        constantValue: 'normal',
+      });
+    });
+
+    it('should turn an array of entries into a fallback chain', () => {
+      const nodes = [
+        createNode('form-b', {
+          email: [
+            { type: 'form_field', component_key: 'form-a', property: 'email' },
+            { type: 'constant', value: 'nobody@example.com' },
+          ],
+        }),
+      ];
+
+      const chain = parseInputMappings(nodes, forms, globalData);
+
+      expect(chain.map(m => m.sourceType)).toEqual(['form', 'constant']);
+      expect(chain.every(m => m.targetFieldId === 'email')).toBe(true);
+    });
+
+    it('should fall back to raw IDs when the source form is unknown', () => {
+      const nodes = [
+        createNode('form-b', {
+          email: { type: 'form_field', component_key: 'form-x', property: 'email' },
+        }),
+      ];
+
+      expect(parseInputMappings(nodes, forms, globalData)[0].sourcePath).toBe('form-x.email');
+    });
+
+    it('should skip malformed entries with a warning', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const nodes = [
+        createNode('form-b', {
+          email: { type: 'form_field' },
+          name: 'not an entry',
+        }),
+      ];
+
+      expect(parseInputMappings(nodes, forms, globalData)).toEqual([]);
+      expect(warn).toHaveBeenCalledTimes(2);
+      warn.mockRestore();
+    });
+
+    it('should drop malformed transforms and conditions with a warning and keep the entry', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const source = { type: 'form_field', component_key: 'form-a', property: 'email' };
+      const nodes = [
+        createNode('form-b', {
+          email: {
+            ...source,
+            transforms: [{ type: 'uppercase' }, { type: 'reverse' }],
+            condition: { sourceType: 'form', sourceFieldId: 'status', operator: 'equals' },
+          },
+          name: { ...source, transforms: [{ type: 'split', delimiter: ' ', index: 'first' }] },
+          other: { ...source, transforms: [{ type: 'trim' }], condition: 'always' },
+        }),
+      ];
+
+      const mappings = parseInputMappings(nodes, forms, globalData);
+
+      expect(mappings).toHaveLength(3);
+      expect(mappings[0].transforms).toBeUndefined();
+      expect(mappings[0].condition).toBeUndefined();
+      expect(mappings[1].transforms).toBeUndefined();
+      expect(mappings[2].transforms).toEqual([{ type: 'trim' }]);
+      expect(mappings[2].condition).toBeUndefined();
+      expect(warn).toHaveBeenCalledTimes(4);
+      warn.mockRestore();
+    });
+
+    it('should drop malformed field types with a warning and keep the entry', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const nodes = [
+        createNode('form-b', {
+          email: { type: 'form_field', component_key: 'form-a', property: 'email', field_types: { source: 'text' } },
+          name: {
+            type: 'form_field',
+            component_key: 'form-a',
+            property: 'email',
+            field_types: { source: 'text', target: 'date' },
+          },
+        }),
+      ];
+
+      const [email, name] = parseInputMappings(nodes, forms, globalData);
+
+      expect(email.fieldTypes).toBeUndefined();
+      expect(name.fieldTypes).toEqual({ source: 'text', target: 'date' });
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+  });
+
+  describe('reconcileMappings', () => {
+    const fromFormA: PrefillMapping = {
+      targetFormId: 'form-b',
+      targetFieldId: 'email',
+      sourceType: 'form',
+      sourceFormId: 'form-a',
+      sourceFieldId: 'email',
+      sourcePath: 'Form A.Email',
+    };
+    const fromOrg: PrefillMapping = {
+      targetFormId: 'form-b',
+      targetFieldId: 'email',
+      sourceType: 'global',
+      sourceFieldId: 'contact_email',
+      sourcePath: 'clientOrg.Contact Email',
+    };
+
+    it('should report identical chains as a match', () => {
+      const [entry] = reconcileMappings([fromFormA], [{ ...fromFormA, sourcePath: 'renamed' }]);
+      expect(entry.status).toBe('match');
+    });
+
+    it('should report different sources or order as a conflict', () => {
+      expect(reconcileMappings([fromFormA], [fromOrg])[0].status).toBe('conflict');
+      expect(
+        reconcileMappings([fromFormA, fromOrg], [fromOrg, fromFormA])[0].status
+      ).toBe('conflict');
+    });
+
+    it('should report chains that differ only in transforms, conditions or field types as a conflict', () => {
+      const uppercased: PrefillMapping = { ...fromFormA, transforms: [{ type: 'uppercase' }] };
+      const conditional: PrefillMapping = {
+        ...fromFormA,
+        condition: {
+          sourceType: 'form',
+          sourceFormId: 'form-a',
+          sourceFieldId: 'email',
+          sourcePath: 'Form A.Email',
+          operator: 'isNotEmpty',
+        },
+      };
+
+      expect(reconcileMappings([fromFormA], [uppercased])[0].status).toBe('conflict');
+      expect(reconcileMappings([fromFormA], [conditional])[0].status).toBe('conflict');
+      expect(
+        reconcileMappings([fromFormA], [{ ...fromFormA, fieldTypes: { source: 'text', target: 'date' } }])[0]
+          .status
+      ).toBe('conflict');
+      expect(reconcileMappings([uppercased], [{ ...uppercased }])[0].status).toBe('match');
+      expect(reconcileMappings([fromFormA], [{ ...fromFormA, transforms: [] }])[0].status).toBe(
+        'match'
+      );
+    });
+
+    it('should report one-sided mappings', () => {
+      expect(reconcileMappings([fromFormA], [])[0].status).toBe('serverOnly');
+      expect(reconcileMappings([], [fromFormA])[0].status).toBe('localOnly');
+    });
+
+    it('should group entries per target field', () => {
+      const other = { ...fromFormA, targetFieldId: 'name' };
+      const entries = reconcileMappings([fromFormA, fromOrg], [other]);
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0].server).toEqual([fromFormA, fromOrg]);
+      expect(entries[1]).toMatchObject({ targetFieldId: 'name', status: 'localOnly' });
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeCondition,
+  evaluateCondition,
+  isMappingCondition,
+  operatorRequiresValue,
+} from '../mappingConditions';
+import { MappingCondition } from '../../types';
+
+describe('mappingConditions', () => {
+  const surveyStatus: MappingCondition = {
+    sourceType: 'form',
+    sourceFormId: 'form-b',
+    sourceFieldId: 'status',
+    sourcePath: 'Form B.Survey Status',
+    operator: 'equals',
+    value: 'complete',
+  };
+
+  const lookupFrom = (values: Record<string, unknown>) =>
+    (source: { sourcePath: string }) => values[source.sourcePath];
+
+  describe('evaluateCondition', () => {
+    it('should compare equality case-insensitively', () => {
+      expect(evaluateCondition(surveyStatus, lookupFrom({ 'Form B.Survey Status': 'Complete ' }))).toBe(true);
+      expect(evaluateCondition(surveyStatus, lookupFrom({ 'Form B.Survey Status': 'draft' }))).toBe(false);
+    });
+
+    it('should support notEquals and contains', () => {
+      const values = lookupFrom({ 'Form B.Survey Status': 'in progress' });
+      expect(evaluateCondition({ ...surveyStatus, operator: 'notEquals' }, values)).toBe(true);
+      expect(evaluateCondition({ ...surveyStatus, operator: 'contains', value: 'progress' }, values)).toBe(true);
+    });
+
+    it('should support emptiness checks', () => {
+      const isEmpty: MappingCondition = { ...surveyStatus, operator: 'isEmpty', value: undefined };
+      expect(evaluateCondition(isEmpty, lookupFrom({}))).toBe(true);
+      expect(evaluateCondition({ ...isEmpty, operator: 'isNotEmpty' }, lookupFrom({}))).toBe(false);
+    });
+
+    it('should compare array values by their joined form', () => {
+      const tags: MappingCondition = { ...surveyStatus, operator: 'contains', value: 'vip' };
+      expect(evaluateCondition(tags, lookupFrom({ 'Form B.Survey Status': ['new', 'VIP'] }))).toBe(true);
+    });
+  });
+
+  describe('describeCondition', () => {
+    it('should include the value for comparing operators', () => {
+      expect(describeCondition(surveyStatus)).toBe('Form B.Survey Status equals "complete"');
+    });
+
+    it('should omit the value for emptiness operators', () => {
+      expect(describeCondition({ ...surveyStatus, operator: 'isNotEmpty' })).toBe(
+        'Form B.Survey Status is not empty'
+      );
+    });
+  });
+
+  it('should recognize well-formed conditions', () => {
+    expect(isMappingCondition(surveyStatus)).toBe(true);
+    expect(isMappingCondition({ ...surveyStatus, value: undefined, operator: 'isEmpty' })).toBe(true);
+
+    expect(isMappingCondition({ ...surveyStatus, operator: 'matches' })).toBe(false);
+    expect(isMappingCondition({ ...surveyStatus, sourceFormId: undefined })).toBe(false);
+    expect(isMappingCondition({ ...surveyStatus, value: 3 })).toBe(false);
+    expect(isMappingCondition('status = complete')).toBe(false);
+  });
+
+  it('should know which operators need a value', () => {
+    expect(operatorRequiresValue('equals')).toBe(true);
+    expect(operatorRequiresValue('isEmpty')).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { retypeMapping, validateMappings } from '../mappingValidation';
+import { FormGraph, GlobalData, MappingCondition, PrefillMapping } from '../../types';
+
+describe('mappingValidation', () => {
+  const fields = [
+    { id: 'email', label: 'Email', type: 'email' as const },
+    {
+      id: 'address',
+      label: 'Address',
+      type: 'object' as const,
+      children: [{ id: 'address.city', label: 'City', type: 'text' as const }],
+    },
+  ];
+  const formGraph: FormGraph = {
+    'form-a': { id: 'form-a', name: 'Form A', fields, dependencies: [] },
+    'form-b': { id: 'form-b', name: 'Form B', fields, dependencies: ['form-a'] },
+    'form-c': { id: 'form-c', name: 'Form C', fields, dependencies: [] },
+  };
+  const globalData: GlobalData = {
+    actionProperties: ['action_id'],
+    clientOrgProperties: ['org_name'],
+  };
+
+  const valid: PrefillMapping = {
+    targetFormId: 'form-b',
+    targetFieldId: 'email',
+    sourceType: 'form',
+    sourceFormId: 'form-a',
+    sourceFieldId: 'address.city',
+    sourcePath: 'Form A.Address.City',
+  };
+
+  const typesOf = (mappings: PrefillMapping[], data: GlobalData | null = globalData) =>
+    validateMappings(mappings, formGraph, data).map(problem => problem.type);
+
+  it('should accept mappings that still fit the blueprint', () => {
+    const globals: PrefillMapping[] = [
+      { ...valid, sourceType: 'global', sourceFormId: undefined, sourceFieldId: 'action_id', sourcePath: 'action.action_id' },
+      { ...valid, sourceType: 'global', sourceFormId: undefined, sourceFieldId: 'org_name', sourcePath: 'clientOrg.org_name' },
+      { ...valid, sourceType: 'constant', sourceFormId: undefined, sourceFieldId: '', sourcePath: '"x"' },
+    ];
+
+    expect(validateMappings([valid, ...globals], formGraph, globalData)).toEqual([]);
+  });
+
+  it('should report removed target forms and fields', () => {
+    expect(typesOf([{ ...valid, targetFormId: 'form-z' }])).toEqual(['missingTargetForm']);
+    expect(typesOf([{ ...valid, targetFieldId: 'phone' }])).toEqual(['missingTargetField']);
+  });
+
+  it('should report removed source forms and fields', () => {
+    const [problem] = validateMappings([{ ...valid, sourceFormId: 'form-z' }], formGraph, globalData);
+
+    expect(problem.type).toBe('missingSourceForm');
+    expect(problem.message).toBe('Source form form-z no longer exists');
+    expect(typesOf([{ ...valid, sourceFieldId: 'address.zip' }])).toEqual(['missingSourceField']);
+  });
+
+  it('should report sources that are no longer upstream of the target', () => {
+    const [problem] = validateMappings([{ ...valid, sourceFormId: 'form-c' }], formGraph, globalData);
+
+    expect(problem.type).toBe('notAncestor');
+    expect(problem.message).toBe('Form B no longer depends on Form C');
+  });
+
+  it('should check global properties against their own catalog', () => {
+    const orgAsAction: PrefillMapping = {
+      ...valid,
+      sourceType: 'global',
+      sourceFormId: undefined,
+      sourceFieldId: 'org_name',
+      sourcePath: 'action.org_name',
+    };
+
+    expect(typesOf([orgAsAction])).toEqual(['missingSourceField']);
+    // Without a catalog there is nothing to check against
+    expect(typesOf([orgAsAction], null)).toEqual([]);
+  });
+
+  it('should check the field a condition reads', () => {
+    const withCondition = (condition: Partial<MappingCondition>): PrefillMapping => ({
+      ...valid,
+      condition: {
+        sourceType: 'form',
+        sourceFormId: 'form-a',
+        sourceFieldId: 'email',
+        sourcePath: 'Form A.Email',
+        operator: 'isNotEmpty',
+        ...condition,
+      },
+    });
+
+    expect(typesOf([withCondition({})])).toEqual([]);
+    expect(typesOf([withCondition({ sourceFormId: 'form-z' })])).toEqual(['brokenCondition']);
+    expect(typesOf([withCondition({ sourceFieldId: 'phone' })])).toEqual(['brokenCondition']);
+    expect(
+      typesOf([withCondition({ sourceType: 'global', sourceFieldId: 'gone', sourcePath: 'action.gone' })])
+    ).toEqual(['brokenCondition']);
+
+    const [problem] = validateMappings([withCondition({ sourceFormId: 'form-c' })], formGraph, globalData);
+    expect(problem.type).toBe('brokenCondition');
+    expect(problem.message).toBe('The condition reads Form C, which Form B no longer depends on');
+  });
+
+  it('should report fields whose types changed since the conversion was recorded', () => {
+    // Form A.Address.City (text) into Form B.Email (email)
+    const converted: PrefillMapping = { ...valid, fieldTypes: { source: 'text', target: 'email' } };
+    const retargeted: PrefillMapping = { ...valid, fieldTypes: { source: 'text', target: 'date' } };
+    const fromTypedGlobal: PrefillMapping = {
+      ...converted,
+      sourceType: 'global',
+      sourceFormId: undefined,
+      sourceFieldId: 'action_id',
+      sourcePath: 'action.action_id',
+    };
+
+    expect(typesOf([converted, fromTypedGlobal])).toEqual([]);
+    // Nothing says what types an unrecorded mapping was made for
+    expect(typesOf([valid])).toEqual([]);
+
+    const [problem] = validateMappings([retargeted], formGraph, globalData);
+    expect(problem.type).toBe('typeMismatch');
+    expect(problem.message).toBe(
+      'The mapping converts text to date, but the fields are now text and email'
+    );
+    expect(
+      typesOf([fromTypedGlobal], { ...globalData, actionPropertyTypes: { action_id: 'number' } })
+    ).toEqual(['typeMismatch']);
+  });
+
+  describe('retypeMapping', () => {
+    it('should record the conversion for the current field types', () => {
+      const stale: PrefillMapping = { ...valid, fieldTypes: { source: 'text', target: 'date' } };
+
+      expect(retypeMapping(stale, formGraph, globalData)).toEqual({
+        ...valid,
+        fieldTypes: { source: 'text', target: 'email' },
+      });
+    });
+
+    it('should clear the recorded types when the fields now match', () => {
+      const stale: PrefillMapping = {
+        ...valid,
+        sourceFieldId: 'email',
+        fieldTypes: { source: 'text', target: 'email' },
+      };
+
+      const retyped = retypeMapping(stale, formGraph, globalData);
+
+      expect(retyped).not.toHaveProperty('fieldTypes');
+      expect(validateMappings([retyped], formGraph, globalData)).toEqual([]);
+    });
+  });
+
+  it('should keep the stored mapping object on each problem', () => {
+    const broken = { ...valid, targetFieldId: 'phone' };
+
+    const problems = validateMappings([valid, broken], formGraph, globalData);
+
+    expect(problems).toHaveLength(1);
+    expect(problems[0].mapping).toBe(broken);
+  });
+});
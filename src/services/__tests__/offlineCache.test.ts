@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IDBDatabase, IDBFactory } from 'fake-indexeddb';
+import { BlueprintRef, FormBlueprintResponse, PrefillMapping } from '../../types';
+
+describe('offlineCache', () => {
+  const ref: BlueprintRef = { tenantId: 't_1', blueprintId: 'bp_1' };
+
+  const data = {
+    forms: [{ id: 'form-a', name: 'Form A', fields: [], dependencies: [] }],
+    serverMappings: [],
+    nodeVersions: { 'form-a': '1' },
+  } as unknown as FormBlueprintResponse;
+
+  const mapping: PrefillMapping = {
+    targetFormId: 'form-b',
+    targetFieldId: 'email',
+    sourceType: 'form',
+    sourceFormId: 'form-a',
+    sourceFieldId: 'email',
+    sourcePath: 'Form A.Email',
+  };
+
+  // The module keeps its connection, so every test loads a fresh copy
+  const loadCache = async () => {
+    vi.resetModules();
+    return import('../offlineCache');
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('with IndexedDB', () => {
+    beforeEach(() => {
+      vi.stubGlobal('indexedDB', new IDBFactory());
+    });
+
+    it('should store and load a blueprint snapshot', async () => {
+      const cache = await loadCache();
+
+      await cache.saveBlueprintSnapshot(ref, data);
+      const snapshot = await cache.loadBlueprintSnapshot(ref);
+
+      expect(snapshot?.data).toEqual(data);
+      expect(typeof snapshot?.syncedAt).toBe('string');
+    });
+
+    it('should keep mappings and pending nodes per blueprint', async () => {
+      const cache = await loadCache();
+      const other: BlueprintRef = { tenantId: 't_1', blueprintId: 'bp_2' };
+
+      await cache.saveMappingsSnapshot(ref, [mapping]);
+      await cache.savePendingNodes(ref, ['form-b']);
+
+      expect(await cache.loadMappingsSnapshot(ref)).toEqual([mapping]);
+      expect(await cache.loadPendingNodes(ref)).toEqual(['form-b']);
+      expect(await cache.loadMappingsSnapshot(other)).toBeNull();
+      expect(await cache.loadPendingNodes(other)).toEqual([]);
+    });
+
+    it('should resolve empty when starting a transaction throws', async () => {
+      const cache = await loadCache();
+      // Open the connection first; opening runs transactions of its own
+      await cache.loadPendingNodes(ref);
+      vi.spyOn(IDBDatabase.prototype, 'transaction').mockImplementation(() => {
+        throw new DOMException('The database connection is closing', 'InvalidStateError');
+      });
+
+      await expect(cache.savePendingNodes(ref, ['form-b'])).resolves.toBeUndefined();
+      await expect(cache.loadBlueprintSnapshot(ref)).resolves.toBeNull();
+      await expect(cache.loadPendingNodes(ref)).resolves.toEqual([]);
+    });
+
+    it('should reopen the database after a failed transaction', async () => {
+      const cache = await loadCache();
+      await cache.loadPendingNodes(ref);
+      const transaction = vi.spyOn(IDBDatabase.prototype, 'transaction');
+      transaction.mockImplementationOnce(() => {
+        throw new DOMException('The database connection is closing', 'InvalidStateError');
+      });
+
+      expect(await cache.loadPendingNodes(ref)).toEqual([]);
+
+      await cache.savePendingNodes(ref, ['form-b']);
+      expect(await cache.loadPendingNodes(ref)).toEqual(['form-b']);
+    });
+  });
+
+  describe('without IndexedDB', () => {
+    it('should resolve empty when IndexedDB does not exist', async () => {
+      vi.stubGlobal('indexedDB', undefined);
+      const cache = await loadCache();
+
+      await expect(cache.saveMappingsSnapshot(ref, [mapping])).resolves.toBeUndefined();
+      expect(await cache.loadMappingsSnapshot(ref)).toBeNull();
+      expect(await cache.loadPendingNodes(ref)).toEqual([]);
+    });
+
+    it('should resolve empty when opening the database throws', async () => {
+      vi.stubGlobal('indexedDB', {
+        open: () => {
+          throw new DOMException('Access denied', 'SecurityError');
+        },
+      });
+      const cache = await loadCache();
+
+      expect(await cache.loadBlueprintSnapshot(ref)).toBeNull();
+      expect(await cache.loadPendingNodes(ref)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { resolveMappingChain, resolveMappingValue } from '../prefillResolver';
+import { PrefillMapping } from '../../types';
+
+describe('prefillResolver', () => {
+  const formBEmail: PrefillMapping = {
+    targetFormId: 'form-d',
+    targetFieldId: 'email',
+    sourceType: 'form',
+    sourceFormId: 'form-b',
+    sourceFieldId: 'email',
+    sourcePath: 'Form B.Email',
+  };
+
+  const formAEmail: PrefillMapping = {
+    ...formBEmail,
+    sourceFormId: 'form-a',
+    sourcePath: 'Form A.Email',
+  };
+
+  const lookupFrom = (values: Record<string, unknown>) => (source: { sourcePath: string }) =>
+    values[source.sourcePath];
+
+  describe('resolveMappingValue', () => {
+    it('should apply the mapping transforms', () => {
+      const mapping: PrefillMapping = { ...formAEmail, transforms: [{ type: 'uppercase' }] };
+      expect(resolveMappingValue(mapping, lookupFrom({ 'Form A.Email': 'a@x.io' }))).toBe('A@X.IO');
+    });
+
+    it('should convert the source value to the target type before transforms', () => {
+      const mapping: PrefillMapping = {
+        ...formAEmail,
+        fieldTypes: { source: 'text', target: 'date' },
+        transforms: [{ type: 'uppercase' }],
+      };
+
+      expect(
+        resolveMappingValue(mapping, lookupFrom({ 'Form A.Email': '2024-05-01T10:00:00Z' }))
+      ).toBe('2024-05-01');
+    });
+
+    it('should serialize converted objects and option lists as JSON', () => {
+      const toObject: PrefillMapping = { ...formAEmail, fieldTypes: { source: 'text', target: 'object' } };
+      const toCheckbox: PrefillMapping = { ...formAEmail, fieldTypes: { source: 'text', target: 'checkbox' } };
+
+      expect(
+        resolveMappingValue(toObject, lookupFrom({ 'Form A.Email': '{ "city": "Oslo" }' }))
+      ).toBe('{"city":"Oslo"}');
+      expect(resolveMappingValue(toCheckbox, lookupFrom({ 'Form A.Email': 'a, b' }))).toBe(
+        '["a","b"]'
+      );
+    });
+
+    it('should resolve empty when the value cannot be converted', () => {
+      const mapping: PrefillMapping = { ...formAEmail, fieldTypes: { source: 'text', target: 'email' } };
+      expect(resolveMappingValue(mapping, lookupFrom({ 'Form A.Email': 'not an email' }))).toBe('');
+    });
+  });
+
+  it('should resolve constant mappings without consulting the lookup', () => {
+    const constant: PrefillMapping = {
+      targetFormId: 'form-d',
+      targetFieldId: 'priority',
+      sourceType: 'constant',
+      sourceFieldId: '',
+      sourcePath: 'Constant = "normal"',
+      constantValue: 'normal',
+    };
+
+    expect(resolveMappingValue(constant, () => 'ignored')).toBe('normal');
+  });
+
+  describe('resolveMappingChain', () => {
+    it('should fall back when a value cannot be converted', () => {
+      const lossy: PrefillMapping = { ...formBEmail, fieldTypes: { source: 'text', target: 'email' } };
+      const result = resolveMappingChain(
+        [lossy, formAEmail],
+        lookupFrom({ 'Form B.Email': 'n/a', 'Form A.Email': 'a@x.io' })
+      );
+
+      expect(result).toEqual({ value: 'a@x.io', mapping: formAEmail, index: 1 });
+    });
+
+    it('should use the first entry when it has a value', () => {
+      const result = resolveMappingChain(
+        [formBEmail, formAEmail],
+        lookupFrom({ 'Form B.Email': 'b@x.io', 'Form A.Email': 'a@x.io' })
+      );
+
+      expect(result).toEqual({ value: 'b@x.io', mapping: formBEmail, index: 0 });
+    });
+
+    it('should fall back when earlier entries are empty', () => {
+      const result = resolveMappingChain(
+        [formBEmail, formAEmail],
+        lookupFrom({ 'Form B.Email': '   ', 'Form A.Email': 'a@x.io' })
+      );
+
+      expect(result).toEqual({ value: 'a@x.io', mapping: formAEmail, index: 1 });
+    });
+
+    it('should judge emptiness after transforms are applied', () => {
+      const defaulted: PrefillMapping = {
+        ...formBEmail,
+        transforms: [{ type: 'defaultIfEmpty', value: 'none@x.io' }],
+      };
+
+      const result = resolveMappingChain([defaulted, formAEmail], lookupFrom({}));
+      expect(result.value).toBe('none@x.io');
+      expect(result.index).toBe(0);
+    });
+
+    it('should skip entries whose condition does not hold', () => {
+      const enterpriseOnly: PrefillMapping = {
+        ...formBEmail,
+        condition: {
+          sourceType: 'global',
+          sourceFieldId: 'plan_type',
+          sourcePath: 'clientOrg.Plan Type',
+          operator: 'equals',
+          value: 'enterprise',
+        },
+      };
+      const values = { 'Form B.Email': 'b@x.io', 'Form A.Email': 'a@x.io' };
+
+      expect(
+        resolveMappingChain(
+          [enterpriseOnly, formAEmail],
+          lookupFrom({ ...values, 'clientOrg.Plan Type': 'starter' })
+        ).index
+      ).toBe(1);
+      expect(
+        resolveMappingChain(
+          [enterpriseOnly, formAEmail],
+          lookupFrom({ ...values, 'clientOrg.Plan Type': 'enterprise' })
+        ).index
+      ).toBe(0);
+    });
+
+    it('should report no match when every entry is empty', () => {
+      expect(resolveMappingChain([formBEmail, formAEmail], lookupFrom({}))).toEqual({
+        value: '',
+        mapping: undefined,
+        index: -1,
+      });
+    });
+  });
+});
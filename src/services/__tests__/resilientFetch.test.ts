@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TimeoutError, fetchWithRetry, isAbortError } from '../resilientFetch';
+
+describe('fetchWithRetry', () => {
+  const fast = { retryDelayMs: 1, timeoutMs: 50 };
+
+  // A request that only ends when aborted
+  const hang = (_url: string, init?: RequestInit) =>
+    new Promise<Response>((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () =>
+        reject(new DOMException('Aborted', 'AbortError'))
+      );
+    });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should retry 5xx responses and network errors until one succeeds', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('', { status: 503 }))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(new Response('ok'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await fetchWithRetry('/x', {}, fast);
+
+    expect(await response.text()).toBe('ok');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry client errors', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('', { status: 404 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await fetchWithRetry('/x', {}, fast);
+
+    expect(response.status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return the last 5xx response once retries run out', async () => {
+    const fetchMock = vi.fn(async () => new Response('', { status: 500 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await fetchWithRetry('/x', {}, { ...fast, retries: 2 });
+
+    expect(response.status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should back off exponentially between retries', async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn(async () => new Response('', { status: 502 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const pending = fetchWithRetry('/x', {}, { retries: 3, retryDelayMs: 100 });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(400);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+
+    expect((await pending).status).toBe(502);
+  });
+
+  it('should time out slow attempts', async () => {
+    const fetchMock = vi.fn(hang);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const error = await fetchWithRetry('/x', {}, { ...fast, timeoutMs: 5, retries: 1 }).catch(
+      e => e
+    );
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop at once when cancelled', async () => {
+    const fetchMock = vi.fn(hang);
+    vi.stubGlobal('fetch', fetchMock);
+    const controller = new AbortController();
+
+    const pending = fetchWithRetry('/x', {}, { ...fast, signal: controller.signal });
+    controller.abort();
+    const error = await pending.catch(e => e);
+
+    expect(isAbortError(error)).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest';
+import { transformGlobalProperties, transformMockServerResponse } from '../responseTransformer';
+import { MockServerResponse, MockServerFormTemplate, MockServerNode } from '../../types';
+
+describe('responseTransformer', () => {
+  const createNode = (
+    id: string,
+    name: string,
+    componentId: string,
+    prerequisites: string[] = []
+  ): MockServerNode => ({
+    id,
+    type: 'form',
+    position: { x: 0, y: 0 },
+    data: {
+      id: `bp_c-${id}`,
+      component_key: id,
+      component_type: 'form',
+      component_id: componentId,
+      name,
+      prerequisites,
+      permitted_roles: [],
+      input_mapping: {},
+      sla_duration: { number: 0, unit: 'minutes' },
+      approval_required: false,
+      approval_roles: [],
+    },
+  });
+
+  const createResponse = (
+    nodes: MockServerNode[],
+    forms: MockServerFormTemplate[]
+  ): MockServerResponse => ({
+    id: 'bp_1',
+    tenant_id: 't_1',
+    name: 'Blueprint',
+    description: '',
+    category: 'test',
+    nodes,
+    edges: [],
+    forms,
+    branches: [],
+    triggers: [],
+  });
+
+  const nestedTemplate: MockServerFormTemplate = {
+    id: 'f_nested',
+    name: 'Nested',
+    description: '',
+    is_reusable: false,
+    field_schema: {
+      type: 'object',
+      properties: {
+        email: { avantos_type: 'short-text', title: 'Email', type: 'string', format: 'email' },
+        address: {
+          avantos_type: 'object-enum',
+          title: 'Address',
+          type: 'object',
+          properties: {
+            city: { type: 'string', title: 'City' },
+            moved_in: { type: 'string', format: 'date' },
+          },
+        },
+        contacts: {
+          avantos_type: 'multi-select',
+          title: 'Contacts',
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              email: { type: 'string', format: 'email', title: 'Contact Email' },
+            },
+          },
+        },
+        tags: {
+          avantos_type: 'multi-select',
+          title: 'Tags',
+          type: 'array',
+          items: { type: 'string', enum: ['a', 'b'] },
+        },
+      },
+    },
+  };
+
+  it('should transform nodes into forms with their prerequisites', () => {
+    const result = transformMockServerResponse(
+      createResponse(
+        [createNode('form-a', 'Form A', 'f_nested'), createNode('form-b', 'Form B', 'f_nested', ['form-a'])],
+        [nestedTemplate]
+      )
+    );
+
+    expect(result.forms.map(f => f.id)).toEqual(['form-a', 'form-b']);
+    expect(result.forms[1].dependencies).toEqual(['form-a']);
+  });
+
+  it('should keep the node position for the graph view', () => {
+    const placed = { ...createNode('form-a', 'Form A', 'f_nested'), position: { x: 120, y: -40 } };
+    const unplaced = { ...createNode('form-b', 'Form B', 'f_nested') } as Partial<MockServerNode>;
+    delete unplaced.position;
+
+    const result = transformMockServerResponse(
+      createResponse([placed, unplaced as MockServerNode], [nestedTemplate])
+    );
+
+    expect(result.forms[0].position).toEqual({ x: 120, y: -40 });
+    expect(result.forms[1].position).toBeUndefined();
+  });
+
+  it('should skip nodes without a matching form template', () => {
+    const result = transformMockServerResponse(
+      createResponse([createNode('form-a', 'Form A', 'missing')], [nestedTemplate])
+    );
+
+    expect(result.forms).toHaveLength(0);
+  });
+
+  it('should keep nested object properties as children with dotted IDs', () => {
+    const result = transformMockServerResponse(
+      createResponse([createNode('form-a', 'Form A', 'f_nested')], [nestedTemplate])
+    );
+    const address = result.forms[0].fields.find(f => f.id === 'address')!;
+
+    expect(address.type).toBe('object');
+    expect(address.children).toEqual([
+      { id: 'address.city', label: 'City', type: 'text' },
+      { id: 'address.moved_in', label: 'moved_in', type: 'date' },
+    ]);
+  });
+
+  it('should expose structured array items as a child field', () => {
+    const result = transformMockServerResponse(
+      createResponse([createNode('form-a', 'Form A', 'f_nested')], [nestedTemplate])
+    );
+    const contacts = result.forms[0].fields.find(f => f.id === 'contacts')!;
+
+    expect(contacts.children).toHaveLength(1);
+    expect(contacts.children![0].id).toBe('contacts[]');
+    expect(contacts.children![0].label).toBe('Contacts item');
+    expect(contacts.children![0].children).toEqual([
+      { id: 'contacts[].email', label: 'Contact Email', type: 'email' },
+    ]);
+  });
+
+  it('should keep plain fields as leaves', () => {
+    const result = transformMockServerResponse(
+      createResponse([createNode('form-a', 'Form A', 'f_nested')], [nestedTemplate])
+    );
+    const fields = result.forms[0].fields;
+
+    expect(fields.find(f => f.id === 'email')).toEqual({ id: 'email', label: 'Email', type: 'text' });
+  });
+
+  it('should expose the item of an enum array as a child field', () => {
+    const result = transformMockServerResponse(
+      createResponse([createNode('form-a', 'Form A', 'f_nested')], [nestedTemplate])
+    );
+    const tags = result.forms[0].fields.find(f => f.id === 'tags')!;
+
+    expect(tags.children).toEqual([{ id: 'tags[]', label: 'Tags item', type: 'text' }]);
+  });
+
+  it('should import node input_mapping as server mappings', () => {
+    const nodeA = createNode('form-a', 'Form A', 'f_nested');
+    const nodeB = createNode('form-b', 'Form B', 'f_nested', ['form-a']);
+    nodeB.data.input_mapping = {
+      email: { type: 'form_field', component_key: 'form-a', property: 'email' },
+    };
+
+    const result = transformMockServerResponse(createResponse([nodeA, nodeB], [nestedTemplate]));
+
+    expect(result.serverMappings).toEqual([
+      {
+        targetFormId: 'form-b',
+        targetFieldId: 'email',
+        sourceType: 'form',
+        sourceFormId: 'form-a',
+        sourceFieldId: 'email',
+        sourcePath: 'Form A.Email',
+      },
+    ]);
+  });
+
+  it('should build dependencies from edges as well as prerequisites', () => {
+    const response = createResponse(
+      [
+        createNode('form-a', 'Form A', 'f_nested'),
+        createNode('form-b', 'Form B', 'f_nested', ['form-a']),
+        createNode('form-c', 'Form C', 'f_nested', ['form-b']),
+      ],
+      [nestedTemplate]
+    );
+    response.edges = [
+      { source: 'form-a', target: 'form-b' },
+      { source: 'form-a', target: 'form-c' },
+    ];
+
+    const result = transformMockServerResponse(response);
+
+    expect(result.forms.find(f => f.id === 'form-c')!.dependencies).toEqual(['form-b', 'form-a']);
+    expect(result.dependencyIssues).toHaveLength(1);
+    expect(result.dependencyIssues[0].type).toBe('edgeWithoutPrerequisite');
+  });
+
+  it('should fall back to built-in global properties with types', () => {
+    const result = transformMockServerResponse(createResponse([], []));
+
+    expect(result.globalData.actionProperties).toContain('created_at');
+    expect(result.globalData.actionPropertyTypes?.created_at).toBe('date');
+    expect(result.globalData.clientOrgPropertyTypes?.org_id).toBeUndefined();
+  });
+
+  it('should use the given global properties catalog', () => {
+    const globalData = transformGlobalProperties({
+      action_properties: [
+        { name: 'created_at', type: 'string', format: 'date-time' },
+        { name: 'score', type: 'number' },
+      ],
+      client_organisation_properties: [{ name: 'org_id', type: 'string' }],
+    });
+
+    expect(globalData).toEqual({
+      actionProperties: ['created_at', 'score'],
+      clientOrgProperties: ['org_id'],
+      actionPropertyTypes: { created_at: 'date', score: 'number' },
+      clientOrgPropertyTypes: { org_id: 'text' },
+    });
+    expect(transformMockServerResponse(createResponse([], []), globalData).globalData).toBe(globalData);
+  });
+});
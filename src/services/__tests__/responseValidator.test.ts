@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { formatValidationIssue, validateBlueprintResponse } from '../responseValidator';
+
+describe('responseValidator', () => {
+  const validResponse = () => ({
+    id: 'bp_1',
+    nodes: [
+      {
+        id: 'form-a',
+        data: {
+          name: 'Form A',
+          component_id: 'f_1',
+          prerequisites: [],
+          input_mapping: {},
+        },
+      },
+    ],
+    edges: [],
+    forms: [
+      {
+        id: 'f_1',
+        field_schema: {
+          type: 'object',
+          properties: { email: { type: 'string', avantos_type: 'short-text' } },
+        },
+      },
+    ],
+  });
+
+  const messages = (issues: { path: string; message: string }[]) =>
+    issues.map(issue => formatValidationIssue({ ...issue, severity: 'error' }));
+
+  it('should accept a well-formed response', () => {
+    expect(validateBlueprintResponse(validResponse())).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('should reject non-objects', () => {
+    expect(messages(validateBlueprintResponse('oops').errors)).toEqual([
+      'Response is not a JSON object',
+    ]);
+  });
+
+  it('should report missing top-level collections', () => {
+    const { errors, warnings } = validateBlueprintResponse({ id: 'bp_1' });
+
+    expect(messages(errors)).toEqual(['forms missing', 'nodes missing']);
+    expect(messages(warnings)).toEqual(['edges missing']);
+  });
+
+  it('should address nested problems by path', () => {
+    const response = validResponse();
+    response.forms.push({ id: 'f_2' } as never, { id: 'f_3', field_schema: { type: 'object' } } as never);
+
+    expect(messages(validateBlueprintResponse(response).errors)).toEqual([
+      'forms[1].field_schema missing',
+      'forms[2].field_schema.properties missing',
+    ]);
+  });
+
+  it('should check nested properties and array items', () => {
+    const response = validResponse();
+    response.forms[0].field_schema.properties = {
+      tags: { type: 'array', items: ['a', 'b'] },
+      address: { type: 'object', properties: { city: 'text', zip: {} } },
+    } as never;
+
+    const { errors, warnings } = validateBlueprintResponse(response);
+
+    expect(messages(errors)).toEqual([
+      'forms[0].field_schema.properties.tags.items should be an object',
+      'forms[0].field_schema.properties.address.properties.city should be an object',
+    ]);
+    expect(messages(warnings)).toEqual([
+      'forms[0].field_schema.properties.address.properties.zip.type missing',
+    ]);
+  });
+
+  it('should check node data and edges', () => {
+    const response = validResponse() as Record<string, unknown>;
+    response.nodes = [{ id: 'form-a', data: { component_id: 3, prerequisites: 'form-b' } }, { data: {} }];
+    response.edges = [{ source: 'form-a' }];
+
+    const { errors } = validateBlueprintResponse(response);
+
+    expect(messages(errors)).toEqual([
+      'nodes[0].data.component_id should be a string',
+      'nodes[0].data.prerequisites should be an array of strings',
+      'nodes[1].id missing',
+      'nodes[1].data.component_id missing',
+      'edges[0].target missing',
+    ]);
+  });
+
+  it('should only warn about problems the app can work around', () => {
+    const response = validResponse();
+    response.nodes.push({ ...response.nodes[0], data: { ...response.nodes[0].data, component_id: 'f_x' } });
+    delete (response.forms[0].field_schema.properties.email as Record<string, unknown>).type;
+
+    const { errors, warnings } = validateBlueprintResponse(response);
+
+    expect(errors).toEqual([]);
+    expect(messages(warnings)).toEqual([
+      'forms[0].field_schema.properties.email.type missing',
+      'nodes[1].id duplicates node "form-a"',
+      'nodes[1].data.component_id refers to unknown form "f_x"',
+    ]);
+  });
+});
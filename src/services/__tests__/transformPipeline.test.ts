@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyTransform,
+  applyTransforms,
+  describeTransform,
+  getTransformDefinition,
+  isTransformStep,
+  TRANSFORM_DEFINITIONS,
+} from '../transformPipeline';
+
+describe('transformPipeline', () => {
+  describe('applyTransform', () => {
+    it('should trim whitespace', () => {
+      expect(applyTransform('  hello  ', { type: 'trim' })).toBe('hello');
+    });
+
+    it('should change case', () => {
+      expect(applyTransform('Hello', { type: 'uppercase' })).toBe('HELLO');
+      expect(applyTransform('Hello', { type: 'lowercase' })).toBe('hello');
+    });
+
+    it('should concatenate prefix and suffix', () => {
+      expect(
+        applyTransform('42', { type: 'concatenate', prefix: '#', suffix: '!' })
+      ).toBe('#42!');
+    });
+
+    it('should take a substring with and without an end index', () => {
+      expect(applyTransform('abcdef', { type: 'substring', start: 1, end: 3 })).toBe('bc');
+      expect(applyTransform('abcdef', { type: 'substring', start: 2 })).toBe('cdef');
+    });
+
+    it('should split and keep the requested part', () => {
+      expect(applyTransform('Ada Lovelace', { type: 'split', delimiter: ' ', index: 0 })).toBe('Ada');
+      expect(applyTransform('Ada Lovelace', { type: 'split', delimiter: ' ', index: 1 })).toBe('Lovelace');
+    });
+
+    it('should return empty string when split index is out of range', () => {
+      expect(applyTransform('Ada', { type: 'split', delimiter: ' ', index: 3 })).toBe('');
+    });
+
+    it('should reformat valid dates', () => {
+      expect(
+        applyTransform('2024-03-07T09:05:00Z', { type: 'dateFormat', format: 'DD/MM/YYYY HH:mm' })
+      ).toBe('07/03/2024 09:05');
+    });
+
+    it('should leave invalid dates unchanged', () => {
+      expect(applyTransform('not a date', { type: 'dateFormat', format: 'YYYY' })).toBe('not a date');
+    });
+
+    it('should format numbers', () => {
+      expect(
+        applyTransform('1234.5', { type: 'numberFormat', decimals: 2, useGrouping: true })
+      ).toBe('1,234.50');
+      expect(
+        applyTransform('1234.567', { type: 'numberFormat', decimals: 1, useGrouping: false })
+      ).toBe('1234.6');
+    });
+
+    it('should clamp out-of-range decimals instead of throwing', () => {
+      expect(
+        applyTransform('1.5', { type: 'numberFormat', decimals: -1, useGrouping: false })
+      ).toBe('2');
+      expect(
+        applyTransform('1.5', { type: 'numberFormat', decimals: 150, useGrouping: false })
+      ).toBe('1.50000000000000000000');
+      expect(
+        applyTransform('1.5', { type: 'numberFormat', decimals: NaN, useGrouping: false })
+      ).toBe('2');
+    });
+
+    it('should leave non-numeric values unchanged when formatting numbers', () => {
+      expect(
+        applyTransform('abc', { type: 'numberFormat', decimals: 2, useGrouping: false })
+      ).toBe('abc');
+    });
+
+    it('should substitute a default only when empty', () => {
+      expect(applyTransform('  ', { type: 'defaultIfEmpty', value: 'n/a' })).toBe('n/a');
+      expect(applyTransform('set', { type: 'defaultIfEmpty', value: 'n/a' })).toBe('set');
+    });
+  });
+
+  describe('applyTransforms', () => {
+    it('should apply steps in order', () => {
+      expect(
+        applyTransforms('  ada lovelace ', [
+          { type: 'trim' },
+          { type: 'split', delimiter: ' ', index: 0 },
+          { type: 'uppercase' },
+        ])
+      ).toBe('ADA');
+    });
+
+    it('should return the stringified value when no steps are given', () => {
+      expect(applyTransforms(42)).toBe('42');
+      expect(applyTransforms('x', [])).toBe('x');
+    });
+
+    it('should treat null and undefined as empty', () => {
+      expect(applyTransforms(null, [{ type: 'defaultIfEmpty', value: 'none' }])).toBe('none');
+      expect(applyTransforms(undefined)).toBe('');
+    });
+  });
+
+  describe('definitions', () => {
+    it('should provide a definition with a matching default for every transform', () => {
+      TRANSFORM_DEFINITIONS.forEach(def => {
+        expect(getTransformDefinition(def.type)).toBe(def);
+        expect(def.createDefault().type).toBe(def.type);
+      });
+    });
+
+    it('should accept only registered steps with well-typed options', () => {
+      TRANSFORM_DEFINITIONS.forEach(def => expect(isTransformStep(def.createDefault())).toBe(true));
+      expect(isTransformStep({ type: 'substring', start: 1, end: 3 })).toBe(true);
+
+      expect(isTransformStep({ type: 'reverse' })).toBe(false);
+      expect(isTransformStep({ type: 'split', delimiter: ' ' })).toBe(false);
+      expect(isTransformStep({ type: 'numberFormat', decimals: '2', useGrouping: false })).toBe(false);
+      expect(isTransformStep({ type: 'substring', start: 0, end: 'x' })).toBe(false);
+      expect(isTransformStep(null)).toBe(false);
+    });
+
+    it('should describe steps for display', () => {
+      expect(describeTransform({ type: 'trim' })).toBe('Trim');
+      expect(describeTransform({ type: 'substring', start: 0 })).toBe('Substring 0–end');
+      expect(describeTransform({ type: 'defaultIfEmpty', value: 'x' })).toBe('Default "x"');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TypeCompatibilityMatrix,
+  createDefaultCompatibilityMatrix,
+} from '../typeCompatibility';
+
+describe('TypeCompatibilityMatrix', () => {
+  const matrix = createDefaultCompatibilityMatrix();
+
+  describe('classify', () => {
+    it('should classify identical types as exact', () => {
+      expect(matrix.classify('date', 'date').level).toBe('exact');
+    });
+
+    it('should classify widening conversions to text as safe', () => {
+      expect(matrix.classify('email', 'text').level).toBe('safe');
+      expect(matrix.classify('number', 'text').level).toBe('safe');
+      expect(matrix.classify('button', 'text').level).toBe('safe');
+    });
+
+    it('should classify narrowing conversions as lossy', () => {
+      expect(matrix.classify('text', 'email').level).toBe('lossy');
+      expect(matrix.classify('text', 'date').level).toBe('lossy');
+      expect(matrix.classify('object', 'text').level).toBe('lossy');
+    });
+
+    it('should classify unrelated types as incompatible', () => {
+      expect(matrix.classify('date', 'checkbox').level).toBe('incompatible');
+      expect(matrix.classify('text', 'button').level).toBe('incompatible');
+    });
+  });
+
+  describe('coerce', () => {
+    it('should convert safe pairs', () => {
+      expect(matrix.coerce(['A', 'B'], 'checkbox', 'text')).toBe('A, B');
+      expect(matrix.coerce(42, 'number', 'text')).toBe('42');
+    });
+
+    it('should convert or reject lossy pairs based on the value', () => {
+      expect(matrix.coerce(' a@b.co ', 'text', 'email')).toBe('a@b.co');
+      expect(matrix.coerce('nope', 'text', 'email')).toBeNull();
+      expect(matrix.coerce('2024-05-01T10:00:00Z', 'text', 'date')).toBe('2024-05-01');
+      expect(matrix.coerce('12.5', 'text', 'number')).toBe(12.5);
+      expect(matrix.coerce('abc', 'text', 'number')).toBeNull();
+      expect(matrix.coerce('A, B', 'text', 'checkbox')).toEqual(['A', 'B']);
+      expect(matrix.coerce('{"a":1}', 'text', 'object')).toEqual({ a: 1 });
+    });
+
+    it('should return null for incompatible pairs', () => {
+      expect(matrix.coerce('2024-01-01', 'date', 'checkbox')).toBeNull();
+    });
+
+    it('should pass exact values through unchanged', () => {
+      const value = { a: 1 };
+      expect(matrix.coerce(value, 'object', 'object')).toBe(value);
+    });
+  });
+
+  describe('register', () => {
+    it('should let callers add and override rules', () => {
+      const custom = new TypeCompatibilityMatrix();
+      custom.register({
+        source: 'number',
+        target: 'date',
+        level: 'lossy',
+        description: 'Timestamps become dates.',
+        coerce: value => new Date(Number(value)).toISOString().slice(0, 10),
+      });
+
+      expect(custom.classify('number', 'date').level).toBe('lossy');
+      expect(custom.coerce(0, 'number', 'date')).toBe('1970-01-01');
+      expect(custom.getAll()).toHaveLength(1);
+    });
+  });
+});
@@ -1,5 +1,17 @@
-import { FormBlueprintResponse, MockServerResponse } from '../types';
-import { transformMockServerResponse } from './responseTransformer';
+import {
+  AvantosInputMapping,
+  BlueprintRef,
+  BlueprintSummary,
+  FormBlueprintResponse,
+  GlobalData,
+  MockServerGlobalPropertiesResponse,
+  MockServerResponse,
+  NodeInputMappingState,
+  ValidationIssue,
+} from '../types';
+import { transformGlobalProperties, transformMockServerResponse } from './responseTransformer';
+import { formatValidationIssue, validateBlueprintResponse } from './responseValidator';
+import { RequestOptions, TimeoutError, fetchWithRetry, isAbortError } from './resilientFetch';
 
 /**
  * API Configuration
@@ -10,38 +22,327 @@ import { transformMockServerResponse } from './responseTransformer';
  */
 const API_CONFIG = {
   baseUrl: '/api', // Relative path - Vite will proxy to http://localhost:3000
+};
+
+/**
+ * How long the optional global properties catalog may take before the
+ * built-in list is used instead (ms)
+ */
+const GLOBAL_PROPERTIES_TIMEOUT_MS = 3000;
+
+/**
+ * Blueprint opened when none is selected (e.g. no tenant/blueprint in the URL)
+ */
+export const DEFAULT_BLUEPRINT: BlueprintRef = {
   tenantId: 't_01jk71bxfsewajm2vb41twnk2h',
   blueprintId: 'ab_01jk7at9w9eweev3fq8rrv3sbv',
 };
 
+/**
+ * Constructs the URL of a tenant's blueprint collection
+ *
+ * Returns: /api/v1/{tenantId}/actions/blueprints
+ */
+function getBlueprintsUrl(tenantId: string): string {
+  return `${API_CONFIG.baseUrl}/v1/${encodeURIComponent(tenantId)}/actions/blueprints`;
+}
+
 /**
  * Constructs the full API endpoint URL
  *
  * Returns: /api/v1/{tenantId}/actions/blueprints/{blueprintId}/graph
  * Vite proxy will forward to: http://localhost:3000/api/v1/...
  */
-function getApiUrl(): string {
-  const { baseUrl, tenantId, blueprintId } = API_CONFIG;
-  return `${baseUrl}/v1/${tenantId}/actions/blueprints/${blueprintId}/graph`;
+function getApiUrl({ tenantId, blueprintId }: BlueprintRef): string {
+  return `${getBlueprintsUrl(tenantId)}/${encodeURIComponent(blueprintId)}/graph`;
+}
+
+/**
+ * Constructs the URL of the tenant's global properties catalog
+ *
+ * Returns: /api/v1/{tenantId}/global_properties
+ */
+function getGlobalPropertiesUrl(tenantId: string): string {
+  return `${API_CONFIG.baseUrl}/v1/${encodeURIComponent(tenantId)}/global_properties`;
+}
+
+/**
+ * Constructs the URL of one node's input_mapping resource
+ *
+ * Returns: /api/v1/{tenantId}/actions/blueprints/{blueprintId}/nodes/{nodeId}/input_mapping
+ */
+function getNodeInputMappingUrl({ tenantId, blueprintId }: BlueprintRef, nodeId: string): string {
+  return `${getBlueprintsUrl(tenantId)}/${encodeURIComponent(blueprintId)}/nodes/${encodeURIComponent(nodeId)}/input_mapping`;
+}
+
+/**
+ * Reads the version from an ETag header, dropping the quotes and weak prefix
+ */
+function parseEtag(header: string | null): string {
+  return (header ?? '').replace(/^W\//, '').replace(/"/g, '');
+}
+
+/**
+ * Reads the server's current state of a node from a 412 response
+ * Servers that send no usable body are asked for the node's input_mapping;
+ * if that fails too, the conflict carries no mappings and the ETag's version
+ */
+async function readConflictState(
+  response: Response,
+  ref: BlueprintRef,
+  nodeId: string
+): Promise<NodeInputMappingState> {
+  const version = parseEtag(response.headers.get('ETag'));
+
+  let body: unknown;
+  try {
+    body = JSON.parse(await response.text());
+  } catch {
+    body = undefined;
+  }
+  if (typeof body === 'object' && body !== null && !Array.isArray(body)) {
+    const { input_mapping } = body as { input_mapping?: AvantosInputMapping };
+    return { inputMapping: input_mapping ?? {}, version };
+  }
+
+  try {
+    return await fetchNodeInputMapping(nodeId, ref);
+  } catch {
+    return { inputMapping: {}, version };
+  }
+}
+
+/**
+ * Sends a write to a node's input_mapping and returns the new version
+ * A 412 response means the node changed since `version` was read
+ *
+ * @throws {ConflictError} If the server rejects the precondition
+ * @throws {NetworkError} If the API can't be reached
+ * @throws {ApiError} If the request fails for any other reason
+ */
+async function writeNodeInputMapping(
+  ref: BlueprintRef,
+  nodeId: string,
+  method: 'POST' | 'PUT' | 'DELETE',
+  precondition: Record<string, string>,
+  inputMapping?: AvantosInputMapping
+): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(getNodeInputMappingUrl(ref, nodeId), {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...precondition,
+      },
+      body: inputMapping ? JSON.stringify({ input_mapping: inputMapping }) : undefined,
+    });
+  } catch (error) {
+    throw new NetworkError(
+      `Network error saving mappings for ${nodeId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  if (response.status === 412) {
+    throw new ConflictError(nodeId, await readConflictState(response, ref, nodeId));
+  }
+
+  if (!response.ok) {
+    throw new ApiError(
+      `Failed to save mappings for ${nodeId}: ${response.statusText}`,
+      response.status
+    );
+  }
+
+  return parseEtag(response.headers.get('ETag'));
+}
+
+/**
+ * Fetches one node's input_mapping together with its current version
+ * Used to learn the server's side of a conflict when a 412 carries no body
+ *
+ * @param nodeId - ID of the node
+ * @param ref - The blueprint the node belongs to
+ * @returns The stored input_mapping and version
+ * @throws {ApiError} If the request fails
+ */
+export async function fetchNodeInputMapping(
+  nodeId: string,
+  ref: BlueprintRef = DEFAULT_BLUEPRINT
+): Promise<NodeInputMappingState> {
+  const response = await fetch(getNodeInputMappingUrl(ref, nodeId), { method: 'GET' });
+
+  if (!response.ok) {
+    throw new ApiError(
+      `Failed to fetch mappings for ${nodeId}: ${response.statusText}`,
+      response.status
+    );
+  }
+
+  const body = await response.json();
+  return {
+    inputMapping: body.input_mapping ?? {},
+    version: parseEtag(response.headers.get('ETag')),
+  };
+}
+
+/**
+ * Saves input_mapping on a node that has no known version yet
+ * Fails with a conflict if the node already has mappings on the server
+ *
+ * @returns The new version
+ */
+export function saveNodeInputMapping(
+  nodeId: string,
+  inputMapping: AvantosInputMapping,
+  ref: BlueprintRef = DEFAULT_BLUEPRINT
+): Promise<string> {
+  return writeNodeInputMapping(ref, nodeId, 'POST', { 'If-None-Match': '*' }, inputMapping);
+}
+
+/**
+ * Replaces a node's input_mapping if it is still at `version`
+ *
+ * @returns The new version
+ */
+export function updateNodeInputMapping(
+  nodeId: string,
+  inputMapping: AvantosInputMapping,
+  version: string,
+  ref: BlueprintRef = DEFAULT_BLUEPRINT
+): Promise<string> {
+  return writeNodeInputMapping(ref, nodeId, 'PUT', { 'If-Match': `"${version}"` }, inputMapping);
+}
+
+/**
+ * Removes all of a node's mappings if it is still at `version`
+ *
+ * @returns The new version
+ */
+export function deleteNodeInputMapping(
+  nodeId: string,
+  version: string,
+  ref: BlueprintRef = DEFAULT_BLUEPRINT
+): Promise<string> {
+  return writeNodeInputMapping(ref, nodeId, 'DELETE', { 'If-Match': `"${version}"` });
+}
+
+/**
+ * Lists the blueprints of a tenant
+ * Accepts either a bare array or an `{ items: [...] }` envelope
+ *
+ * @param tenantId - The tenant whose blueprints to list
+ * @returns Blueprint IDs and names
+ * @throws {ApiError} If the request fails or the response is not a list
+ */
+export async function fetchBlueprints(tenantId: string): Promise<BlueprintSummary[]> {
+  let response: Response;
+  try {
+    response = await fetch(getBlueprintsUrl(tenantId), { method: 'GET' });
+  } catch (error) {
+    throw new ApiError(
+      `Network error listing blueprints: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  if (!response.ok) {
+    throw new ApiError(`Failed to list blueprints: ${response.statusText}`, response.status);
+  }
+
+  const body = await response.json();
+  const items: unknown = Array.isArray(body) ? body : body?.items;
+  if (!Array.isArray(items)) {
+    throw new ApiError('Blueprint list response is not a list', response.status);
+  }
+
+  return items
+    .filter(item => typeof item?.id === 'string')
+    .map(item => ({
+      id: item.id,
+      name: typeof item.name === 'string' ? item.name : item.id,
+      description: typeof item.description === 'string' ? item.description : undefined,
+    }));
+}
+
+/**
+ * Fetches the catalog of action and client organisation properties
+ *
+ * @param tenantId - The tenant whose catalog to load
+ * @param options - Retry, timeout and cancellation settings
+ * @returns Global data with a field type for every property
+ * @throws {ApiError} If the request fails or the catalog is malformed
+ */
+export async function fetchGlobalProperties(
+  tenantId: string = DEFAULT_BLUEPRINT.tenantId,
+  options: RequestOptions = {}
+): Promise<GlobalData> {
+  const response = await fetchWithRetry(getGlobalPropertiesUrl(tenantId), { method: 'GET' }, options);
+
+  if (!response.ok) {
+    throw new ApiError(
+      `Failed to fetch global properties: ${response.statusText}`,
+      response.status
+    );
+  }
+
+  const body: MockServerGlobalPropertiesResponse = await response.json();
+  if (!Array.isArray(body?.action_properties) || !Array.isArray(body?.client_organisation_properties)) {
+    throw new ApiError('Global properties response is missing its property lists', response.status);
+  }
+
+  return transformGlobalProperties(body);
 }
 
 /**
  * Fetches the form blueprint graph from the Avantos mock server
  *
+ * Network errors, timeouts and 5xx responses are retried with backoff
+ * (see fetchWithRetry); cancelling via `options.signal` rejects with an AbortError.
+ * The global properties catalog is loaded alongside the graph, once and with a
+ * short timeout, so a slow catalog cannot hold up the blueprint.
+ *
+ * @param ref - Which tenant's blueprint to load (defaults to DEFAULT_BLUEPRINT)
+ * @param options - Retry, timeout and cancellation settings
  * @returns Promise resolving to the form blueprint data
  * @throws {ApiError} If the request fails or returns an error
  */
-export async function fetchFormBlueprint(): Promise<FormBlueprintResponse> {
-  const url = getApiUrl();
+export async function fetchFormBlueprint(
+  ref: BlueprintRef = DEFAULT_BLUEPRINT,
+  options: RequestOptions = {}
+): Promise<FormBlueprintResponse> {
+  const url = getApiUrl(ref);
+
+  // The catalog request ends with this call, or earlier if the caller cancels
+  const catalogController = new AbortController();
+  const cancelCatalog = () => catalogController.abort();
+  options.signal?.addEventListener('abort', cancelCatalog);
 
   try {
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
+    const graphRequest = fetchWithRetry(
+      url,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
       },
+      options
+    );
+
+    // The catalog is optional: fall back to the built-in list if it can't be loaded
+    const catalogRequest = fetchGlobalProperties(ref.tenantId, {
+      signal: catalogController.signal,
+      retries: 0,
+      timeoutMs: GLOBAL_PROPERTIES_TIMEOUT_MS,
+    }).catch(err => {
+      if (!isAbortError(err)) {
+        console.warn('Using built-in global properties:', err instanceof Error ? err.message : err);
+      }
+      return undefined;
     });
 
+    const response = await graphRequest;
+
     // Check if response is ok (status 200-299)
     if (!response.ok) {
       throw new ApiError(
@@ -50,21 +351,44 @@ export async function fetchFormBlueprint(): Promise<FormBlueprintResponse> {
       );
     }
 
-    // Parse the JSON response
-    const mockServerData: MockServerResponse = await response.json();
+    // Parse the JSON response and check its shape before using it
+    const json: unknown = await response.json();
+    const { errors, warnings } = validateBlueprintResponse(json);
+
+    if (errors.length > 0) {
+      throw new ApiError(
+        `Invalid blueprint response: ${errors.length} problem${errors.length !== 1 ? 's' : ''} found`,
+        response.status,
+        [...errors, ...warnings]
+      );
+    }
+    warnings.forEach(warning =>
+      console.warn(`Blueprint response warning: ${formatValidationIssue(warning)}`)
+    );
+
+    const mockServerData = json as MockServerResponse;
+
+    const globalData = await catalogRequest;
+    if (options.signal?.aborted) {
+      throw new DOMException('Aborted', 'AbortError');
+    }
 
     // Transform the mock server response to our application's format
-    const transformedData = transformMockServerResponse(mockServerData);
+    const transformedData = transformMockServerResponse(mockServerData, globalData);
 
     return transformedData;
   } catch (error) {
     // Handle network errors or JSON parsing errors
-    if (error instanceof ApiError) {
+    if (error instanceof ApiError || isAbortError(error)) {
       throw error;
     }
 
+    if (error instanceof TimeoutError) {
+      throw new NetworkError(`Timed out loading the form blueprint: ${error.message}`);
+    }
+
     if (error instanceof TypeError) {
-      throw new ApiError(
+      throw new NetworkError(
         'Network error: Unable to connect to the API. Make sure the mock server is running on http://localhost:3000 and Vite dev server is running with proxy enabled.'
       );
     }
@@ -72,6 +396,9 @@ export async function fetchFormBlueprint(): Promise<FormBlueprintResponse> {
     throw new ApiError(
       `Unexpected error fetching form blueprint: ${error instanceof Error ? error.message : 'Unknown error'}`
     );
+  } finally {
+    options.signal?.removeEventListener('abort', cancelCatalog);
+    catalogController.abort();
   }
 }
 
@@ -79,8 +406,48 @@ export async function fetchFormBlueprint(): Promise<FormBlueprintResponse> {
  * Error class for API-related errors
  */
 export class ApiError extends Error {
-  constructor(message: string, public statusCode?: number) {
+  /**
+   * @param issues - Path-addressed problems with the response body, if it was invalid
+   */
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public issues: ValidationIssue[] = []
+  ) {
     super(message);
     this.name = 'ApiError';
   }
 }
+
+/**
+ * Error thrown when a write is rejected because the node changed on the server
+ * Carries the server's current state so the user can choose which side to keep
+ */
+export class ConflictError extends ApiError {
+  constructor(public nodeId: string, public current: NodeInputMappingState) {
+    super(`Mappings for ${nodeId} were changed by someone else`, 412);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Error thrown when the API could not be reached at all (no response or timed out)
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Checks whether an error means the API is unreachable rather than that it
+ * rejected the request: no response, a timeout, or a 5xx (which the dev proxy
+ * returns while the mock server is down)
+ */
+export function isUnreachableError(error: unknown): boolean {
+  return (
+    error instanceof NetworkError ||
+    (error instanceof ApiError && error.statusCode !== undefined && error.statusCode >= 500)
+  );
+}
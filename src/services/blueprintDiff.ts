@@ -0,0 +1,312 @@
+import {
+  BlueprintChange,
+  Form,
+  FormBlueprintResponse,
+  FormField,
+  FormGraph,
+  MockServerResponse,
+  PrefillMapping,
+} from '../types';
+import { flattenFields } from './fieldTree';
+import { getGraphIndex } from './graphIndex';
+import { findConsumers } from './impactAnalysis';
+import { formatValidationIssue, validateBlueprintResponse } from './responseValidator';
+import { transformMockServerResponse } from './responseTransformer';
+
+function toGraph(forms: Form[]): FormGraph {
+  return Object.fromEntries(forms.map(form => [form.id, form]));
+}
+
+/**
+ * Whether a field is the given field or nested inside it (as a property or array item)
+ */
+function isWithinField(fieldId: string, parentId: string): boolean {
+  return (
+    fieldId === parentId ||
+    fieldId.startsWith(`${parentId}.`) ||
+    fieldId.startsWith(`${parentId}[]`)
+  );
+}
+
+/**
+ * ID of the field a nested field sits in, or '' for a top-level field
+ * "address.city" → "address", "contacts[]" → "contacts"
+ */
+function parentIdOf(fieldId: string): string {
+  if (fieldId.endsWith('[]')) {
+    return fieldId.slice(0, -2);
+  }
+  const dot = fieldId.lastIndexOf('.');
+  return dot === -1 ? '' : fieldId.slice(0, dot);
+}
+
+/**
+ * Drops fields nested in another field of the list
+ * Removing `address` also removes `address.city`; only `address` is reported
+ */
+function outermost(fields: FormField[]): FormField[] {
+  return fields.filter(
+    field => !fields.some(other => other !== field && isWithinField(field.id, other.id))
+  );
+}
+
+/**
+ * Keeps the mappings of a subset in the order they are stored, without duplicates
+ */
+function inMappingOrder(mappings: PrefillMapping[], subset: PrefillMapping[]): PrefillMapping[] {
+  const included = new Set(subset);
+  return mappings.filter(mapping => included.has(mapping));
+}
+
+/**
+ * Mappings that read a field (or one nested in it) or prefill it
+ */
+function mappingsUsingField(
+  mappings: PrefillMapping[],
+  formId: string,
+  fieldId: string
+): PrefillMapping[] {
+  const targets = mappings.filter(
+    mapping => mapping.targetFormId === formId && isWithinField(mapping.targetFieldId, fieldId)
+  );
+  const readers = findConsumers(mappings, formId, fieldId).map(consumer => consumer.mapping);
+  return inMappingOrder(mappings, [...targets, ...readers]);
+}
+
+/**
+ * Compares the fields of a form present in both versions
+ *
+ * A field that disappears while a sibling with the same label and type
+ * appears is reported as a renamed key rather than a removal and an addition.
+ */
+function diffFields(
+  before: Form,
+  after: Form,
+  mappings: PrefillMapping[]
+): BlueprintChange[] {
+  const beforeFields = new Map(flattenFields(before.fields).map(field => [field.id, field]));
+  const afterFields = new Map(flattenFields(after.fields).map(field => [field.id, field]));
+  const removed = outermost(Array.from(beforeFields.values()).filter(f => !afterFields.has(f.id)));
+  let added = outermost(Array.from(afterFields.values()).filter(f => !beforeFields.has(f.id)));
+  const changes: BlueprintChange[] = [];
+  const base = { formId: after.id };
+
+  removed.forEach(field => {
+    const renamed = added.find(
+      candidate =>
+        candidate.label === field.label &&
+        candidate.type === field.type &&
+        parentIdOf(candidate.id) === parentIdOf(field.id)
+    );
+    if (renamed) {
+      added = added.filter(candidate => candidate !== renamed);
+    }
+
+    changes.push({
+      ...base,
+      type: renamed ? 'fieldRenamed' : 'fieldRemoved',
+      fieldId: field.id,
+      newFieldId: renamed?.id,
+      description: renamed
+        ? `${after.name}: field ${field.id} was renamed to ${renamed.id}`
+        : `${after.name}: field ${field.label} was removed`,
+      affectedMappings: mappingsUsingField(mappings, before.id, field.id),
+    });
+  });
+
+  beforeFields.forEach((field, fieldId) => {
+    const current = afterFields.get(fieldId);
+    if (!current) return;
+
+    // Stored source paths spell out the label, so only readers are affected
+    if (current.label !== field.label) {
+      changes.push({
+        ...base,
+        type: 'fieldRenamed',
+        fieldId,
+        description: `${after.name}: field ${field.label} was renamed to "${current.label}"`,
+        affectedMappings: findConsumers(mappings, before.id, fieldId).map(c => c.mapping),
+      });
+    }
+    if (current.type !== field.type) {
+      changes.push({
+        ...base,
+        type: 'fieldRetyped',
+        fieldId,
+        description: `${after.name}: field ${current.label} changed type from ${field.type} to ${current.type}`,
+        affectedMappings: mappingsUsingField(mappings, before.id, fieldId),
+      });
+    }
+  });
+
+  added.forEach(field => {
+    changes.push({
+      ...base,
+      type: 'fieldAdded',
+      fieldId: field.id,
+      description: `${after.name}: field ${field.label} was added`,
+      affectedMappings: [],
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Compares the prerequisites of a form present in both versions
+ *
+ * A removed prerequisite affects the mappings whose source was upstream of
+ * their target only through it: the source was an ancestor before, the
+ * removed edge lay on the way, and the source is no ancestor anymore.
+ */
+function diffDependencies(
+  before: Form,
+  after: Form,
+  beforeGraph: FormGraph,
+  afterGraph: FormGraph,
+  mappings: PrefillMapping[]
+): BlueprintChange[] {
+  const beforeIndex = getGraphIndex(beforeGraph);
+  const afterIndex = getGraphIndex(afterGraph);
+  const beforeDeps = new Set(before.dependencies);
+  const afterDeps = new Set(after.dependencies);
+  const nameOf = (formId: string) => afterGraph[formId]?.name ?? beforeGraph[formId]?.name ?? formId;
+
+  const cutOff = (dependencyId: string) =>
+    mappings.filter(mapping => {
+      const target = mapping.targetFormId;
+      const sources = [mapping.sourceFormId, mapping.condition?.sourceFormId].filter(
+        (id): id is string => id !== undefined && id in afterGraph
+      );
+      return (
+        target in afterGraph &&
+        (target === after.id || beforeIndex.dependsOn(target, after.id)) &&
+        sources.some(
+          source =>
+            (source === dependencyId || beforeIndex.dependsOn(dependencyId, source)) &&
+            beforeIndex.dependsOn(target, source) &&
+            !afterIndex.dependsOn(target, source)
+        )
+      );
+    });
+
+  return [
+    ...Array.from(beforeDeps)
+      .filter(dependencyId => !afterDeps.has(dependencyId))
+      .map(dependencyId => ({
+        type: 'dependencyRemoved' as const,
+        formId: after.id,
+        dependencyId,
+        description: `${after.name} no longer depends on ${nameOf(dependencyId)}`,
+        affectedMappings: cutOff(dependencyId),
+      })),
+    ...Array.from(afterDeps)
+      .filter(dependencyId => !beforeDeps.has(dependencyId))
+      .map(dependencyId => ({
+        type: 'dependencyAdded' as const,
+        formId: after.id,
+        dependencyId,
+        description: `${after.name} now depends on ${nameOf(dependencyId)}`,
+        affectedMappings: [],
+      })),
+  ];
+}
+
+/**
+ * Lists the differences between two versions of a blueprint, and the stored
+ * mappings each one affects
+ *
+ * Forms are matched by ID, fields by ID (nested fields included). Changes are
+ * listed per form, in the older version's order, followed by added forms.
+ *
+ * @param before - Forms of the older version
+ * @param after - Forms of the newer version
+ * @param mappings - Stored mappings to check against the changes
+ * @returns Every change; empty when the versions match
+ *
+ * @example
+ * // Form A's email field was removed, and Form D prefills from it
+ * diffBlueprints(oldForms, newForms, mappings)
+ * // [{ type: 'fieldRemoved', formId: 'form-a', fieldId: 'email',
+ * //    description: 'Form A: field Email was removed', affectedMappings: [formDEmail] }]
+ */
+export function diffBlueprints(
+  before: Form[],
+  after: Form[],
+  mappings: PrefillMapping[]
+): BlueprintChange[] {
+  const beforeGraph = toGraph(before);
+  const afterGraph = toGraph(after);
+
+  const changes = before.flatMap((form): BlueprintChange[] => {
+    const current = afterGraph[form.id];
+    if (!current) {
+      const consumers = findConsumers(mappings, form.id).map(consumer => consumer.mapping);
+      return [
+        {
+          type: 'formRemoved',
+          formId: form.id,
+          description: `${form.name} was removed`,
+          affectedMappings: inMappingOrder(mappings, [
+            ...mappings.filter(mapping => mapping.targetFormId === form.id),
+            ...consumers,
+          ]),
+        },
+      ];
+    }
+
+    const renamed: BlueprintChange[] =
+      current.name !== form.name
+        ? [
+            {
+              type: 'formRenamed',
+              formId: form.id,
+              description: `${form.name} was renamed to "${current.name}"`,
+              affectedMappings: findConsumers(mappings, form.id).map(consumer => consumer.mapping),
+            },
+          ]
+        : [];
+
+    return [
+      ...renamed,
+      ...diffFields(form, current, mappings),
+      ...diffDependencies(form, current, beforeGraph, afterGraph, mappings),
+    ];
+  });
+
+  after
+    .filter(form => !beforeGraph[form.id])
+    .forEach(form => {
+      changes.push({
+        type: 'formAdded',
+        formId: form.id,
+        description: `${form.name} was added`,
+        affectedMappings: [],
+      });
+    });
+
+  return changes;
+}
+
+/**
+ * Reads a blueprint from an uploaded JSON document (as exported or fetched from the API)
+ *
+ * @param text - The file's contents
+ * @returns The blueprint in the application's format
+ * @throws Error when the text is not JSON or not a blueprint
+ */
+export function parseBlueprintJson(text: string): FormBlueprintResponse {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const { errors } = validateBlueprintResponse(json);
+  if (errors.length > 0) {
+    throw new Error(`Not a blueprint: ${formatValidationIssue(errors[0])}`);
+  }
+
+  return transformMockServerResponse(json as MockServerResponse);
+}
@@ -0,0 +1,108 @@
+import { ConstantValue, FieldType } from '../types';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Checks a literal value against the type of the field it will prefill
+ *
+ * @param value - The literal value
+ * @param fieldType - The target field type
+ * @returns An error message, or null if the value is valid
+ *
+ * @example
+ * validateConstantValue('normal', 'text') // null
+ * validateConstantValue('2024-13-01', 'date') // 'Enter a valid date (YYYY-MM-DD)'
+ */
+export function validateConstantValue(
+  value: ConstantValue,
+  fieldType: FieldType
+): string | null {
+  switch (fieldType) {
+    case 'text':
+      return typeof value === 'string' ? null : 'Enter a text value';
+    case 'email':
+      return typeof value === 'string' && EMAIL_PATTERN.test(value)
+        ? null
+        : 'Enter a valid email address';
+    case 'date': {
+      if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+        return 'Enter a valid date (YYYY-MM-DD)';
+      }
+      // Reject dates like 2024-02-31 that Date silently rolls over
+      const date = new Date(`${value}T00:00:00Z`);
+      return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+        ? null
+        : 'Enter a valid date (YYYY-MM-DD)';
+    }
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'Enter a number';
+    case 'checkbox':
+      return Array.isArray(value) && value.length > 0
+        ? null
+        : 'Enter at least one option';
+    case 'object': {
+      if (typeof value !== 'string') {
+        return 'Enter a JSON object';
+      }
+      try {
+        const parsed = JSON.parse(value);
+        return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)
+          ? null
+          : 'Enter a JSON object';
+      } catch {
+        return 'Enter a JSON object';
+      }
+    }
+    case 'button':
+      return 'Button fields cannot be prefilled with a static value';
+  }
+}
+
+/**
+ * Converts raw editor input into a literal of the right shape for a field type
+ * Numbers become numbers and checkbox selections become string arrays
+ *
+ * @param input - Raw text from the editor
+ * @param fieldType - The target field type
+ * @returns The typed literal (not yet validated)
+ */
+export function parseConstantInput(input: string, fieldType: FieldType): ConstantValue {
+  switch (fieldType) {
+    case 'number':
+      return input.trim() === '' ? Number.NaN : Number(input);
+    case 'checkbox':
+      return input
+        .split(',')
+        .map(option => option.trim())
+        .filter(option => option !== '');
+    default:
+      return input;
+  }
+}
+
+/**
+ * Formats a literal for display in mapping paths and rows
+ *
+ * @param value - The literal value
+ * @returns Display string, e.g. "normal", 42 or [A, B]
+ */
+export function formatConstantValue(value: ConstantValue): string {
+  if (Array.isArray(value)) {
+    return `[${value.join(', ')}]`;
+  }
+  if (typeof value === 'string') {
+    return `"${value}"`;
+  }
+  return String(value);
+}
+
+/**
+ * Converts a literal to the string form used by the transform pipeline
+ *
+ * @param value - The literal value
+ * @returns The value as a plain string (checkbox options are comma-joined)
+ */
+export function constantToString(value: ConstantValue): string {
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
@@ -1,8 +1,9 @@
-import { FormGraph } from '../types';
+import { DependencyRoute, FormGraph } from '../types';
+import { getGraphIndex } from './graphIndex';
 
 /**
  * Finds all forms that a target form depends on (both direct and transitive)
- * Uses breadth-first search (BFS) to traverse the dependency graph
+ * Reads the transitive closure from the graph's precomputed index
  *
  * @param targetFormId - The form to find dependencies for
  * @param formGraph - The complete graph of all forms
@@ -16,32 +17,7 @@ export function getDependencies(
   targetFormId: string,
   formGraph: FormGraph
 ): Set<string> {
-  const dependencies = new Set<string>();
-  const queue: string[] = [targetFormId];
-  const visited = new Set<string>();
-
-  while (queue.length > 0) {
-    const currentFormId = queue.shift()!;
-
-    // Skip if already visited to prevent infinite loops
-    if (visited.has(currentFormId)) {
-      continue;
-    }
-    visited.add(currentFormId);
-
-    const currentForm = formGraph[currentFormId];
-    if (!currentForm) {
-      continue;
-    }
-
-    // Add all direct dependencies
-    currentForm.dependencies.forEach(depId => {
-      dependencies.add(depId);
-      queue.push(depId);
-    });
-  }
-
-  return dependencies;
+  return getGraphIndex(formGraph).getAncestors(targetFormId);
 }
 
 /**
@@ -94,46 +70,240 @@ export function getTransitiveDependencies(
 }
 
 /**
- * Detects if there are any circular dependencies in the graph
+ * Finds how a form reaches each form it depends on: the hop distance and the
+ * shortest dependency chains, so that similarly named ancestors can be told apart
+ * Read from the graph's precomputed index, which keeps the routes of recently
+ * selected forms
  *
+ * @param targetFormId - The form to start from
  * @param formGraph - The complete graph of all forms
- * @returns true if circular dependencies exist, false otherwise
+ * @param maxPaths - Most chains kept per form (there can be exponentially many)
+ * @returns Route per reachable form ID (excluding the target itself); shared, so don't modify it
+ *
+ * @example
+ * // Form D depends on Form B and Form C, which both depend on Form A:
+ * getDependencyRoutes('form-d', graph).get('form-a')
+ * // { distance: 2, paths: [['form-d', 'form-b', 'form-a'], ['form-d', 'form-c', 'form-a']] }
  */
-export function hasCircularDependencies(formGraph: FormGraph): boolean {
-  const visited = new Set<string>();
-  const recursionStack = new Set<string>();
+export function getDependencyRoutes(
+  targetFormId: string,
+  formGraph: FormGraph,
+  maxPaths = 3
+): Map<string, DependencyRoute> {
+  return getGraphIndex(formGraph).getRoutes(targetFormId, maxPaths);
+}
+
+/**
+ * Finds all forms that depend on a target form (both direct and transitive)
+ * The downstream counterpart of getDependencies: the forms an edit could affect
+ *
+ * @param targetFormId - The form to find dependents for
+ * @param formGraph - The complete graph of all forms
+ * @returns Set of form IDs that depend on the target (excluding itself)
+ *
+ * @example
+ * // If Form D depends on Form B, which depends on Form A:
+ * getDependents('form-a', graph) // Returns Set(['form-b', 'form-d'])
+ */
+export function getDependents(
+  targetFormId: string,
+  formGraph: FormGraph
+): Set<string> {
+  return getGraphIndex(formGraph).getDescendants(targetFormId);
+}
 
-  function hasCycle(formId: string): boolean {
-    visited.add(formId);
-    recursionStack.add(formId);
+/**
+ * Finds only the forms that directly depend on a form (one level deep)
+ *
+ * @param targetFormId - The form to find direct dependents for
+ * @param formGraph - The complete graph of all forms
+ * @returns Set of form IDs that directly depend on the target
+ *
+ * @example
+ * // If Form D depends on Form B, which depends on Form A:
+ * getDirectDependents('form-a', graph) // Returns Set(['form-b'])
+ */
+export function getDirectDependents(
+  targetFormId: string,
+  formGraph: FormGraph
+): Set<string> {
+  return new Set(getGraphIndex(formGraph).getDependents(targetFormId));
+}
 
-    const form = formGraph[formId];
-    if (!form) {
-      recursionStack.delete(formId);
-      return false;
-    }
+/**
+ * Finds only the forms that transitively depend on a form (excluding direct ones)
+ *
+ * @param targetFormId - The form to find transitive dependents for
+ * @param formGraph - The complete graph of all forms
+ * @returns Set of form IDs that transitively depend on the target
+ *
+ * @example
+ * // If Form D depends on Form B, which depends on Form A:
+ * getTransitiveDependents('form-a', graph) // Returns Set(['form-d'])
+ */
+export function getTransitiveDependents(
+  targetFormId: string,
+  formGraph: FormGraph
+): Set<string> {
+  const allDependents = getDependents(targetFormId, formGraph);
+  getDirectDependents(targetFormId, formGraph).forEach(depId => {
+    allDependents.delete(depId);
+  });
 
-    for (const depId of form.dependencies) {
-      if (!visited.has(depId)) {
-        if (hasCycle(depId)) {
-          return true;
+  return allDependents;
+}
+
+/**
+ * Groups forms into strongly connected components (Tarjan's algorithm)
+ * Forms in the same component can all reach each other through dependencies
+ *
+ * @param formGraph - The complete graph of all forms
+ * @returns Components in no particular order; acyclic forms form components of one
+ */
+function findStronglyConnectedComponents(formGraph: FormGraph): string[][] {
+  const indexOf = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  const open = (formId: string) => {
+    indexOf.set(formId, nextIndex);
+    lowLink.set(formId, nextIndex);
+    nextIndex++;
+    stack.push(formId);
+    onStack.add(formId);
+    return { formId, dependencies: formGraph[formId].dependencies, next: 0 };
+  };
+
+  Object.keys(formGraph).forEach(rootId => {
+    if (indexOf.has(rootId)) return;
+
+    // Explicit call stack instead of recursion, so long dependency chains can't overflow it
+    const frames = [open(rootId)];
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const { formId } = frame;
+
+      if (frame.next < frame.dependencies.length) {
+        const depId = frame.dependencies[frame.next++];
+        if (!formGraph[depId]) continue;
+        if (!indexOf.has(depId)) {
+          frames.push(open(depId));
+        } else if (onStack.has(depId)) {
+          lowLink.set(formId, Math.min(lowLink.get(formId)!, indexOf.get(depId)!));
         }
-      } else if (recursionStack.has(depId)) {
-        return true;
+        continue;
+      }
+
+      // Every dependency is done: formId returns to its caller
+      frames.pop();
+      const caller = frames[frames.length - 1];
+      if (caller) {
+        lowLink.set(caller.formId, Math.min(lowLink.get(caller.formId)!, lowLink.get(formId)!));
+      }
+
+      // formId is the root of a component: pop it off the stack
+      if (lowLink.get(formId) === indexOf.get(formId)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== formId);
+        components.push(component);
       }
     }
+  });
 
-    recursionStack.delete(formId);
-    return false;
-  }
+  return components;
+}
+
+/**
+ * Finds the shortest cycle through a form, staying inside its component
+ * Breadth-first, so the path returned is the shortest one back to the start
+ */
+function findShortestCycle(startId: string, formGraph: FormGraph, members: Set<string>): string[] {
+  const parent = new Map<string, string>();
+  const queue: string[] = [startId];
 
-  for (const formId of Object.keys(formGraph)) {
-    if (!visited.has(formId)) {
-      if (hasCycle(formId)) {
-        return true;
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+
+    for (const depId of formGraph[currentId].dependencies) {
+      if (depId === startId) {
+        // Walk the parents back to the start to recover the path
+        const path = [currentId];
+        while (path[0] !== startId) {
+          path.unshift(parent.get(path[0])!);
+        }
+        return path;
+      }
+      if (members.has(depId) && !parent.has(depId)) {
+        parent.set(depId, currentId);
+        queue.push(depId);
       }
     }
   }
 
-  return false;
+  return [];
+}
+
+/**
+ * Finds the circular dependencies in the graph
+ *
+ * Each cycle is an ordered list of form IDs where every form depends on the
+ * next one and the last depends on the first. Every form that is part of a
+ * cycle appears in at least one of the cycles returned; each cycle is listed
+ * once, starting with its alphabetically first form.
+ *
+ * @param formGraph - The complete graph of all forms
+ * @returns The cycles found (empty for a valid DAG)
+ *
+ * @example
+ * // Form A depends on Form B, which depends on Form A
+ * findCycles(graph) // Returns [['form-a', 'form-b']]
+ */
+export function findCycles(formGraph: FormGraph): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  findStronglyConnectedComponents(formGraph).forEach(component => {
+    const isSelfDependent = formGraph[component[0]].dependencies.includes(component[0]);
+    if (component.length === 1 && !isSelfDependent) {
+      return;
+    }
+
+    const members = new Set(component);
+    const covered = new Set<string>();
+    [...component].sort().forEach(formId => {
+      if (covered.has(formId)) return;
+
+      const cycle = findShortestCycle(formId, formGraph, members);
+      cycle.forEach(id => covered.add(id));
+
+      // Rotate to start at the alphabetically first form, so each cycle has one spelling
+      const first = cycle.indexOf([...cycle].sort()[0]);
+      const rotated = [...cycle.slice(first), ...cycle.slice(0, first)];
+      const key = rotated.join('\u0000');
+      if (!seen.has(key)) {
+        seen.add(key);
+        cycles.push(rotated);
+      }
+    });
+  });
+
+  return cycles;
+}
+
+/**
+ * Detects if there are any circular dependencies in the graph
+ *
+ * @param formGraph - The complete graph of all forms
+ * @returns true if circular dependencies exist, false otherwise
+ */
+export function hasCircularDependencies(formGraph: FormGraph): boolean {
+  return getGraphIndex(formGraph).hasCycles;
 }
@@ -1,4 +1,12 @@
-import { DataSource, DataField, Form, GlobalData } from '../types';
+import {
+  DataSource,
+  DataSourceAvailabilityContext,
+  DataSourcePlugin,
+  DataField,
+  Form,
+  FormField,
+  GlobalData,
+} from '../types';
 
 /**
  * Registry for managing data sources using the Strategy pattern
@@ -38,6 +46,15 @@ export class DataSourceRegistry {
     return this.sources.get(id);
   }
 
+  /**
+   * Check whether a data source ID is taken
+   * @param id - The data source ID
+   * @returns True if a source with this ID is registered
+   */
+  has(id: string): boolean {
+    return this.sources.has(id);
+  }
+
   /**
    * Clear all registered data sources
    */
@@ -55,6 +72,28 @@ export class DataSourceRegistry {
   }
 }
 
+/**
+ * Convert a form field (and its children) into a data field
+ * @param field - The form field
+ * @param parentPath - Path of the parent field or source
+ * @returns Data field with a full path such as "Form A.Address.City"
+ */
+function toDataField(field: FormField, parentPath: string): DataField {
+  const path = `${parentPath}.${field.label}`;
+  const dataField: DataField = {
+    id: field.id,
+    label: field.label,
+    type: field.type,
+    path,
+  };
+
+  if (field.children && field.children.length > 0) {
+    dataField.children = field.children.map(child => toDataField(child, path));
+  }
+
+  return dataField;
+}
+
 /**
  * Data source implementation for form-based data
  * Provides fields from a specific form as a data source
@@ -70,15 +109,190 @@ export class FormDataSource implements DataSource {
 
   /**
    * Get all fields from this form as data fields
+   * Nested sub-properties and array items are kept as children
    * @returns Array of data fields with full paths
    */
   getFields(): DataField[] {
-    return this.form.fields.map(field => ({
-      id: field.id,
-      label: field.label,
-      type: field.type,
-      path: `${this.name}.${field.label}`,
-    }));
+    return this.form.fields.map(field => toDataField(field, this.name));
+  }
+}
+
+/**
+ * Data source implementation for plugin-provided data
+ * A ready-made DataSourcePlugin for host applications: fields are described
+ * like form fields, and an optional rule limits which forms it is offered to
+ *
+ * @example
+ * new CustomDataSource('crm', 'CRM', [{ id: 'owner', label: 'Owner', type: 'text' }],
+ *   ({ ancestors }) => ancestors.has('form-kyc'));
+ */
+export class CustomDataSource implements DataSourcePlugin {
+  public readonly type = 'custom' as const;
+
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    private readonly fields: FormField[],
+    private readonly availability?: (context: DataSourceAvailabilityContext) => boolean
+  ) { }
+
+  /**
+   * Get the plugin's fields as data fields
+   * @returns Array of data fields with paths such as "CRM.Owner"
+   */
+  getFields(): DataField[] {
+    return this.fields.map(field => toDataField(field, this.name));
+  }
+
+  /**
+   * Whether the source is offered for a form
+   * @param context - The form being prefilled and what it depends on
+   * @returns The availability rule's answer, or true without a rule
+   */
+  isAvailable(context: DataSourceAvailabilityContext): boolean {
+    return this.availability?.(context) ?? true;
+  }
+}
+
+/**
+ * A field list request shared by everyone waiting for it
+ */
+interface PendingLoad {
+  promise: Promise<DataField[]>;
+  controller: AbortController;
+  /** Callers still waiting; the request is cancelled when none are left */
+  waiting: number;
+}
+
+/**
+ * Base class for data sources that fetch their fields, e.g. a CRM object schema
+ * Subclasses implement `fetchFields`; loading is cached and shared
+ *
+ * - Fields are fetched once and cached; failures are not cached, so a later load retries
+ * - Concurrent loads share one request
+ * - A caller aborting its signal stops waiting at once; the request itself is
+ *   cancelled when every caller has given up
+ *
+ * @example
+ * class CrmDataSource extends AsyncDataSource {
+ *   readonly id = 'crm'; readonly name = 'CRM'; readonly type = 'custom' as const;
+ *   protected async fetchFields(signal: AbortSignal) {
+ *     const response = await fetch('/crm/schema', { signal });
+ *     return toDataFields(await response.json());
+ *   }
+ * }
+ */
+export abstract class AsyncDataSource implements DataSource {
+  abstract readonly id: string;
+  abstract readonly name: string;
+  abstract readonly type: DataSource['type'];
+
+  private fields: DataField[] | null = null;
+  private pending: PendingLoad | null = null;
+
+  /**
+   * Fetch the field list
+   * @param signal - Aborted when nobody needs the fields any more
+   */
+  protected abstract fetchFields(signal: AbortSignal): Promise<DataField[]>;
+
+  /**
+   * Get the fields loaded so far
+   * @returns The cached fields, or an empty array before the first successful load
+   */
+  getFields(): DataField[] {
+    return this.fields ?? [];
+  }
+
+  /**
+   * Whether the fields have been loaded
+   */
+  isLoaded(): boolean {
+    return this.fields !== null;
+  }
+
+  /**
+   * Load the fields, from cache when possible
+   * @param signal - Stops waiting when aborted
+   * @returns The fields; rejects with an AbortError when the signal aborts first
+   */
+  loadFields(signal?: AbortSignal): Promise<DataField[]> {
+    if (this.fields) {
+      return Promise.resolve(this.fields);
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Aborted', 'AbortError'));
+    }
+
+    const pending = this.pending ?? this.startLoad();
+    pending.waiting += 1;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const settle = () => {
+        settled = true;
+        pending.waiting -= 1;
+        signal?.removeEventListener('abort', handleAbort);
+      };
+      const handleAbort = () => {
+        if (settled) return;
+        settle();
+        if (pending.waiting === 0) {
+          // Nobody wants this request any more; later loads start a new one
+          if (this.pending === pending) {
+            this.pending = null;
+          }
+          pending.controller.abort();
+        }
+        reject(new DOMException('Aborted', 'AbortError'));
+      };
+
+      signal?.addEventListener('abort', handleAbort);
+      pending.promise.then(
+        fields => {
+          if (settled) return;
+          settle();
+          resolve(fields);
+        },
+        error => {
+          if (settled) return;
+          settle();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Forget the cached fields, so the next load fetches them again
+   */
+  invalidate(): void {
+    this.fields = null;
+  }
+
+  private startLoad(): PendingLoad {
+    const controller = new AbortController();
+    const pending: PendingLoad = {
+      controller,
+      waiting: 0,
+      promise: this.fetchFields(controller.signal).then(
+        fields => {
+          if (this.pending === pending) {
+            this.pending = null;
+            this.fields = fields;
+          }
+          return fields;
+        },
+        error => {
+          if (this.pending === pending) {
+            this.pending = null;
+          }
+          throw error;
+        }
+      ),
+    };
+    this.pending = pending;
+    return pending;
   }
 }
 
@@ -95,13 +309,14 @@ export class GlobalDataSource implements DataSource {
 
   /**
    * Get all action properties as data fields
+   * Types come from the global properties catalog; untyped properties are text
    * @returns Array of data fields for action properties
    */
   getFields(): DataField[] {
     return this.globalData.actionProperties.map(prop => ({
       id: prop,
       label: this.formatPropertyName(prop),
-      type: 'text' as const,
+      type: this.globalData.actionPropertyTypes?.[prop] ?? 'text',
       path: `Action.${this.formatPropertyName(prop)}`,
     }));
   }
@@ -132,7 +347,7 @@ export class OrganizationDataSource implements DataSource {
     return this.globalData.clientOrgProperties.map(prop => ({
       id: prop,
       label: this.formatPropertyName(prop),
-      type: 'text' as const,
+      type: this.globalData.clientOrgPropertyTypes?.[prop] ?? 'text',
       path: `clientOrg.${this.formatPropertyName(prop)}`,
     }));
   }
@@ -0,0 +1,113 @@
+import { DependencyIssue, MockServerEdge, MockServerNode } from '../types';
+
+/**
+ * Result of merging node prerequisites with graph edges
+ */
+export interface DependencyReconciliation {
+  /** Direct dependencies per node ID: prerequisites first, then edge-only sources */
+  dependencies: Record<string, string[]>;
+  /** Every disagreement found while merging */
+  issues: DependencyIssue[];
+}
+
+/**
+ * Builds each node's direct dependencies from both `prerequisites` and `edges`
+ *
+ * The two should describe the same graph, but blueprints have been seen where
+ * they disagree. Dependencies declared by either are kept (so no upstream
+ * form silently disappears from the prefill options); references to nodes
+ * that don't exist are dropped. Everything unexpected is reported.
+ *
+ * @param nodes - Blueprint nodes
+ * @param edges - Blueprint edges (source → target means target depends on source)
+ * @returns Merged dependencies and the issues found
+ *
+ * @example
+ * // Edge a → b, but b lists no prerequisites
+ * reconcileDependencies([a, b], [{ source: 'a', target: 'b' }])
+ * // { dependencies: { a: [], b: ['a'] }, issues: [{ type: 'edgeWithoutPrerequisite', ... }] }
+ */
+export function reconcileDependencies(
+  nodes: MockServerNode[],
+  edges: MockServerEdge[]
+): DependencyReconciliation {
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const nameOf = (id: string) => nodesById.get(id)?.data.name ?? id;
+  const issues: DependencyIssue[] = [];
+  const dependencies: Record<string, string[]> = {};
+
+  // Prerequisites, as declared on each node
+  nodes.forEach(node => {
+    const seen = new Set<string>();
+    dependencies[node.id] = [];
+
+    (node.data.prerequisites ?? []).forEach(prerequisite => {
+      if (seen.has(prerequisite)) {
+        issues.push({
+          type: 'duplicate',
+          origin: 'prerequisite',
+          nodeId: node.id,
+          dependencyId: prerequisite,
+          message: `${nameOf(node.id)} lists prerequisite ${nameOf(prerequisite)} more than once`,
+        });
+        return;
+      }
+      seen.add(prerequisite);
+
+      if (!nodesById.has(prerequisite)) {
+        issues.push({
+          type: 'missingNode',
+          origin: 'prerequisite',
+          nodeId: node.id,
+          dependencyId: prerequisite,
+          message: `${nameOf(node.id)} has prerequisite ${prerequisite}, which is not in the blueprint`,
+        });
+        return;
+      }
+      dependencies[node.id].push(prerequisite);
+    });
+  });
+
+  // Edges, which may add dependencies the prerequisites miss
+  const seenEdges = new Set<string>();
+  edges.forEach(({ source, target }) => {
+    const key = `${source}->${target}`;
+    if (seenEdges.has(key)) {
+      issues.push({
+        type: 'duplicate',
+        origin: 'edge',
+        nodeId: target,
+        dependencyId: source,
+        message: `Edge ${nameOf(source)} → ${nameOf(target)} appears more than once`,
+      });
+      return;
+    }
+    seenEdges.add(key);
+
+    const missing = [source, target].filter(id => !nodesById.has(id));
+    if (missing.length > 0) {
+      issues.push({
+        type: 'missingNode',
+        origin: 'edge',
+        nodeId: target,
+        dependencyId: source,
+        message: `Edge ${nameOf(source)} → ${nameOf(target)} refers to ${missing.join(' and ')}, which is not in the blueprint`,
+      });
+      return;
+    }
+
+    const targetNode = nodesById.get(target)!;
+    if (!(targetNode.data.prerequisites ?? []).includes(source)) {
+      issues.push({
+        type: 'edgeWithoutPrerequisite',
+        origin: 'edge',
+        nodeId: target,
+        dependencyId: source,
+        message: `Edge ${nameOf(source)} → ${nameOf(target)} has no matching prerequisite on ${nameOf(target)}`,
+      });
+      dependencies[target].push(source);
+    }
+  });
+
+  return { dependencies, issues };
+}
@@ -0,0 +1,66 @@
+/**
+ * Helpers for working with hierarchical fields (FormField and DataField)
+ * Nested object properties and array items are stored as `children`
+ */
+
+/**
+ * Any field shape that may carry nested children
+ */
+interface TreeField<T> {
+  id: string;
+  children?: T[];
+}
+
+/**
+ * A field paired with its nesting depth (0 for top-level fields)
+ */
+export interface FlattenedField<T> {
+  field: T;
+  depth: number;
+}
+
+/**
+ * Flattens a field tree depth-first, parents before their children
+ *
+ * @param fields - Top-level fields
+ * @returns Every field with its depth
+ *
+ * @example
+ * flattenFieldTree([{ id: 'address', children: [{ id: 'address.city' }] }])
+ * // [{ field: address, depth: 0 }, { field: address.city, depth: 1 }]
+ */
+export function flattenFieldTree<T extends TreeField<T>>(
+  fields: T[],
+  depth = 0
+): FlattenedField<T>[] {
+  return fields.flatMap(field => [
+    { field, depth },
+    ...flattenFieldTree(field.children ?? [], depth + 1),
+  ]);
+}
+
+/**
+ * Flattens a field tree into a plain list, parents before their children
+ *
+ * @param fields - Top-level fields
+ * @returns Every field in the tree
+ */
+export function flattenFields<T extends TreeField<T>>(fields: T[]): T[] {
+  return flattenFieldTree(fields).map(entry => entry.field);
+}
+
+/**
+ * Finds a field anywhere in a field tree by ID
+ *
+ * @param fields - Top-level fields
+ * @param fieldId - The ID to look for (dotted path for nested fields)
+ * @returns The field or undefined if not found
+ */
+export function findField<T extends TreeField<T>>(fields: T[], fieldId: string): T | undefined {
+  for (const field of fields) {
+    if (field.id === fieldId) return field;
+    const nested = findField(field.children ?? [], fieldId);
+    if (nested) return nested;
+  }
+  return undefined;
+}
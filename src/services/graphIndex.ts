@@ -0,0 +1,286 @@
+import { DependencyRoute, FormGraph } from '../types';
+
+/** How many forms' routes are kept; selecting a form again within that window is a lookup */
+const ROUTE_CACHE_SIZE = 50;
+
+/**
+ * Precomputed lookups over a form graph
+ *
+ * Built once per graph in O(V·E/32): afterwards "does A depend on B" is a bit
+ * test and listing a form's ancestors is a scan of its bitset, instead of a
+ * breadth-first search on every form selection. Blueprints with thousands of
+ * forms stay responsive this way.
+ *
+ * Forms on (or downstream of) a cycle have no topological position; they are
+ * kept at the end of `order`, have no `depth`, and their ancestors are found
+ * with a search that reuses the bitsets of the acyclic forms it reaches.
+ *
+ * @example
+ * const index = getGraphIndex(formGraph);
+ * index.dependsOn('form-d', 'form-a'); // true
+ * index.getAncestors('form-d'); // Set(['form-b', 'form-a'])
+ * index.getDependents('form-a'); // ['form-b', 'form-c']
+ */
+export class GraphIndex {
+  /** Form IDs, each after every form it depends on (forms on cycles come last, unordered) */
+  public readonly order: string[];
+  /** Length of the longest dependency chain from a root (a form without dependencies) */
+  public readonly depth: Map<string, number> = new Map();
+  /** Whether some forms could not be ordered because of a cycle */
+  public readonly hasCycles: boolean;
+
+  private readonly position: Map<string, number> = new Map();
+  private readonly dependencies: number[][];
+  private readonly dependents: string[][];
+  /** Transitive closure: bit j of ancestors[i] is set when order[i] depends on order[j] */
+  private readonly ancestors: Uint32Array[];
+  /** Routes of recently selected forms, oldest first */
+  private readonly routeCache: Map<string, Map<string, DependencyRoute>> = new Map();
+
+  constructor(formGraph: FormGraph) {
+    const formIds = Object.keys(formGraph);
+    const inDegree = new Map<string, number>();
+    const reverse = new Map<string, string[]>(formIds.map(formId => [formId, []]));
+
+    // Reverse edges, ignoring dependencies on forms that aren't in the graph
+    formIds.forEach(formId => {
+      const known = unique(formGraph[formId].dependencies).filter(depId => formGraph[depId]);
+      inDegree.set(formId, known.length);
+      known.forEach(depId => reverse.get(depId)!.push(formId));
+    });
+
+    // Kahn's algorithm: a form is ready once all its dependencies are placed
+    const order = formIds.filter(formId => inDegree.get(formId) === 0);
+    for (let i = 0; i < order.length; i++) {
+      reverse.get(order[i])!.forEach(dependentId => {
+        const remaining = inDegree.get(dependentId)! - 1;
+        inDegree.set(dependentId, remaining);
+        if (remaining === 0) order.push(dependentId);
+      });
+    }
+    const acyclicCount = order.length;
+    this.hasCycles = acyclicCount < formIds.length;
+    if (this.hasCycles) {
+      const placed = new Set(order);
+      order.push(...formIds.filter(formId => !placed.has(formId)));
+    }
+
+    this.order = order;
+    order.forEach((formId, i) => this.position.set(formId, i));
+    this.dependencies = order.map(formId =>
+      unique(formGraph[formId].dependencies)
+        .filter(depId => formGraph[depId])
+        .map(depId => this.position.get(depId)!)
+    );
+    this.dependents = order.map(formId => reverse.get(formId)!);
+
+    // Dependencies come first in the order, so one pass fills the closure and depths
+    const words = Math.ceil(order.length / 32);
+    this.ancestors = order.map(() => new Uint32Array(words));
+    for (let i = 0; i < acyclicCount; i++) {
+      const bits = this.ancestors[i];
+      let depth = 0;
+      this.dependencies[i].forEach(dep => {
+        setBit(bits, dep);
+        orInto(bits, this.ancestors[dep]);
+        depth = Math.max(depth, this.depth.get(order[dep])! + 1);
+      });
+      this.depth.set(order[i], depth);
+    }
+    for (let i = acyclicCount; i < order.length; i++) {
+      this.fillCyclicAncestors(i, acyclicCount);
+    }
+  }
+
+  /**
+   * Whether a form depends, directly or transitively, on another
+   */
+  dependsOn(formId: string, ancestorId: string): boolean {
+    const i = this.position.get(formId);
+    const j = this.position.get(ancestorId);
+    if (i === undefined || j === undefined) {
+      return false;
+    }
+    return hasBit(this.ancestors[i], j);
+  }
+
+  /**
+   * All forms a form depends on, directly or transitively
+   * Ordered from the latest to the earliest in the topological order
+   *
+   * @param formId - The form to list ancestors for
+   * @returns Set of form IDs (empty for unknown forms; never includes the form itself)
+   */
+  getAncestors(formId: string): Set<string> {
+    const i = this.position.get(formId);
+    const result = new Set<string>();
+    if (i === undefined) {
+      return result;
+    }
+
+    const bits = this.ancestors[i];
+    for (let j = this.order.length - 1; j >= 0; j--) {
+      if (j !== i && hasBit(bits, j)) {
+        result.add(this.order[j]);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * All forms that depend on a form, directly or transitively
+   * Ordered as in the topological order
+   *
+   * @param formId - The form to list descendants for
+   * @returns Set of form IDs (empty for unknown forms; never includes the form itself)
+   */
+  getDescendants(formId: string): Set<string> {
+    const j = this.position.get(formId);
+    const result = new Set<string>();
+    if (j === undefined) {
+      return result;
+    }
+
+    this.order.forEach((candidateId, i) => {
+      if (i !== j && hasBit(this.ancestors[i], j)) {
+        result.add(candidateId);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Forms that directly depend on a form (the graph's reverse edges)
+   */
+  getDependents(formId: string): string[] {
+    const i = this.position.get(formId);
+    return i === undefined ? [] : this.dependents[i];
+  }
+
+  /**
+   * How a form reaches each form it depends on: hop distance and shortest chains
+   * Found on first request and kept for the most recently selected forms
+   *
+   * @param formId - The form to start from
+   * @param maxPaths - Most chains kept per form (there can be exponentially many)
+   * @returns Route per ancestor ID; shared between callers, so don't modify it
+   */
+  getRoutes(formId: string, maxPaths = 3): Map<string, DependencyRoute> {
+    const key = `${maxPaths}:${formId}`;
+    let routes = this.routeCache.get(key);
+    if (routes) {
+      // Move to the end, as the most recently used
+      this.routeCache.delete(key);
+    } else {
+      routes = this.findRoutes(formId, maxPaths);
+      if (this.routeCache.size >= ROUTE_CACHE_SIZE) {
+        this.routeCache.delete(this.routeCache.keys().next().value!);
+      }
+    }
+    this.routeCache.set(key, routes);
+    return routes;
+  }
+
+  /**
+   * Breadth-first from the form over the indexed dependency edges, remembering
+   * every parent on a shortest route
+   */
+  private findRoutes(formId: string, maxPaths: number): Map<string, DependencyRoute> {
+    const routes = new Map<string, DependencyRoute>();
+    const start = this.position.get(formId);
+    if (start === undefined) {
+      return routes;
+    }
+
+    const distance = new Map<number, number>([[start, 0]]);
+    const parents = new Map<number, number[]>();
+    const queue = [start];
+
+    for (let i = 0; i < queue.length; i++) {
+      const current = queue[i];
+      const next = distance.get(current)! + 1;
+
+      this.dependencies[current].forEach(dep => {
+        if (!distance.has(dep)) {
+          distance.set(dep, next);
+          parents.set(dep, [current]);
+          queue.push(dep);
+        } else if (distance.get(dep) === next) {
+          parents.get(dep)!.push(current);
+        }
+      });
+    }
+
+    // Parents are always closer to the form, so each form's chains extend its parents'
+    const paths = new Map<number, string[][]>([[start, [[formId]]]]);
+    queue.slice(1).forEach(i => {
+      const extended = parents
+        .get(i)!
+        .flatMap(parent => paths.get(parent)!.map(path => [...path, this.order[i]]))
+        .slice(0, maxPaths);
+      paths.set(i, extended);
+      routes.set(this.order[i], { distance: distance.get(i)!, paths: extended });
+    });
+
+    return routes;
+  }
+
+  /**
+   * Closure of a form that has no topological position: a search through the
+   * other unordered forms, borrowing the finished bitset of any ordered form reached
+   */
+  private fillCyclicAncestors(start: number, acyclicCount: number) {
+    const bits = this.ancestors[start];
+    const visited = new Set<number>([start]);
+    const queue = [start];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      this.dependencies[current].forEach(dep => {
+        setBit(bits, dep);
+        if (dep < acyclicCount) {
+          orInto(bits, this.ancestors[dep]);
+        } else if (!visited.has(dep)) {
+          visited.add(dep);
+          queue.push(dep);
+        }
+      });
+    }
+  }
+}
+
+function unique(ids: string[]): string[] {
+  return Array.from(new Set(ids));
+}
+
+function setBit(bits: Uint32Array, index: number) {
+  bits[index >>> 5] |= 1 << (index & 31);
+}
+
+function hasBit(bits: Uint32Array, index: number): boolean {
+  return (bits[index >>> 5] & (1 << (index & 31))) !== 0;
+}
+
+function orInto(target: Uint32Array, source: Uint32Array) {
+  for (let w = 0; w < target.length; w++) {
+    target[w] |= source[w];
+  }
+}
+
+// One index per graph object; graphs are replaced, never mutated, when a blueprint loads
+const indexCache = new WeakMap<FormGraph, GraphIndex>();
+
+/**
+ * Returns the index of a form graph, building it on first use
+ *
+ * @param formGraph - The complete graph of all forms
+ * @returns The graph's index, shared by every caller passing the same object
+ */
+export function getGraphIndex(formGraph: FormGraph): GraphIndex {
+  let index = indexCache.get(formGraph);
+  if (!index) {
+    index = new GraphIndex(formGraph);
+    indexCache.set(formGraph, index);
+  }
+  return index;
+}
@@ -0,0 +1,210 @@
+import { Form, FormGraph, PrefillMapping } from '../types';
+import { getGraphIndex } from './graphIndex';
+
+/** Width of a form node on the canvas */
+export const NODE_WIDTH = 180;
+/** Height of a node's title bar (the whole node when fields are hidden) */
+export const NODE_HEADER_HEIGHT = 40;
+/** Height of one field row inside a node */
+export const FIELD_ROW_HEIGHT = 18;
+
+/** Spacing of the automatic layout, used when the blueprint has no coordinates */
+const LAYER_SPACING = 260;
+const ROW_SPACING = 120;
+/** Empty margin around the drawing */
+const PADDING = 40;
+
+/**
+ * A field row inside a node, where mapping edges attach
+ */
+export interface FieldRowLayout {
+  fieldId: string;
+  label: string;
+  /** Vertical center of the row, in canvas coordinates */
+  y: number;
+}
+
+/**
+ * A form placed on the canvas
+ */
+export interface NodeLayout {
+  form: Form;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Top-level fields, listed when fields are shown */
+  fieldRows: FieldRowLayout[];
+}
+
+/**
+ * A curve between two nodes
+ */
+export interface EdgeLayout {
+  /** Stable key for rendering */
+  id: string;
+  /** Form the edge starts at (the upstream form) */
+  sourceFormId: string;
+  /** Form the edge ends at (the downstream form) */
+  targetFormId: string;
+  /** SVG path data */
+  path: string;
+}
+
+/**
+ * A curve from the field a mapping reads to the field it prefills
+ */
+export interface MappingEdgeLayout extends EdgeLayout {
+  mapping: PrefillMapping;
+}
+
+/**
+ * Everything the graph view draws
+ */
+export interface GraphLayout {
+  nodes: NodeLayout[];
+  dependencyEdges: EdgeLayout[];
+  mappingEdges: MappingEdgeLayout[];
+  /** Box around the drawing, suitable as an SVG viewBox */
+  bounds: { x: number; y: number; width: number; height: number };
+}
+
+export interface GraphLayoutOptions {
+  /** List each node's fields, so mapping edges can attach to them */
+  showFields?: boolean;
+  /** Mappings to draw between fields (only form-to-form mappings are drawn) */
+  mappings?: PrefillMapping[];
+}
+
+/**
+ * Horizontal S-curve between two points, leaving and entering horizontally
+ */
+function curve(fromX: number, fromY: number, toX: number, toY: number): string {
+  const bend = Math.max(40, Math.abs(toX - fromX) / 2);
+  return `M ${fromX} ${fromY} C ${fromX + bend} ${fromY}, ${toX - bend} ${toY}, ${toX} ${toY}`;
+}
+
+/**
+ * Places forms without blueprint coordinates in columns by dependency depth
+ */
+function autoPositions(forms: Form[], formGraph: FormGraph): Map<string, { x: number; y: number }> {
+  const index = getGraphIndex(formGraph);
+  const rowsUsed = new Map<number, number>();
+  const positions = new Map<string, { x: number; y: number }>();
+
+  forms.forEach(form => {
+    const depth = index.depth.get(form.id) ?? 0;
+    const row = rowsUsed.get(depth) ?? 0;
+    rowsUsed.set(depth, row + 1);
+    positions.set(form.id, { x: depth * LAYER_SPACING, y: row * ROW_SPACING });
+  });
+
+  return positions;
+}
+
+/**
+ * Finds the row a (possibly nested) field is drawn on: its own, or its top-level parent's
+ */
+function findRow(node: NodeLayout, fieldId: string): FieldRowLayout | undefined {
+  return node.fieldRows.find(
+    row => row.fieldId === fieldId || fieldId.startsWith(`${row.fieldId}.`)
+  );
+}
+
+/**
+ * Lays out a blueprint for the graph view
+ *
+ * Forms are drawn at their blueprint coordinates. If any form lacks them, all
+ * forms are laid out automatically instead (columns by dependency depth), so
+ * placed and unplaced forms never overlap. Dependency edges run from the right
+ * of the upstream form to the left of the form depending on it; mapping edges
+ * run between field rows the same way.
+ *
+ * @param forms - The forms to draw
+ * @param formGraph - The complete graph of all forms
+ * @param options - Whether to show fields and which mappings to draw
+ * @returns Node boxes, edge paths and the drawing's bounds
+ */
+export function layoutFormGraph(
+  forms: Form[],
+  formGraph: FormGraph,
+  { showFields = false, mappings = [] }: GraphLayoutOptions = {}
+): GraphLayout {
+  const hasPositions = forms.every(form => form.position);
+  const fallback = hasPositions ? null : autoPositions(forms, formGraph);
+
+  const nodes: NodeLayout[] = forms.map(form => {
+    const { x, y } = fallback?.get(form.id) ?? form.position!;
+    const fieldRows = showFields
+      ? form.fields.map((field, row) => ({
+          fieldId: field.id,
+          label: field.label,
+          y: y + NODE_HEADER_HEIGHT + row * FIELD_ROW_HEIGHT + FIELD_ROW_HEIGHT / 2,
+        }))
+      : [];
+
+    return {
+      form,
+      x,
+      y,
+      width: NODE_WIDTH,
+      height: NODE_HEADER_HEIGHT + fieldRows.length * FIELD_ROW_HEIGHT,
+      fieldRows,
+    };
+  });
+  const nodeById = new Map(nodes.map(node => [node.form.id, node]));
+
+  const dependencyEdges: EdgeLayout[] = nodes.flatMap(target =>
+    Array.from(new Set(target.form.dependencies))
+      .map(sourceId => nodeById.get(sourceId))
+      .filter((source): source is NodeLayout => source !== undefined)
+      .map(source => ({
+        id: `${source.form.id}->${target.form.id}`,
+        sourceFormId: source.form.id,
+        targetFormId: target.form.id,
+        path: curve(
+          source.x + source.width,
+          source.y + NODE_HEADER_HEIGHT / 2,
+          target.x,
+          target.y + NODE_HEADER_HEIGHT / 2
+        ),
+      }))
+  );
+
+  const mappingEdges: MappingEdgeLayout[] = showFields
+    ? mappings.flatMap((mapping, position) => {
+        if (mapping.sourceType !== 'form' || !mapping.sourceFormId) return [];
+        const source = nodeById.get(mapping.sourceFormId);
+        const target = nodeById.get(mapping.targetFormId);
+        const sourceRow = source && findRow(source, mapping.sourceFieldId);
+        const targetRow = target && findRow(target, mapping.targetFieldId);
+        if (!source || !target || !sourceRow || !targetRow) return [];
+
+        return [
+          {
+            id: `${mapping.targetFormId}/${mapping.targetFieldId}/${position}`,
+            sourceFormId: source.form.id,
+            targetFormId: target.form.id,
+            path: curve(source.x + source.width, sourceRow.y, target.x, targetRow.y),
+            mapping,
+          },
+        ];
+      })
+    : [];
+
+  if (nodes.length === 0) {
+    return { nodes, dependencyEdges, mappingEdges, bounds: { x: 0, y: 0, width: 0, height: 0 } };
+  }
+
+  const minX = Math.min(...nodes.map(node => node.x)) - PADDING;
+  const minY = Math.min(...nodes.map(node => node.y)) - PADDING;
+  const maxX = Math.max(...nodes.map(node => node.x + node.width)) + PADDING;
+  const maxY = Math.max(...nodes.map(node => node.y + node.height)) + PADDING;
+
+  return {
+    nodes,
+    dependencyEdges,
+    mappingEdges,
+    bounds: { x: minX, y: minY, width: maxX - minX, height: maxY - minY },
+  };
+}
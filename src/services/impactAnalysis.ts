@@ -0,0 +1,97 @@
+import { FormGraph, PrefillMapping } from '../types';
+import { getDirectDependents, getTransitiveDependents } from './dagTraversal';
+
+/**
+ * A mapping that reads from a form, either as its value source or in its condition
+ */
+export interface MappingConsumer {
+  /** The mapping doing the reading */
+  mapping: PrefillMapping;
+  /** Whether the form supplies the mapping's value or only its condition */
+  via: 'source' | 'condition';
+  /** ID of the field read (dotted path for nested fields) */
+  fieldId: string;
+}
+
+/**
+ * What an edit to a form could affect downstream
+ */
+export interface DownstreamImpact {
+  /** Forms that directly depend on the form */
+  directDependents: string[];
+  /** Forms that depend on it through other forms */
+  transitiveDependents: string[];
+  /** Every mapping in the blueprint that reads one of the form's fields */
+  consumers: MappingConsumer[];
+}
+
+/**
+ * Whether a read field is the given field or nested inside it
+ * Changing `address` also breaks mappings reading `address.city`
+ */
+function isWithinField(readFieldId: string, fieldId: string): boolean {
+  return readFieldId === fieldId || readFieldId.startsWith(`${fieldId}.`);
+}
+
+/**
+ * Finds every mapping that reads from a form, or from one of its fields
+ * Fallback entries of a chain count as mappings of their own
+ *
+ * @param mappings - All mappings of the blueprint
+ * @param sourceFormId - The form being read
+ * @param fieldId - Narrow down to this field and the fields nested in it
+ * @returns Consumers in mapping order; a mapping reading the form both ways appears twice
+ *
+ * @example
+ * // Form D.email is prefilled from Form A.email
+ * findConsumers(mappings, 'form-a', 'email')
+ * // [{ mapping: { targetFormId: 'form-d', targetFieldId: 'email', ... }, via: 'source', fieldId: 'email' }]
+ */
+export function findConsumers(
+  mappings: PrefillMapping[],
+  sourceFormId: string,
+  fieldId?: string
+): MappingConsumer[] {
+  const reads = (readFieldId: string) => fieldId === undefined || isWithinField(readFieldId, fieldId);
+
+  return mappings.flatMap(mapping => {
+    const consumers: MappingConsumer[] = [];
+    if (
+      mapping.sourceType === 'form' &&
+      mapping.sourceFormId === sourceFormId &&
+      reads(mapping.sourceFieldId)
+    ) {
+      consumers.push({ mapping, via: 'source', fieldId: mapping.sourceFieldId });
+    }
+
+    const condition = mapping.condition;
+    if (
+      condition?.sourceType === 'form' &&
+      condition.sourceFormId === sourceFormId &&
+      reads(condition.sourceFieldId)
+    ) {
+      consumers.push({ mapping, via: 'condition', fieldId: condition.sourceFieldId });
+    }
+    return consumers;
+  });
+}
+
+/**
+ * Summarizes what depends on a form before it is edited
+ *
+ * @param formId - The form about to change
+ * @param formGraph - The complete graph of all forms
+ * @param mappings - All mappings of the blueprint
+ * @returns Dependent forms and the mappings reading the form
+ */
+export function analyzeDownstreamImpact(
+  formId: string,
+  formGraph: FormGraph,
+  mappings: PrefillMapping[]
+): DownstreamImpact {
+  return {
+    directDependents: Array.from(getDirectDependents(formId, formGraph)),
+    transitiveDependents: Array.from(getTransitiveDependents(formId, formGraph)),
+    consumers: findConsumers(mappings, formId),
+  };
+}
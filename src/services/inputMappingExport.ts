@@ -0,0 +1,144 @@
+import {
+  AvantosInputMapping,
+  AvantosInputMappingEntry,
+  InputMappingPatch,
+  MockServerResponse,
+  PrefillMapping,
+} from '../types';
+
+/**
+ * Converts one PrefillMapping into an input_mapping entry
+ * Global sources are told apart by the path prefix their data source gives them
+ */
+function toInputMappingEntry(mapping: PrefillMapping): AvantosInputMappingEntry {
+  let entry: AvantosInputMappingEntry;
+
+  switch (mapping.sourceType) {
+    case 'form':
+      entry = {
+        type: 'form_field',
+        component_key: mapping.sourceFormId ?? '',
+        property: mapping.sourceFieldId,
+      };
+      break;
+    case 'global':
+      entry = {
+        type: mapping.sourcePath.startsWith('clientOrg.')
+          ? 'client_organisation_property'
+          : 'action_property',
+        property: mapping.sourceFieldId,
+      };
+      break;
+    case 'constant':
+      entry = { type: 'constant', value: mapping.constantValue ?? '' };
+      break;
+    case 'custom':
+      entry = {
+        type: 'custom_source',
+        source_id: mapping.sourceId ?? '',
+        property: mapping.sourceFieldId,
+        source_path: mapping.sourcePath,
+      };
+      break;
+  }
+
+  if (mapping.transforms && mapping.transforms.length > 0) {
+    entry.transforms = mapping.transforms;
+  }
+  if (mapping.condition) {
+    entry.condition = mapping.condition;
+  }
+  if (mapping.fieldTypes) {
+    entry.field_types = mapping.fieldTypes;
+  }
+
+  return entry;
+}
+
+/**
+ * Groups mappings into per-node input_mapping objects
+ * A field with one mapping gets a single entry; a fallback chain becomes an array
+ *
+ * @param mappings - All prefill mappings (chain order = array order)
+ * @returns input_mapping objects keyed by target node ID
+ *
+ * @example
+ * buildInputMappings(mappings)['form-d']
+ * // { email: { type: 'form_field', component_key: 'form-a', property: 'email' } }
+ */
+export function buildInputMappings(
+  mappings: PrefillMapping[]
+): Record<string, AvantosInputMapping> {
+  const chains: Record<string, Record<string, AvantosInputMappingEntry[]>> = {};
+
+  mappings.forEach(mapping => {
+    const node = chains[mapping.targetFormId] || (chains[mapping.targetFormId] = {});
+    const chain = node[mapping.targetFieldId] || (node[mapping.targetFieldId] = []);
+    chain.push(toInputMappingEntry(mapping));
+  });
+
+  const result: Record<string, AvantosInputMapping> = {};
+  Object.entries(chains).forEach(([nodeId, fields]) => {
+    result[nodeId] = {};
+    Object.entries(fields).forEach(([fieldId, chain]) => {
+      result[nodeId][fieldId] = chain.length === 1 ? chain[0] : chain;
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Returns a copy of the blueprint whose nodes carry the given mappings
+ * Every node's input_mapping is replaced, so cleared fields are removed too
+ *
+ * @param blueprint - The blueprint as loaded from the server
+ * @param mappings - All prefill mappings
+ * @returns A patched copy; the original is not modified
+ */
+export function exportBlueprint(
+  blueprint: MockServerResponse,
+  mappings: PrefillMapping[]
+): MockServerResponse {
+  const inputMappings = buildInputMappings(mappings);
+
+  return {
+    ...blueprint,
+    nodes: blueprint.nodes.map(node => ({
+      ...node,
+      data: {
+        ...node.data,
+        input_mapping: inputMappings[node.id] ?? {},
+      },
+    })),
+  };
+}
+
+/**
+ * Builds a patch containing only the nodes whose input_mapping would change
+ * Mappings that target nodes missing from the blueprint are left out
+ *
+ * @param blueprint - The blueprint as loaded from the server
+ * @param mappings - All prefill mappings
+ * @returns A patch document; `nodes` is empty when nothing changed
+ */
+export function createInputMappingPatch(
+  blueprint: MockServerResponse,
+  mappings: PrefillMapping[]
+): InputMappingPatch {
+  const inputMappings = buildInputMappings(mappings);
+
+  const nodes = blueprint.nodes
+    .map(node => ({ id: node.id, input_mapping: inputMappings[node.id] ?? {} }))
+    .filter(
+      (patched, index) =>
+        JSON.stringify(patched.input_mapping) !==
+        JSON.stringify(blueprint.nodes[index].data.input_mapping ?? {})
+    );
+
+  return {
+    tenant_id: blueprint.tenant_id,
+    blueprint_id: blueprint.id,
+    nodes,
+  };
+}
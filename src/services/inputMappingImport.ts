@@ -0,0 +1,273 @@
+import {
+  AvantosInputMappingEntry,
+  ConstantValue,
+  FieldType,
+  Form,
+  GlobalData,
+  MappingReconciliationEntry,
+  MockServerNode,
+  PrefillMapping,
+} from '../types';
+import { GlobalDataSource, OrganizationDataSource } from './dataSourceRegistry';
+import { findField } from './fieldTree';
+import { formatConstantValue } from './constantValues';
+import { isTransformStep } from './transformPipeline';
+import { isMappingCondition } from './mappingConditions';
+
+const FIELD_TYPES: FieldType[] = ['text', 'email', 'date', 'checkbox', 'button', 'object', 'number'];
+
+/**
+ * Checks whether an unknown value is a recorded source and target field type pair
+ */
+function isFieldTypePair(value: unknown): value is { source: FieldType; target: FieldType } {
+  if (typeof value !== 'object' || value === null) return false;
+  const pair = value as Record<string, unknown>;
+  return (
+    FIELD_TYPES.includes(pair.source as FieldType) && FIELD_TYPES.includes(pair.target as FieldType)
+  );
+}
+
+/**
+ * Checks whether an unknown value is a well-formed input_mapping entry
+ */
+function isInputMappingEntry(value: unknown): value is AvantosInputMappingEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+
+  switch (entry.type) {
+    case 'form_field':
+      return typeof entry.component_key === 'string' && typeof entry.property === 'string';
+    case 'action_property':
+    case 'client_organisation_property':
+      return typeof entry.property === 'string';
+    case 'constant':
+      return entry.value !== undefined;
+    case 'custom_source':
+      return typeof entry.source_id === 'string' && typeof entry.property === 'string';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Converts the source part of one input_mapping entry into a PrefillMapping
+ * Source paths are built the same way the data sources build them, so
+ * imported mappings display exactly like ones created in the UI
+ */
+function toSourceMapping(
+  entry: AvantosInputMappingEntry,
+  targetFormId: string,
+  targetFieldId: string,
+  formsById: Map<string, Form>,
+  globalData: GlobalData
+): PrefillMapping {
+  const base = { targetFormId, targetFieldId };
+
+  switch (entry.type) {
+    case 'form_field': {
+      const sourceForm = formsById.get(entry.component_key);
+      const sourceField = sourceForm ? findField(sourceForm.fields, entry.property) : undefined;
+      return {
+        ...base,
+        sourceType: 'form',
+        sourceFormId: entry.component_key,
+        sourceFieldId: entry.property,
+        sourcePath: `${sourceForm?.name ?? entry.component_key}.${sourceField?.label ?? entry.property}`,
+      };
+    }
+    case 'action_property':
+    case 'client_organisation_property': {
+      const source =
+        entry.type === 'action_property'
+          ? new GlobalDataSource(globalData)
+          : new OrganizationDataSource(globalData);
+      const field = source.getFields().find(f => f.id === entry.property);
+      return {
+        ...base,
+        sourceType: 'global',
+        sourceFieldId: entry.property,
+        sourcePath: field?.path ?? `${source.name}.${entry.property}`,
+      };
+    }
+    case 'constant':
+      return {
+        ...base,
+        sourceType: 'constant',
+        sourceFieldId: '',
+        sourcePath: `Constant = ${formatConstantValue(entry.value as ConstantValue)}`,
+        constantValue: entry.value as ConstantValue,
+      };
+    // Plugins are not known here, so the path comes with the entry
+    case 'custom_source':
+      return {
+        ...base,
+        sourceType: 'custom',
+        sourceId: entry.source_id,
+        sourceFieldId: entry.property,
+        sourcePath:
+          typeof entry.source_path === 'string'
+            ? entry.source_path
+            : `${entry.source_id}.${entry.property}`,
+      };
+  }
+}
+
+/**
+ * Converts one input_mapping entry, including this app's transform, condition
+ * and field type extensions, into a PrefillMapping
+ * An extension that isn't well-formed is dropped with a warning
+ */
+function toPrefillMapping(
+  entry: AvantosInputMappingEntry,
+  targetFormId: string,
+  targetFieldId: string,
+  formsById: Map<string, Form>,
+  globalData: GlobalData
+): PrefillMapping {
+  const mapping = toSourceMapping(entry, targetFormId, targetFieldId, formsById, globalData);
+
+  const target = `${targetFormId}.${targetFieldId}`;
+
+  if (entry.transforms !== undefined) {
+    if (Array.isArray(entry.transforms) && entry.transforms.every(isTransformStep)) {
+      if (entry.transforms.length > 0) mapping.transforms = entry.transforms;
+    } else {
+      console.warn(`Ignoring malformed transforms for ${target}`, entry.transforms);
+    }
+  }
+  if (entry.condition !== undefined) {
+    if (isMappingCondition(entry.condition)) {
+      mapping.condition = entry.condition;
+    } else {
+      console.warn(`Ignoring malformed condition for ${target}`, entry.condition);
+    }
+  }
+  if (entry.field_types !== undefined) {
+    if (isFieldTypePair(entry.field_types)) {
+      mapping.fieldTypes = { source: entry.field_types.source, target: entry.field_types.target };
+    } else {
+      console.warn(`Ignoring malformed field_types for ${target}`, entry.field_types);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Parses a single node's input_mapping into PrefillMappings
+ * Malformed entries are skipped with a warning rather than failing the load
+ *
+ * @param nodeId - ID of the node the mappings prefill
+ * @param inputMapping - The node's input_mapping (untrusted)
+ * @param forms - Transformed forms (used for labels)
+ * @param globalData - Global data (used for labels)
+ * @returns Mappings in key order; array entries become fallback chains
+ */
+export function parseNodeInputMapping(
+  nodeId: string,
+  inputMapping: Record<string, unknown>,
+  forms: Form[],
+  globalData: GlobalData
+): PrefillMapping[] {
+  const formsById = new Map(forms.map(form => [form.id, form]));
+  const mappings: PrefillMapping[] = [];
+
+  Object.entries(inputMapping).forEach(([targetFieldId, raw]) => {
+    const entries = Array.isArray(raw) ? raw : [raw];
+
+    entries.forEach(entry => {
+      if (!isInputMappingEntry(entry)) {
+        console.warn(`Skipping malformed input_mapping entry for ${nodeId}.${targetFieldId}`, entry);
+        return;
+      }
+      mappings.push(toPrefillMapping(entry, nodeId, targetFieldId, formsById, globalData));
+    });
+  });
+
+  return mappings;
+}
+
+/**
+ * Parses every node's input_mapping into PrefillMappings
+ *
+ * @param nodes - Blueprint nodes
+ * @param forms - Forms already transformed from those nodes (used for labels)
+ * @param globalData - Global data (used for labels)
+ * @returns Mappings in node order
+ */
+export function parseInputMappings(
+  nodes: MockServerNode[],
+  forms: Form[],
+  globalData: GlobalData
+): PrefillMapping[] {
+  return nodes.flatMap(node =>
+    parseNodeInputMapping(node.id, node.data.input_mapping ?? {}, forms, globalData)
+  );
+}
+
+/**
+ * Checks whether two mappings read the same source the same way: same source,
+ * transforms, condition and type conversion (display paths are ignored)
+ */
+function isSameMapping(a: PrefillMapping, b: PrefillMapping): boolean {
+  const transformsOf = (m: PrefillMapping) => (m.transforms?.length ? m.transforms : null);
+  return (
+    a.sourceType === b.sourceType &&
+    (a.sourceFormId ?? null) === (b.sourceFormId ?? null) &&
+    (a.sourceId ?? null) === (b.sourceId ?? null) &&
+    a.sourceFieldId === b.sourceFieldId &&
+    JSON.stringify(a.constantValue ?? null) === JSON.stringify(b.constantValue ?? null) &&
+    JSON.stringify(transformsOf(a)) === JSON.stringify(transformsOf(b)) &&
+    JSON.stringify(a.condition ?? null) === JSON.stringify(b.condition ?? null) &&
+    JSON.stringify(a.fieldTypes ?? null) === JSON.stringify(b.fieldTypes ?? null)
+  );
+}
+
+/**
+ * Compares server-side mappings with locally stored ones, per target field
+ * Chains match only if they read the same sources in the same order, with the
+ * same transforms and conditions
+ *
+ * @param serverMappings - Mappings parsed from the blueprint
+ * @param localMappings - Mappings from localStorage
+ * @returns One entry per target field that has a mapping on either side
+ *
+ * @example
+ * reconcileMappings(serverMappings, localMappings)
+ *   .filter(entry => entry.status !== 'match') // Only the disagreements
+ */
+export function reconcileMappings(
+  serverMappings: PrefillMapping[],
+  localMappings: PrefillMapping[]
+): MappingReconciliationEntry[] {
+  const entries = new Map<string, MappingReconciliationEntry>();
+
+  const entryFor = (mapping: PrefillMapping) => {
+    const key = `${mapping.targetFormId}::${mapping.targetFieldId}`;
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = {
+        targetFormId: mapping.targetFormId,
+        targetFieldId: mapping.targetFieldId,
+        status: 'match',
+        server: [],
+        local: [],
+      };
+      entries.set(key, entry);
+    }
+    return entry;
+  };
+
+  serverMappings.forEach(m => entryFor(m).server.push(m));
+  localMappings.forEach(m => entryFor(m).local.push(m));
+
+  return Array.from(entries.values()).map(entry => {
+    if (entry.local.length === 0) return { ...entry, status: 'serverOnly' };
+    if (entry.server.length === 0) return { ...entry, status: 'localOnly' };
+
+    const same =
+      entry.server.length === entry.local.length &&
+      entry.server.every((m, i) => isSameMapping(m, entry.local[i]));
+    return { ...entry, status: same ? 'match' : 'conflict' };
+  });
+}
@@ -0,0 +1,115 @@
+import { ConditionOperator, MappingCondition } from '../types';
+import { SourceValueLookup } from './prefillResolver';
+
+/**
+ * Metadata describing a condition operator for the condition editor
+ */
+export interface ConditionOperatorDefinition {
+  /** Operator identifier */
+  operator: ConditionOperator;
+  /** Human-readable label */
+  label: string;
+  /** Whether the operator compares against a value */
+  requiresValue: boolean;
+}
+
+/**
+ * All condition operators, in display order
+ */
+export const CONDITION_OPERATORS: ConditionOperatorDefinition[] = [
+  { operator: 'equals', label: 'equals', requiresValue: true },
+  { operator: 'notEquals', label: 'does not equal', requiresValue: true },
+  { operator: 'contains', label: 'contains', requiresValue: true },
+  { operator: 'isEmpty', label: 'is empty', requiresValue: false },
+  { operator: 'isNotEmpty', label: 'is not empty', requiresValue: false },
+];
+
+/**
+ * Checks whether an operator compares against a value
+ *
+ * @param operator - The condition operator
+ * @returns true if the editor should ask for a comparison value
+ */
+export function operatorRequiresValue(operator: ConditionOperator): boolean {
+  return CONDITION_OPERATORS.find(def => def.operator === operator)?.requiresValue ?? false;
+}
+
+/**
+ * Checks whether an unknown value is a condition that can be evaluated
+ *
+ * @param value - A condition from an untrusted source, e.g. server data
+ * @returns true if the condition is well-formed
+ */
+export function isMappingCondition(value: unknown): value is MappingCondition {
+  if (typeof value !== 'object' || value === null) return false;
+  const condition = value as Record<string, unknown>;
+
+  return (
+    (condition.sourceType === 'global' ||
+      (condition.sourceType === 'form' && typeof condition.sourceFormId === 'string')) &&
+    typeof condition.sourceFieldId === 'string' &&
+    typeof condition.sourcePath === 'string' &&
+    CONDITION_OPERATORS.some(def => def.operator === condition.operator) &&
+    (condition.value === undefined || typeof condition.value === 'string')
+  );
+}
+
+/**
+ * Normalizes a runtime value for comparison
+ * Arrays (e.g., checkbox selections) are comma-joined; comparisons are case-insensitive
+ */
+function normalize(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ').trim().toLowerCase();
+  return String(value).trim().toLowerCase();
+}
+
+/**
+ * Evaluates a condition against runtime values
+ *
+ * @param condition - The condition to evaluate
+ * @param lookup - Provides the value of the field the condition reads
+ * @returns true if the mapping should apply
+ *
+ * @example
+ * evaluateCondition(
+ *   { ...surveyStatus, operator: 'equals', value: 'complete' },
+ *   source => values[source.sourcePath]
+ * )
+ */
+export function evaluateCondition(
+  condition: MappingCondition,
+  lookup: SourceValueLookup
+): boolean {
+  const actual = normalize(lookup(condition));
+  const expected = normalize(condition.value);
+
+  switch (condition.operator) {
+    case 'equals':
+      return actual === expected;
+    case 'notEquals':
+      return actual !== expected;
+    case 'contains':
+      return actual.includes(expected);
+    case 'isEmpty':
+      return actual === '';
+    case 'isNotEmpty':
+      return actual !== '';
+  }
+}
+
+/**
+ * Produces a short human-readable summary of a condition
+ *
+ * @param condition - The condition to describe
+ * @returns Summary such as `Form B.Survey Status equals "complete"`
+ */
+export function describeCondition(condition: MappingCondition): string {
+  const label =
+    CONDITION_OPERATORS.find(def => def.operator === condition.operator)?.label ??
+    condition.operator;
+
+  return operatorRequiresValue(condition.operator)
+    ? `${condition.sourcePath} ${label} "${condition.value ?? ''}"`
+    : `${condition.sourcePath} ${label}`;
+}
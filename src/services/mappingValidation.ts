@@ -0,0 +1,276 @@
+import { FieldType, Form, FormGraph, GlobalData, PrefillMapping } from '../types';
+import { findField } from './fieldTree';
+import { getGraphIndex } from './graphIndex';
+import {
+  TypeCompatibilityMatrix,
+  defaultCompatibilityMatrix,
+  fieldTypesToRecord,
+} from './typeCompatibility';
+
+/**
+ * Why a stored mapping no longer fits the blueprint
+ * - missingTargetForm: the form being prefilled was removed
+ * - missingTargetField: the field being prefilled was removed
+ * - missingSourceForm: the form read from was removed
+ * - notAncestor: the form read from is no longer upstream of the target
+ * - missingSourceField: the field read from was removed
+ * - brokenCondition: the field the condition reads was removed or is no longer upstream
+ * - typeMismatch: the source or target field changed type since the conversion was recorded
+ */
+export type MappingProblemType =
+  | 'missingTargetForm'
+  | 'missingTargetField'
+  | 'missingSourceForm'
+  | 'notAncestor'
+  | 'missingSourceField'
+  | 'brokenCondition'
+  | 'typeMismatch';
+
+/**
+ * A broken mapping and what is wrong with it
+ */
+export interface MappingProblem {
+  /** The stored mapping, as found in the mappings list */
+  mapping: PrefillMapping;
+  /** The first problem found (a mapping can only be repaired one way at a time) */
+  type: MappingProblemType;
+  /** Human-readable explanation */
+  message: string;
+}
+
+/**
+ * A field read by a mapping or its condition
+ */
+type SourceRef = Pick<PrefillMapping, 'sourceFieldId' | 'sourcePath'>;
+
+/**
+ * Whether a global property still exists, in the catalog the source's path points at
+ */
+function hasGlobalProperty(source: SourceRef, globalData: GlobalData): boolean {
+  const properties = source.sourcePath.startsWith('clientOrg.')
+    ? globalData.clientOrgProperties
+    : globalData.actionProperties;
+  return properties.includes(source.sourceFieldId);
+}
+
+/**
+ * Type of a global property, from the catalog the source's path points at
+ * Properties without a listed type are text, as the global data sources treat them
+ */
+function globalPropertyType(source: SourceRef, globalData: GlobalData): FieldType {
+  const types = source.sourcePath.startsWith('clientOrg.')
+    ? globalData.clientOrgPropertyTypes
+    : globalData.actionPropertyTypes;
+  return types?.[source.sourceFieldId] ?? 'text';
+}
+
+/**
+ * Current types of the field a mapping reads and the field it prefills
+ * Undefined when either side is gone or can't be typed here (constants, plugin
+ * sources, and global sources while the catalog is unknown)
+ */
+function currentFieldTypes(
+  mapping: PrefillMapping,
+  formGraph: FormGraph,
+  globalData: GlobalData | null
+): { source: FieldType; target: FieldType } | undefined {
+  const targetForm = formGraph[mapping.targetFormId];
+  const target = targetForm ? findField(targetForm.fields, mapping.targetFieldId)?.type : undefined;
+
+  let source: FieldType | undefined;
+  if (mapping.sourceType === 'form') {
+    const sourceForm = mapping.sourceFormId ? formGraph[mapping.sourceFormId] : undefined;
+    source = sourceForm ? findField(sourceForm.fields, mapping.sourceFieldId)?.type : undefined;
+  } else if (mapping.sourceType === 'global' && globalData) {
+    source = globalPropertyType(mapping, globalData);
+  }
+
+  return source && target ? { source, target } : undefined;
+}
+
+/**
+ * Checks the field a mapping's condition reads, the same way sources are checked
+ */
+function checkCondition(
+  mapping: PrefillMapping,
+  targetForm: Form,
+  formGraph: FormGraph,
+  globalData: GlobalData | null
+): Omit<MappingProblem, 'mapping'> | undefined {
+  const { condition } = mapping;
+  if (!condition) {
+    return undefined;
+  }
+
+  if (condition.sourceType === 'form') {
+    const sourceForm = condition.sourceFormId ? formGraph[condition.sourceFormId] : undefined;
+    if (!sourceForm) {
+      return {
+        type: 'brokenCondition',
+        message: `The condition reads form ${condition.sourceFormId ?? '(none)'}, which no longer exists`,
+      };
+    }
+    if (!getGraphIndex(formGraph).dependsOn(targetForm.id, sourceForm.id)) {
+      return {
+        type: 'brokenCondition',
+        message: `The condition reads ${sourceForm.name}, which ${targetForm.name} no longer depends on`,
+      };
+    }
+    if (!findField(sourceForm.fields, condition.sourceFieldId)) {
+      return {
+        type: 'brokenCondition',
+        message: `The condition reads "${condition.sourceFieldId}", which ${sourceForm.name} no longer has`,
+      };
+    }
+  }
+
+  if (condition.sourceType === 'global' && globalData && !hasGlobalProperty(condition, globalData)) {
+    return {
+      type: 'brokenCondition',
+      message: `The condition reads global property "${condition.sourceFieldId}", which no longer exists`,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks one mapping against the current blueprint
+ *
+ * @returns The problem, or undefined when the mapping is still valid
+ */
+function checkMapping(
+  mapping: PrefillMapping,
+  formGraph: FormGraph,
+  globalData: GlobalData | null
+): Omit<MappingProblem, 'mapping'> | undefined {
+  const targetForm = formGraph[mapping.targetFormId];
+  if (!targetForm) {
+    return {
+      type: 'missingTargetForm',
+      message: `The form being prefilled (${mapping.targetFormId}) no longer exists`,
+    };
+  }
+  if (!findField(targetForm.fields, mapping.targetFieldId)) {
+    return {
+      type: 'missingTargetField',
+      message: `${targetForm.name} no longer has a field "${mapping.targetFieldId}"`,
+    };
+  }
+
+  if (mapping.sourceType === 'form') {
+    const sourceForm = mapping.sourceFormId ? formGraph[mapping.sourceFormId] : undefined;
+    if (!sourceForm) {
+      return {
+        type: 'missingSourceForm',
+        message: mapping.sourceFormId
+          ? `Source form ${mapping.sourceFormId} no longer exists`
+          : 'The mapping names no source form',
+      };
+    }
+    if (!getGraphIndex(formGraph).dependsOn(targetForm.id, sourceForm.id)) {
+      return {
+        type: 'notAncestor',
+        message: `${targetForm.name} no longer depends on ${sourceForm.name}`,
+      };
+    }
+    if (!findField(sourceForm.fields, mapping.sourceFieldId)) {
+      return {
+        type: 'missingSourceField',
+        message: `${sourceForm.name} no longer has a field "${mapping.sourceFieldId}"`,
+      };
+    }
+  }
+
+  if (mapping.sourceType === 'global' && globalData && !hasGlobalProperty(mapping, globalData)) {
+    return {
+      type: 'missingSourceField',
+      message: `Global property "${mapping.sourceFieldId}" no longer exists`,
+    };
+  }
+
+  const conditionProblem = checkCondition(mapping, targetForm, formGraph, globalData);
+  if (conditionProblem) {
+    return conditionProblem;
+  }
+
+  // Only a recorded conversion says what types the mapping was made for
+  const recorded = mapping.fieldTypes;
+  const current = currentFieldTypes(mapping, formGraph, globalData);
+  const changed =
+    recorded && current && (recorded.source !== current.source || recorded.target !== current.target);
+  if (changed) {
+    return {
+      type: 'typeMismatch',
+      message:
+        `The mapping converts ${recorded.source} to ${recorded.target}, ` +
+        `but the fields are now ${current.source} and ${current.target}`,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Records the conversion a mapping needs for the current types of its fields,
+ * the way the data source modal records it for a new mapping
+ * The recorded types are cleared when the fields now match or can't be converted
+ *
+ * @param mapping - A mapping with a typeMismatch problem
+ * @param formGraph - The current form graph
+ * @param globalData - The current global properties catalog, if loaded
+ * @param matrix - Rules used to classify the new pair
+ * @returns A copy with updated field types, or the mapping itself when its fields can't be typed
+ */
+export function retypeMapping(
+  mapping: PrefillMapping,
+  formGraph: FormGraph,
+  globalData: GlobalData | null,
+  matrix: TypeCompatibilityMatrix = defaultCompatibilityMatrix
+): PrefillMapping {
+  const current = currentFieldTypes(mapping, formGraph, globalData);
+  if (!current) {
+    return mapping;
+  }
+
+  const retyped: PrefillMapping = {
+    ...mapping,
+    fieldTypes: fieldTypesToRecord(current.source, current.target, matrix),
+  };
+  if (!retyped.fieldTypes) {
+    delete retyped.fieldTypes;
+  }
+  return retyped;
+}
+
+/**
+ * Finds stored mappings that the current blueprint no longer supports
+ *
+ * Mappings outlive blueprint changes: a form or field may have been removed,
+ * or a dependency dropped so the source is no longer upstream of the target.
+ * Conditions are checked the same way as sources. Mappings that record a type
+ * conversion are also checked against the current types of their fields.
+ * Constant mappings only need their target to exist. Global sources are only
+ * checked when the global properties catalog is known; plugin sources are not
+ * checked, since the plugins are not known here.
+ *
+ * @param mappings - All stored mappings
+ * @param formGraph - The current form graph
+ * @param globalData - The current global properties catalog, if loaded
+ * @returns One problem per broken mapping, in mapping order
+ *
+ * @example
+ * // Form D.email reads Form A.email, but Form A was removed from the blueprint
+ * validateMappings(mappings, graph, globalData)
+ * // [{ mapping, type: 'missingSourceForm', message: 'Source form form-a no longer exists' }]
+ */
+export function validateMappings(
+  mappings: PrefillMapping[],
+  formGraph: FormGraph,
+  globalData: GlobalData | null
+): MappingProblem[] {
+  return mappings.flatMap(mapping => {
+    const problem = checkMapping(mapping, formGraph, globalData);
+    return problem ? [{ mapping, ...problem }] : [];
+  });
+}
@@ -0,0 +1,155 @@
+import { BlueprintRef, FormBlueprintResponse, PrefillMapping } from '../types';
+
+const DB_NAME = 'form-prefill-mapper';
+const DB_VERSION = 1;
+const STORE_NAME = 'offline';
+
+/**
+ * A blueprint as last loaded from the API
+ */
+export interface BlueprintSnapshot {
+  /** The transformed response */
+  data: FormBlueprintResponse;
+  /** When it was loaded (ISO timestamp) */
+  syncedAt: string;
+}
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Opens (and on first use creates) the offline database
+ * Resolves to null where IndexedDB is unavailable, e.g. private browsing or tests
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!databasePromise) {
+    databasePromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME);
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          // Another tab upgrading the database closes this connection; reopen on next use
+          db.onversionchange = () => {
+            db.close();
+            databasePromise = null;
+          };
+          resolve(db);
+        };
+        request.onerror = () => {
+          console.warn('Offline cache unavailable:', request.error?.message);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('Offline cache unavailable:', error instanceof Error ? error.message : error);
+        resolve(null);
+      }
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Starts a transaction on the store
+ * Returns null when that throws, e.g. because the connection was closed or the
+ * store is missing; the connection is then dropped so the next call reopens it
+ */
+function startTransaction(db: IDBDatabase, mode: IDBTransactionMode): IDBTransaction | null {
+  try {
+    return db.transaction(STORE_NAME, mode);
+  } catch (error) {
+    console.warn('Offline cache unavailable:', error instanceof Error ? error.message : error);
+    databasePromise = null;
+    return null;
+  }
+}
+
+/**
+ * Reads one record; resolves to null when it is missing or can't be read
+ */
+async function readRecord<T>(key: string): Promise<T | null> {
+  const db = await openDatabase();
+  const transaction = db && startTransaction(db, 'readonly');
+  if (!transaction) return null;
+
+  return new Promise(resolve => {
+    const request = transaction.objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => resolve((request.result as T | undefined) ?? null);
+    request.onerror = () => resolve(null);
+  });
+}
+
+/**
+ * Writes one record; failures are logged, since the cache is only a fallback
+ */
+async function writeRecord(key: string, value: unknown): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db && startTransaction(db, 'readwrite');
+  if (!transaction) return;
+
+  return new Promise(resolve => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.warn('Failed to update offline cache:', transaction.error?.message);
+      resolve();
+    };
+    try {
+      transaction.objectStore(STORE_NAME).put(value, key);
+    } catch (error) {
+      // e.g. a value that can't be cloned
+      console.warn('Failed to update offline cache:', error instanceof Error ? error.message : error);
+      resolve();
+    }
+  });
+}
+
+const recordKey = (kind: string, { tenantId, blueprintId }: BlueprintRef) =>
+  `${kind}:${tenantId}:${blueprintId}`;
+
+/**
+ * Stores a successfully loaded blueprint for use while the API is unreachable
+ */
+export function saveBlueprintSnapshot(ref: BlueprintRef, data: FormBlueprintResponse): Promise<void> {
+  const snapshot: BlueprintSnapshot = { data, syncedAt: new Date().toISOString() };
+  return writeRecord(recordKey('blueprint', ref), snapshot);
+}
+
+/**
+ * Loads the last stored copy of a blueprint
+ */
+export function loadBlueprintSnapshot(ref: BlueprintRef): Promise<BlueprintSnapshot | null> {
+  return readRecord<BlueprintSnapshot>(recordKey('blueprint', ref));
+}
+
+/**
+ * Stores a blueprint's local mappings next to the blueprint itself
+ */
+export function saveMappingsSnapshot(ref: BlueprintRef, mappings: PrefillMapping[]): Promise<void> {
+  return writeRecord(recordKey('mappings', ref), mappings);
+}
+
+/**
+ * Loads the stored mappings of a blueprint
+ */
+export function loadMappingsSnapshot(ref: BlueprintRef): Promise<PrefillMapping[] | null> {
+  return readRecord<PrefillMapping[]>(recordKey('mappings', ref));
+}
+
+/**
+ * Stores the nodes whose mappings still have to be written to the API
+ */
+export function savePendingNodes(ref: BlueprintRef, nodeIds: string[]): Promise<void> {
+  return writeRecord(recordKey('pending', ref), nodeIds);
+}
+
+/**
+ * Loads the nodes whose mappings still have to be written to the API
+ */
+export async function loadPendingNodes(ref: BlueprintRef): Promise<string[]> {
+  return (await readRecord<string[]>(recordKey('pending', ref))) ?? [];
+}
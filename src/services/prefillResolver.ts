@@ -0,0 +1,111 @@
+import { PrefillMapping } from '../types';
+import { applyTransforms } from './transformPipeline';
+import { constantToString } from './constantValues';
+import { evaluateCondition } from './mappingConditions';
+import { TypeCompatibilityMatrix, defaultCompatibilityMatrix } from './typeCompatibility';
+
+/**
+ * Looks up the raw runtime value of a source field
+ * Supplied by the caller, since values live outside the mapping configuration.
+ * Called with mappings as well as with the fields that conditions read.
+ */
+export type SourceValueLookup = (
+  source: Pick<
+    PrefillMapping,
+    'sourceType' | 'sourceFormId' | 'sourceId' | 'sourceFieldId' | 'sourcePath'
+  >
+) => unknown;
+
+/**
+ * Result of resolving a fallback chain
+ */
+export interface ChainResolution {
+  /** The final prefill value (empty string when nothing resolved) */
+  value: string;
+  /** The chain entry that supplied the value, if any */
+  mapping: PrefillMapping | undefined;
+  /** Index of that entry in the chain (-1 when nothing resolved) */
+  index: number;
+}
+
+/**
+ * Turns a converted value back into text for the transform pipeline
+ * Objects and arrays (object and checkbox targets) become JSON instead of
+ * "[object Object]" or a bare comma list
+ */
+function serializeCoerced(value: unknown): unknown {
+  return value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+}
+
+/**
+ * Resolves the value of a single mapping, including its transform pipeline
+ * Constant mappings carry their own value and never consult the lookup.
+ * Source values are first converted to the target type when the mapping
+ * records differing field types; a value that cannot be converted resolves empty.
+ *
+ * @param mapping - The mapping to resolve
+ * @param lookup - Provides the raw source value
+ * @param matrix - Rules used to convert between field types
+ * @returns The transformed value
+ */
+export function resolveMappingValue(
+  mapping: PrefillMapping,
+  lookup: SourceValueLookup,
+  matrix: TypeCompatibilityMatrix = defaultCompatibilityMatrix
+): string {
+  if (mapping.sourceType === 'constant' && mapping.constantValue !== undefined) {
+    return applyTransforms(constantToString(mapping.constantValue), mapping.transforms);
+  }
+
+  const raw = lookup(mapping);
+  const value = mapping.fieldTypes
+    ? serializeCoerced(matrix.coerce(raw, mapping.fieldTypes.source, mapping.fieldTypes.target))
+    : raw;
+  return applyTransforms(value, mapping.transforms);
+}
+
+/**
+ * Checks whether a mapping applies, i.e. it has no condition or its condition holds
+ *
+ * @param mapping - The mapping to check
+ * @param lookup - Provides the value of the field the condition reads
+ * @returns true if the mapping should be used
+ */
+export function isMappingApplicable(
+  mapping: PrefillMapping,
+  lookup: SourceValueLookup
+): boolean {
+  return !mapping.condition || evaluateCondition(mapping.condition, lookup);
+}
+
+/**
+ * Resolves an ordered fallback chain: the first applicable entry whose
+ * transformed value is non-empty wins
+ *
+ * @param chain - Mappings for one target field, in priority order
+ * @param lookup - Provides the raw source value for each entry
+ * @param matrix - Rules used to convert between field types
+ * @returns The winning value and the entry it came from
+ *
+ * @example
+ * // Email comes from Form B if filled, otherwise from Form A
+ * resolveMappingChain([formBEmail, formAEmail], m => values[m.sourcePath])
+ */
+export function resolveMappingChain(
+  chain: PrefillMapping[],
+  lookup: SourceValueLookup,
+  matrix: TypeCompatibilityMatrix = defaultCompatibilityMatrix
+): ChainResolution {
+  for (let index = 0; index < chain.length; index++) {
+    if (!isMappingApplicable(chain[index], lookup)) {
+      continue;
+    }
+
+    const value = resolveMappingValue(chain[index], lookup, matrix);
+    if (value.trim() !== '') {
+      return { value, mapping: chain[index], index };
+    }
+  }
+
+  return { value: '', mapping: undefined, index: -1 };
+}
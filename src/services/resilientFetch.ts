@@ -0,0 +1,142 @@
+/**
+ * Retry and timeout settings for a request
+ */
+export interface RequestOptions {
+  /** Cancels the request, including any pending retries */
+  signal?: AbortSignal;
+  /** How long one attempt may take before it is abandoned (ms) */
+  timeoutMs?: number;
+  /** How many times a failed attempt is repeated */
+  retries?: number;
+  /** Delay before the first retry; doubles with every further retry (ms) */
+  retryDelayMs?: number;
+  /** Upper bound for the delay between retries (ms) */
+  maxRetryDelayMs?: number;
+}
+
+const DEFAULT_OPTIONS = {
+  timeoutMs: 10000,
+  retries: 3,
+  retryDelayMs: 500,
+  maxRetryDelayMs: 8000,
+};
+
+/**
+ * Thrown when every attempt of a request timed out
+ */
+export class TimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs / 1000}s`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Checks whether an error comes from cancelling a request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Resolves after `ms`, or rejects as soon as the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Makes one attempt, abandoning it after `timeoutMs`
+ * The caller's signal is forwarded, so cancelling also ends the attempt
+ */
+async function attempt(
+  input: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  if (signal?.aborted) {
+    throw new DOMException('Aborted', 'AbortError');
+  }
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await fetch(input, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) {
+      throw new TimeoutError(timeoutMs);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * `fetch` for idempotent reads, with a per-attempt timeout and retries
+ *
+ * Network errors, timeouts and 5xx responses are retried with exponential
+ * backoff (500ms, 1s, 2s, … by default). Other responses are returned as they
+ * are, as is the last 5xx response once the retries run out. Aborting the
+ * signal stops at once with an AbortError.
+ *
+ * @param input - URL to request
+ * @param init - Request settings (its `signal` is replaced; use `options.signal`)
+ * @param options - Retry, timeout and cancellation settings
+ * @returns The response of the last attempt
+ * @throws {TimeoutError} If the last attempt timed out
+ * @throws {TypeError} If the last attempt failed with a network error
+ *
+ * @example
+ * const controller = new AbortController();
+ * const response = await fetchWithRetry(url, { method: 'GET' }, { signal: controller.signal });
+ */
+export async function fetchWithRetry(
+  input: string,
+  init: RequestInit = {},
+  options: RequestOptions = {}
+): Promise<Response> {
+  const { signal, timeoutMs, retries, retryDelayMs, maxRetryDelayMs } = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  };
+
+  for (let retry = 0; ; retry++) {
+    const isLastAttempt = retry >= retries;
+    try {
+      const response = await attempt(input, init, timeoutMs, signal);
+      if (response.status < 500 || isLastAttempt) {
+        return response;
+      }
+    } catch (error) {
+      const isRetryable = error instanceof TypeError || error instanceof TimeoutError;
+      if (signal?.aborted || !isRetryable || isLastAttempt) {
+        throw error;
+      }
+    }
+
+    await sleep(Math.min(retryDelayMs * 2 ** retry, maxRetryDelayMs), signal);
+  }
+}
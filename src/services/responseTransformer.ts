@@ -2,12 +2,36 @@ import {
   MockServerResponse,
   MockServerNode,
   MockServerFormTemplate,
+  MockServerFieldSchema,
   FormBlueprintResponse,
   Form,
   FormField,
   FieldType,
   GlobalData,
+  MockServerGlobalProperty,
+  MockServerGlobalPropertiesResponse,
 } from '../types';
+import { parseInputMappings } from './inputMappingImport';
+import { reconcileDependencies } from './dependencyReconciliation';
+
+/**
+ * Maps plain JSON-schema types for nested fields that carry no Avantos type
+ */
+function mapSchemaType(schema: MockServerFieldSchema): FieldType {
+  if (schema.format === 'email') return 'email';
+  if (schema.format === 'date' || schema.format === 'date-time') return 'date';
+
+  const typeMap: Record<string, FieldType> = {
+    string: 'text',
+    number: 'number',
+    integer: 'number',
+    boolean: 'checkbox',
+    object: 'object',
+    array: 'checkbox',
+  };
+
+  return typeMap[schema.type] || 'text';
+}
 
 /**
  * Maps Avantos field types to our application's field types
@@ -28,20 +52,50 @@ function mapFieldType(avantosType: string): FieldType {
   return typeMap[avantosType] || 'text';
 }
 
+/**
+ * Converts one schema property into a FormField, recursing into nested
+ * object `properties` and array `items`
+ *
+ * Child IDs are dotted paths from the root property ("address.city");
+ * array items use a `[]` segment ("contacts[].email")
+ */
+function toFormField(id: string, key: string, schema: MockServerFieldSchema): FormField {
+  const label = schema.title || key;
+  const field: FormField = {
+    id,
+    label,
+    type: schema.avantos_type ? mapFieldType(schema.avantos_type) : mapSchemaType(schema),
+  };
+
+  const children: FormField[] = [];
+
+  if (schema.properties) {
+    Object.keys(schema.properties).forEach(childKey => {
+      children.push(toFormField(`${id}.${childKey}`, childKey, schema.properties![childKey]));
+    });
+  }
+
+  // Item schemas were checked by validateBlueprintResponse; enum options become a plain item field
+  if (schema.type === 'array' && schema.items) {
+    children.push(toFormField(`${id}[]`, `${label} item`, schema.items));
+  }
+
+  if (children.length > 0) {
+    field.children = children;
+  }
+
+  return field;
+}
+
 /**
  * Extracts fields from a form template's field schema
  */
 function extractFields(formTemplate: MockServerFormTemplate): FormField[] {
   const properties = formTemplate.field_schema.properties;
 
-  return Object.keys(properties).map((fieldId) => {
-    const fieldDef = properties[fieldId];
-    return {
-      id: fieldId,
-      label: fieldDef.title || fieldId,
-      type: mapFieldType(fieldDef.avantos_type),
-    };
-  });
+  return Object.keys(properties).map((fieldId) =>
+    toFormField(fieldId, fieldId, properties[fieldId])
+  );
 }
 
 /**
@@ -56,10 +110,14 @@ function findFormTemplate(
 
 /**
  * Converts a mock server node to our Form interface
+ *
+ * @param dependencies - The node's direct dependencies, reconciled from
+ *   prerequisites and edges (defaults to its prerequisites)
  */
 function transformNode(
   node: MockServerNode,
-  formTemplates: MockServerFormTemplate[]
+  formTemplates: MockServerFormTemplate[],
+  dependencies: string[] = node.data.prerequisites
 ): Form | null {
   const formTemplate = findFormTemplate(node.data.component_id, formTemplates);
 
@@ -68,19 +126,27 @@ function transformNode(
     return null;
   }
 
-  return {
+  const form: Form = {
     id: node.id,
     name: node.data.name,
     fields: extractFields(formTemplate),
-    dependencies: node.data.prerequisites,
+    dependencies,
   };
+
+  // Kept for the graph view; blueprints without coordinates get an automatic layout
+  const position = node.position;
+  if (position && Number.isFinite(position.x) && Number.isFinite(position.y)) {
+    form.position = { x: position.x, y: position.y };
+  }
+
+  return form;
 }
 
 /**
  * Creates global data structure
- * For now, we use hardcoded values as the mock server doesn't provide this
+ * Local fallback used when the global properties endpoint is unavailable
  */
-function createGlobalData(): GlobalData {
+export function createGlobalData(): GlobalData {
   return {
     actionProperties: [
       'status',
@@ -98,28 +164,101 @@ function createGlobalData(): GlobalData {
       'created_date',
       'contact_email',
     ],
+    actionPropertyTypes: {
+      created_at: 'date',
+      updated_at: 'date',
+      due_date: 'date',
+    },
+    clientOrgPropertyTypes: {
+      created_date: 'date',
+      contact_email: 'email',
+    },
+  };
+}
+
+/**
+ * Converts catalog entries into property names and their field types
+ * Entries without a string name are skipped
+ */
+function toTypedProperties(
+  properties: MockServerGlobalProperty[] | undefined
+): { names: string[]; types: Record<string, FieldType> } {
+  const names: string[] = [];
+  const types: Record<string, FieldType> = {};
+
+  (Array.isArray(properties) ? properties : []).forEach(property => {
+    if (typeof property?.name !== 'string') return;
+    names.push(property.name);
+    types[property.name] = mapSchemaType({ type: property.type, format: property.format });
+  });
+
+  return { names, types };
+}
+
+/**
+ * Transforms the global properties endpoint response into GlobalData
+ *
+ * @param response - The raw catalog response
+ * @returns Global data with a field type for every property
+ */
+export function transformGlobalProperties(
+  response: MockServerGlobalPropertiesResponse
+): GlobalData {
+  const action = toTypedProperties(response.action_properties);
+  const clientOrg = toTypedProperties(response.client_organisation_properties);
+
+  return {
+    actionProperties: action.names,
+    clientOrgProperties: clientOrg.names,
+    actionPropertyTypes: action.types,
+    clientOrgPropertyTypes: clientOrg.types,
   };
 }
 
+/**
+ * Collects the input_mapping version of every node that reports one
+ */
+function collectNodeVersions(nodes: MockServerNode[]): Record<string, string> {
+  const versions: Record<string, string> = {};
+  nodes.forEach(node => {
+    if (node.data.input_mapping_version) {
+      versions[node.id] = node.data.input_mapping_version;
+    }
+  });
+  return versions;
+}
+
 /**
  * Transforms the mock server API response into our application's expected format
  *
  * @param mockResponse - The raw response from the mock server
+ * @param globalData - Global properties catalog (defaults to the local fallback)
  * @returns The transformed data in our application's format
  */
 export function transformMockServerResponse(
-  mockResponse: MockServerResponse
+  mockResponse: MockServerResponse,
+  globalData: GlobalData = createGlobalData()
 ): FormBlueprintResponse {
+  // Merge prerequisites with edges so neither source of dependencies is ignored
+  const { dependencies, issues } = reconcileDependencies(
+    mockResponse.nodes,
+    mockResponse.edges ?? []
+  );
+
   // Transform each node into a Form
   const forms: Form[] = mockResponse.nodes
-    .map((node) => transformNode(node, mockResponse.forms))
+    .map((node) => transformNode(node, mockResponse.forms, dependencies[node.id]))
     .filter((form): form is Form => form !== null); // Remove any null values
 
-  // Create global data (hardcoded for now)
-  const globalData = createGlobalData();
+  // Prefill mappings already stored on the blueprint
+  const serverMappings = parseInputMappings(mockResponse.nodes, forms, globalData);
 
   return {
     forms,
     globalData,
+    serverMappings,
+    blueprint: mockResponse,
+    nodeVersions: collectNodeVersions(mockResponse.nodes),
+    dependencyIssues: issues,
   };
 }
@@ -0,0 +1,169 @@
+import { ValidationIssue } from '../types';
+
+/**
+ * Result of validating a blueprint response
+ */
+export interface ValidationResult {
+  /** Problems that make the response unusable */
+  errors: ValidationIssue[];
+  /** Problems the app can work around */
+  warnings: ValidationIssue[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Formats an issue as a single line, e.g. "forms[3].field_schema.properties missing"
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+  return issue.path ? `${issue.path} ${issue.message}` : issue.message;
+}
+
+/**
+ * Checks that an unknown JSON value has the shape of a MockServerResponse
+ *
+ * Everything the transformer reads is checked, so a malformed response fails
+ * here with path-addressed issues instead of crashing deep in the transformer.
+ * Parts the app can do without (edges, prerequisites, names, a field's type)
+ * are only warnings.
+ *
+ * @param data - Parsed JSON from the blueprint endpoint
+ * @returns Errors and warnings; the response is usable when `errors` is empty
+ *
+ * @example
+ * validateBlueprintResponse({ nodes: [], forms: [{ id: 'f1' }] }).errors
+ * // [{ path: 'forms[0].field_schema', message: 'missing', severity: 'error' }, ...]
+ */
+export function validateBlueprintResponse(data: unknown): ValidationResult {
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+  const error = (path: string, message: string) => {
+    errors.push({ path, message, severity: 'error' });
+  };
+  const warn = (path: string, message: string) => {
+    warnings.push({ path, message, severity: 'warning' });
+  };
+
+  // Reports a missing or mistyped value; returns whether it is present and valid
+  const checkValue = (
+    value: unknown,
+    path: string,
+    check: (value: unknown) => boolean,
+    expected: string,
+    report = error
+  ): boolean => {
+    if (value === undefined || value === null) {
+      report(path, 'missing');
+      return false;
+    }
+    if (!check(value)) {
+      report(path, `should be ${expected}`);
+      return false;
+    }
+    return true;
+  };
+  const isString = (value: unknown) => typeof value === 'string';
+
+  // Checks a field schema and the nested `properties` and `items` schemas inside it
+  const checkFieldSchema = (schema: unknown, path: string) => {
+    if (!checkValue(schema, path, isObject, 'an object')) return;
+    const { type, properties, items } = schema as JsonObject;
+
+    checkValue(type, `${path}.type`, isString, 'a string', warn);
+    if (properties !== undefined && checkValue(properties, `${path}.properties`, isObject, 'an object')) {
+      Object.entries(properties as JsonObject).forEach(([key, child]) => {
+        checkFieldSchema(child, `${path}.properties.${key}`);
+      });
+    }
+    if (items !== undefined) {
+      checkFieldSchema(items, `${path}.items`);
+    }
+  };
+
+  if (!isObject(data)) {
+    error('', 'Response is not a JSON object');
+    return { errors, warnings };
+  }
+
+  // Forms first, so nodes can be checked against their IDs
+  const formIds = new Set<string>();
+  if (checkValue(data.forms, 'forms', Array.isArray, 'an array')) {
+    (data.forms as unknown[]).forEach((form, i) => {
+      const path = `forms[${i}]`;
+      if (!checkValue(form, path, isObject, 'an object')) return;
+      const template = form as JsonObject;
+
+      if (checkValue(template.id, `${path}.id`, isString, 'a string')) {
+        formIds.add(template.id as string);
+      }
+      if (!checkValue(template.field_schema, `${path}.field_schema`, isObject, 'an object')) return;
+
+      const properties = (template.field_schema as JsonObject).properties;
+      if (!checkValue(properties, `${path}.field_schema.properties`, isObject, 'an object')) return;
+
+      Object.entries(properties as JsonObject).forEach(([key, schema]) => {
+        checkFieldSchema(schema, `${path}.field_schema.properties.${key}`);
+      });
+    });
+  }
+
+  const nodeIds = new Set<string>();
+  if (checkValue(data.nodes, 'nodes', Array.isArray, 'an array')) {
+    (data.nodes as unknown[]).forEach((node, i) => {
+      const path = `nodes[${i}]`;
+      if (!checkValue(node, path, isObject, 'an object')) return;
+      const { id, data: nodeData } = node as JsonObject;
+
+      if (checkValue(id, `${path}.id`, isString, 'a string')) {
+        if (nodeIds.has(id as string)) {
+          warn(`${path}.id`, `duplicates node "${id}"`);
+        }
+        nodeIds.add(id as string);
+      }
+      if (!checkValue(nodeData, `${path}.data`, isObject, 'an object')) return;
+      const { component_id, name, prerequisites, input_mapping } = nodeData as JsonObject;
+
+      checkValue(name, `${path}.data.name`, isString, 'a string', warn);
+      const hasComponentId = checkValue(
+        component_id,
+        `${path}.data.component_id`,
+        isString,
+        'a string'
+      );
+      if (hasComponentId && Array.isArray(data.forms) && !formIds.has(component_id as string)) {
+        warn(`${path}.data.component_id`, `refers to unknown form "${component_id}"`);
+      }
+      if (prerequisites === undefined) {
+        warn(`${path}.data.prerequisites`, 'missing');
+      } else {
+        checkValue(
+          prerequisites,
+          `${path}.data.prerequisites`,
+          value => Array.isArray(value) && value.every(isString),
+          'an array of strings'
+        );
+      }
+      if (input_mapping !== undefined) {
+        checkValue(input_mapping, `${path}.data.input_mapping`, isObject, 'an object', warn);
+      }
+    });
+  }
+
+  if (data.edges === undefined) {
+    warn('edges', 'missing');
+  } else if (checkValue(data.edges, 'edges', Array.isArray, 'an array')) {
+    (data.edges as unknown[]).forEach((edge, i) => {
+      const path = `edges[${i}]`;
+      if (!checkValue(edge, path, isObject, 'an object')) return;
+      checkValue((edge as JsonObject).source, `${path}.source`, isString, 'a string');
+      checkValue((edge as JsonObject).target, `${path}.target`, isString, 'a string');
+    });
+  }
+
+  return { errors, warnings };
+}
+
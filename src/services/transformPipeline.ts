@@ -0,0 +1,238 @@
+import { TransformStep, TransformType } from '../types';
+
+/**
+ * Metadata describing a transform for the pipeline editor
+ */
+export interface TransformDefinition {
+  /** Transform type identifier */
+  type: TransformType;
+  /** Human-readable name */
+  label: string;
+  /** Short explanation shown in the editor */
+  description: string;
+  /** Creates a step of this type with sensible default options */
+  createDefault: () => TransformStep;
+}
+
+/**
+ * All transforms available in the pipeline editor, in display order
+ */
+export const TRANSFORM_DEFINITIONS: TransformDefinition[] = [
+  {
+    type: 'trim',
+    label: 'Trim',
+    description: 'Remove leading and trailing whitespace',
+    createDefault: () => ({ type: 'trim' }),
+  },
+  {
+    type: 'uppercase',
+    label: 'Uppercase',
+    description: 'Convert to UPPER CASE',
+    createDefault: () => ({ type: 'uppercase' }),
+  },
+  {
+    type: 'lowercase',
+    label: 'Lowercase',
+    description: 'Convert to lower case',
+    createDefault: () => ({ type: 'lowercase' }),
+  },
+  {
+    type: 'concatenate',
+    label: 'Concatenate',
+    description: 'Add a fixed prefix and/or suffix',
+    createDefault: () => ({ type: 'concatenate', prefix: '', suffix: '' }),
+  },
+  {
+    type: 'substring',
+    label: 'Substring',
+    description: 'Keep a range of characters',
+    createDefault: () => ({ type: 'substring', start: 0 }),
+  },
+  {
+    type: 'split',
+    label: 'Split',
+    description: 'Split on a delimiter and keep one part',
+    createDefault: () => ({ type: 'split', delimiter: ' ', index: 0 }),
+  },
+  {
+    type: 'dateFormat',
+    label: 'Date Format',
+    description: 'Reformat a date (YYYY, MM, DD, HH, mm)',
+    createDefault: () => ({ type: 'dateFormat', format: 'YYYY-MM-DD' }),
+  },
+  {
+    type: 'numberFormat',
+    label: 'Number Format',
+    description: 'Round to fixed decimals',
+    createDefault: () => ({ type: 'numberFormat', decimals: 2, useGrouping: false }),
+  },
+  {
+    type: 'defaultIfEmpty',
+    label: 'Default If Empty',
+    description: 'Use a fallback when the value is empty',
+    createDefault: () => ({ type: 'defaultIfEmpty', value: '' }),
+  },
+];
+
+/**
+ * Looks up the editor metadata for a transform type
+ *
+ * @param type - The transform type
+ * @returns The matching definition
+ */
+export function getTransformDefinition(type: TransformType): TransformDefinition {
+  return TRANSFORM_DEFINITIONS.find(def => def.type === type)!;
+}
+
+/**
+ * Checks whether an unknown value is a step the pipeline can run
+ * The type must be registered and every option must have the type of the
+ * option its default step carries (a substring's end may be left out)
+ *
+ * @param value - A step from an untrusted source, e.g. server data
+ * @returns true if the step is well-formed
+ */
+export function isTransformStep(value: unknown): value is TransformStep {
+  if (typeof value !== 'object' || value === null) return false;
+  const step = value as Record<string, unknown>;
+  const definition = TRANSFORM_DEFINITIONS.find(def => def.type === step.type);
+  if (!definition) return false;
+
+  const hasOptionTypes = Object.entries(definition.createDefault()).every(([key, option]) =>
+    typeof option === 'number' ? Number.isFinite(step[key]) : typeof step[key] === typeof option
+  );
+  const hasValidEnd = step.type !== 'substring' || step.end === undefined || Number.isFinite(step.end);
+  return hasOptionTypes && hasValidEnd;
+}
+
+/**
+ * Pads a number with a leading zero to two digits
+ */
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Formats a date string using simple YYYY/MM/DD/HH/mm tokens
+ * Invalid dates are returned unchanged so the pipeline never loses data
+ */
+function formatDate(value: string, format: string): string {
+  const date = new Date(value);
+  if (!value || Number.isNaN(date.getTime())) {
+    return value;
+  }
+
+  return format
+    .replace(/YYYY/g, String(date.getUTCFullYear()))
+    .replace(/MM/g, pad(date.getUTCMonth() + 1))
+    .replace(/DD/g, pad(date.getUTCDate()))
+    .replace(/HH/g, pad(date.getUTCHours()))
+    .replace(/mm/g, pad(date.getUTCMinutes()));
+}
+
+/** Most decimals a number can be formatted with (the limit of toLocaleString) */
+export const MAX_DECIMALS = 20;
+
+/**
+ * Brings a decimals setting into the range toLocaleString accepts
+ * Fractions are dropped and anything that isn't a number becomes 0
+ */
+export function clampDecimals(decimals: number): number {
+  if (!Number.isFinite(decimals)) {
+    return 0;
+  }
+  return Math.min(MAX_DECIMALS, Math.max(0, Math.trunc(decimals)));
+}
+
+/**
+ * Formats a numeric string with fixed decimals
+ * Non-numeric values are returned unchanged; out-of-range decimals are clamped
+ */
+function formatNumber(value: string, decimals: number, useGrouping: boolean): string {
+  const num = Number(value);
+  if (value.trim() === '' || Number.isNaN(num)) {
+    return value;
+  }
+
+  const digits = clampDecimals(decimals);
+  return num.toLocaleString('en-US', {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+    useGrouping,
+  });
+}
+
+/**
+ * Applies a single transform step to a value
+ *
+ * @param value - The input value
+ * @param step - The transform to apply
+ * @returns The transformed value
+ */
+export function applyTransform(value: string, step: TransformStep): string {
+  switch (step.type) {
+    case 'trim':
+      return value.trim();
+    case 'uppercase':
+      return value.toUpperCase();
+    case 'lowercase':
+      return value.toLowerCase();
+    case 'concatenate':
+      return `${step.prefix}${value}${step.suffix}`;
+    case 'substring':
+      return value.substring(step.start, step.end);
+    case 'split':
+      return value.split(step.delimiter)[step.index] ?? '';
+    case 'dateFormat':
+      return formatDate(value, step.format);
+    case 'numberFormat':
+      return formatNumber(value, step.decimals, step.useGrouping);
+    case 'defaultIfEmpty':
+      return value.trim() === '' ? step.value : value;
+  }
+}
+
+/**
+ * Runs a value through an ordered transformation pipeline
+ *
+ * @param value - The raw source value (null/undefined are treated as empty)
+ * @param steps - The transforms to apply in order
+ * @returns The final transformed value
+ *
+ * @example
+ * applyTransforms('  Ada Lovelace ', [{ type: 'trim' }, { type: 'split', delimiter: ' ', index: 0 }])
+ * // Returns 'Ada'
+ */
+export function applyTransforms(value: unknown, steps: TransformStep[] = []): string {
+  const initial = value === null || value === undefined ? '' : String(value);
+  return steps.reduce((current, step) => applyTransform(current, step), initial);
+}
+
+/**
+ * Produces a short human-readable summary of a transform step
+ *
+ * @param step - The transform to describe
+ * @returns Summary such as "Split on ' ' [0]"
+ */
+export function describeTransform(step: TransformStep): string {
+  switch (step.type) {
+    case 'trim':
+      return 'Trim';
+    case 'uppercase':
+      return 'Uppercase';
+    case 'lowercase':
+      return 'Lowercase';
+    case 'concatenate':
+      return `Concatenate "${step.prefix}…${step.suffix}"`;
+    case 'substring':
+      return `Substring ${step.start}–${step.end ?? 'end'}`;
+    case 'split':
+      return `Split on "${step.delimiter}" [${step.index}]`;
+    case 'dateFormat':
+      return `Date ${step.format}`;
+    case 'numberFormat':
+      return `Number (${step.decimals} dp)`;
+    case 'defaultIfEmpty':
+      return `Default "${step.value}"`;
+  }
+}
@@ -0,0 +1,235 @@
+import { FieldType } from '../types';
+
+/**
+ * How well a source field type can feed a target field type
+ * - exact: same type, value copied as-is
+ * - safe: converts without losing information (e.g., email → text)
+ * - lossy: converts, but may lose information or fail for some values (e.g., text → date)
+ * - incompatible: no meaningful conversion exists (e.g., date → checkbox)
+ */
+export type CompatibilityLevel = 'exact' | 'safe' | 'lossy' | 'incompatible';
+
+/**
+ * What to do when the user picks an incompatible source
+ * - block: the source cannot be selected
+ * - warn: the source can be selected after confirming a warning
+ */
+export type IncompatiblePolicy = 'block' | 'warn';
+
+/**
+ * Converts a source value to the target type
+ * Returns null when the value cannot be converted
+ */
+export type CoercionFunction = (value: unknown) => unknown;
+
+/**
+ * A single entry in the compatibility matrix
+ */
+export interface CompatibilityRule {
+  /** Source field type */
+  source: FieldType;
+  /** Target field type */
+  target: FieldType;
+  /** Classification of the pair */
+  level: CompatibilityLevel;
+  /** Short explanation shown to the user */
+  description: string;
+  /** Converts a source value for the target field */
+  coerce: CoercionFunction;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const identity: CoercionFunction = value => value;
+const toText: CoercionFunction = value =>
+  value === null || value === undefined
+    ? ''
+    : Array.isArray(value)
+      ? value.join(', ')
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+const rejectAll: CoercionFunction = () => null;
+
+/**
+ * Registry of type compatibility rules using the same pluggable pattern as DataSourceRegistry
+ * Pairs without a registered rule are exact when the types match and incompatible otherwise
+ *
+ * @example
+ * const matrix = createDefaultCompatibilityMatrix();
+ * matrix.register({ source: 'number', target: 'date', level: 'lossy', ... });
+ * matrix.classify('email', 'text').level // 'safe'
+ */
+export class TypeCompatibilityMatrix {
+  private rules: Map<string, CompatibilityRule> = new Map();
+
+  /**
+   * Register (or replace) the rule for a source/target pair
+   * @param rule - The rule to register
+   */
+  register(rule: CompatibilityRule): void {
+    this.rules.set(this.key(rule.source, rule.target), rule);
+  }
+
+  /**
+   * Classify a source/target pair
+   * @param source - Source field type
+   * @param target - Target field type
+   * @returns The registered rule, or a default exact/incompatible rule
+   */
+  classify(source: FieldType, target: FieldType): CompatibilityRule {
+    const rule = this.rules.get(this.key(source, target));
+    if (rule) {
+      return rule;
+    }
+
+    if (source === target) {
+      return { source, target, level: 'exact', description: 'Types match', coerce: identity };
+    }
+
+    return {
+      source,
+      target,
+      level: 'incompatible',
+      description: `A ${source} value cannot be converted to ${target}.`,
+      coerce: rejectAll,
+    };
+  }
+
+  /**
+   * Convert a value between two field types using the matching rule
+   * @param value - The source value
+   * @param source - Source field type
+   * @param target - Target field type
+   * @returns The converted value, or null if it cannot be converted
+   */
+  coerce(value: unknown, source: FieldType, target: FieldType): unknown {
+    return this.classify(source, target).coerce(value);
+  }
+
+  /**
+   * Get all registered rules
+   * @returns Array of registered rules
+   */
+  getAll(): CompatibilityRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  private key(source: FieldType, target: FieldType): string {
+    return `${source}->${target}`;
+  }
+}
+
+/**
+ * Creates a matrix populated with the built-in conversion rules
+ * @returns A new matrix that callers may extend with their own rules
+ */
+export function createDefaultCompatibilityMatrix(): TypeCompatibilityMatrix {
+  const matrix = new TypeCompatibilityMatrix();
+
+  // Anything with a readable representation converts safely to text
+  (['email', 'date', 'number', 'checkbox', 'button'] as FieldType[]).forEach(source => {
+    matrix.register({
+      source,
+      target: 'text',
+      level: 'safe',
+      description: `${source} values are copied as text.`,
+      coerce: toText,
+    });
+  });
+
+  matrix.register({
+    source: 'object',
+    target: 'text',
+    level: 'lossy',
+    description: 'Objects are serialized to JSON text and lose their structure.',
+    coerce: toText,
+  });
+
+  matrix.register({
+    source: 'text',
+    target: 'email',
+    level: 'lossy',
+    description: 'Text that is not a valid email address will be dropped.',
+    coerce: value => {
+      const text = toText(value) as string;
+      return EMAIL_PATTERN.test(text.trim()) ? text.trim() : null;
+    },
+  });
+
+  matrix.register({
+    source: 'text',
+    target: 'date',
+    level: 'lossy',
+    description: 'Text that cannot be parsed as a date will be dropped.',
+    coerce: value => {
+      const date = new Date(toText(value) as string);
+      return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+    },
+  });
+
+  matrix.register({
+    source: 'text',
+    target: 'number',
+    level: 'lossy',
+    description: 'Text that is not numeric will be dropped.',
+    coerce: value => {
+      const text = (toText(value) as string).trim();
+      const num = Number(text);
+      return text === '' || Number.isNaN(num) ? null : num;
+    },
+  });
+
+  matrix.register({
+    source: 'text',
+    target: 'checkbox',
+    level: 'lossy',
+    description: 'Text is split on commas; options that do not exist are ignored.',
+    coerce: value =>
+      (toText(value) as string)
+        .split(',')
+        .map(option => option.trim())
+        .filter(option => option !== ''),
+  });
+
+  matrix.register({
+    source: 'text',
+    target: 'object',
+    level: 'lossy',
+    description: 'Text that is not a JSON object will be dropped.',
+    coerce: value => {
+      try {
+        const parsed = JSON.parse(toText(value) as string);
+        return parsed !== null && typeof parsed === 'object' ? parsed : null;
+      } catch {
+        return null;
+      }
+    },
+  });
+
+  return matrix;
+}
+
+/**
+ * Shared matrix used when a component is not given its own
+ */
+export const defaultCompatibilityMatrix = createDefaultCompatibilityMatrix();
+
+/**
+ * The field types a mapping should record for a source/target pair
+ * Only converting pairs are recorded: exact pairs need no conversion, and
+ * incompatible sources the user accepted pass through unchanged
+ *
+ * @param source - Source field type
+ * @param target - Target field type
+ * @param matrix - Rules used to classify the pair
+ * @returns The pair to store on the mapping, or undefined to store none
+ */
+export function fieldTypesToRecord(
+  source: FieldType,
+  target: FieldType,
+  matrix: TypeCompatibilityMatrix = defaultCompatibilityMatrix
+): { source: FieldType; target: FieldType } | undefined {
+  const { level } = matrix.classify(source, target);
+  return level === 'safe' || level === 'lossy' ? { source, target } : undefined;
+}
@@ -17,6 +17,8 @@ export interface FormField {
   label: string;
   /** Type of the field */
   type: FieldType;
+  /** Nested sub-properties or array item fields (IDs are dotted paths, e.g. "address.city") */
+  children?: FormField[];
 }
 
 /**
@@ -31,6 +33,8 @@ export interface Form {
   fields: FormField[];
   /** List of form IDs that this form depends on (direct dependencies) */
   dependencies: string[];
+  /** Where the blueprint places the form on its canvas */
+  position?: { x: number; y: number };
 }
 
 /**
@@ -52,6 +56,8 @@ export interface DataField {
   type: FieldType;
   /** Full path to this field (e.g., "Form A.email") */
   path: string;
+  /** Nested sub-properties or array item fields */
+  children?: DataField[];
 }
 
 /**
@@ -62,6 +68,9 @@ export type DataSourceType = 'form' | 'global' | 'custom';
 /**
  * Interface that all data sources must implement
  * This enables the extensibility pattern - new data sources just implement this interface
+ *
+ * Sources whose fields come from an endpoint also implement `loadFields`;
+ * their `getFields` returns the fields loaded so far (none before the first load).
  */
 export interface DataSource {
   /** Unique identifier for this data source */
@@ -72,25 +81,144 @@ export interface DataSource {
   type: DataSourceType;
   /** Get all fields available from this data source */
   getFields(): DataField[];
+  /** Load the fields; rejects with an AbortError when the signal aborts first */
+  loadFields?(signal?: AbortSignal): Promise<DataField[]>;
+}
+
+/**
+ * What a plugin data source can look at to decide whether it is offered
+ */
+export interface DataSourceAvailabilityContext {
+  /** The form being prefilled */
+  targetForm: Form;
+  /** IDs of every form the target form depends on, directly or transitively */
+  ancestors: Set<string>;
+  /** The complete form graph */
+  formGraph: FormGraph;
+}
+
+/**
+ * A data source contributed by the host application
+ * Plugin sources are listed in a section of their own and their mappings are
+ * stored with sourceType 'custom' and the plugin's ID
+ *
+ * @example
+ * // Offered only to forms downstream of the KYC form
+ * const crm: DataSourcePlugin = {
+ *   id: 'crm', name: 'CRM', type: 'custom',
+ *   getFields: () => [{ id: 'owner', label: 'Owner', type: 'text', path: 'CRM.Owner' }],
+ *   isAvailable: ({ ancestors }) => ancestors.has('form-kyc'),
+ * };
+ */
+export interface DataSourcePlugin extends DataSource {
+  type: 'custom';
+  /** Whether the source is offered for a form (always, when omitted) */
+  isAvailable?(context: DataSourceAvailabilityContext): boolean;
+}
+
+/**
+ * Kind of transformation that can be applied to a prefill value
+ */
+export type TransformType =
+  | 'trim'
+  | 'uppercase'
+  | 'lowercase'
+  | 'concatenate'
+  | 'substring'
+  | 'split'
+  | 'dateFormat'
+  | 'numberFormat'
+  | 'defaultIfEmpty';
+
+/**
+ * A single step in a mapping's transformation pipeline
+ * Each variant carries only the options that transform needs
+ */
+export type TransformStep =
+  | { type: 'trim' }
+  | { type: 'uppercase' }
+  | { type: 'lowercase' }
+  /** Wraps the value with a fixed prefix and/or suffix */
+  | { type: 'concatenate'; prefix: string; suffix: string }
+  /** Keeps characters from start (inclusive) to end (exclusive) */
+  | { type: 'substring'; start: number; end?: number }
+  /** Splits on a delimiter and keeps one part (e.g., first name from full name) */
+  | { type: 'split'; delimiter: string; index: number }
+  /** Reformats a date using YYYY, MM, DD, HH and mm tokens */
+  | { type: 'dateFormat'; format: string }
+  /** Rounds to a fixed number of decimals, optionally grouping thousands */
+  | { type: 'numberFormat'; decimals: number; useGrouping: boolean }
+  /** Substitutes a fallback when the value is empty */
+  | { type: 'defaultIfEmpty'; value: string };
+
+/**
+ * Kind of source a prefill mapping reads from
+ */
+export type PrefillSourceType = 'form' | 'global' | 'constant' | 'custom';
+
+/**
+ * A typed literal used by constant mappings
+ * Strings cover text, email, date (YYYY-MM-DD) and JSON objects;
+ * string arrays represent a preset checkbox selection
+ */
+export type ConstantValue = string | number | boolean | string[];
+
+/**
+ * Comparison used by a mapping condition
+ */
+export type ConditionOperator = 'equals' | 'notEquals' | 'contains' | 'isEmpty' | 'isNotEmpty';
+
+/**
+ * A when-rule deciding whether a mapping applies
+ * Reads a field from a form or global source visible to the target form
+ *
+ * @example
+ * // Only if Form B.Survey Status equals 'complete'
+ * { sourceType: 'form', sourceFormId: 'form-b', sourceFieldId: 'status',
+ *   sourcePath: 'Form B.Survey Status', operator: 'equals', value: 'complete' }
+ */
+export interface MappingCondition {
+  /** Type of the source the compared value comes from */
+  sourceType: 'form' | 'global';
+  /** ID of the source form (if sourceType is 'form') */
+  sourceFormId?: string;
+  /** ID of the compared field */
+  sourceFieldId: string;
+  /** Human-readable path to the compared field */
+  sourcePath: string;
+  /** How the field value is compared */
+  operator: ConditionOperator;
+  /** Value to compare against (unused for isEmpty/isNotEmpty) */
+  value?: string;
 }
 
 /**
  * Represents a prefill mapping configuration
- * Maps a target form field to a source field from another form or global data
+ * Maps a target form field to a source field from another form, global data, or a constant
  */
 export interface PrefillMapping {
   /** ID of the form being prefilled */
   targetFormId: string;
   /** ID of the field being prefilled */
   targetFieldId: string;
-  /** Type of the source (form or global) */
-  sourceType: 'form' | 'global';
+  /** Type of the source (form, global, constant or a plugin source) */
+  sourceType: PrefillSourceType;
   /** ID of the source form (if sourceType is 'form') */
   sourceFormId?: string;
-  /** ID of the source field */
+  /** ID of the plugin data source (if sourceType is 'custom') */
+  sourceId?: string;
+  /** ID of the source field (empty for constants) */
   sourceFieldId: string;
   /** Human-readable path to the source (e.g., "Form A.email") */
   sourcePath: string;
+  /** Literal value to prefill (if sourceType is 'constant') */
+  constantValue?: ConstantValue;
+  /** Ordered transformations applied to the source value before prefilling */
+  transforms?: TransformStep[];
+  /** Rule that must hold for this mapping to apply */
+  condition?: MappingCondition;
+  /** Source and target field types, recorded when the value must be converted */
+  fieldTypes?: { source: FieldType; target: FieldType };
 }
 
 /**
@@ -101,6 +229,27 @@ export interface GlobalData {
   actionProperties: string[];
   /** Properties related to the client organization */
   clientOrgProperties: string[];
+  /** Field type per action property (properties not listed are text) */
+  actionPropertyTypes?: Record<string, FieldType>;
+  /** Field type per client organization property (properties not listed are text) */
+  clientOrgPropertyTypes?: Record<string, FieldType>;
+}
+
+/**
+ * Identifies one blueprint of one tenant
+ */
+export interface BlueprintRef {
+  tenantId: string;
+  blueprintId: string;
+}
+
+/**
+ * A blueprint as listed for a tenant
+ */
+export interface BlueprintSummary {
+  id: string;
+  name: string;
+  description?: string;
 }
 
 /**
@@ -111,6 +260,106 @@ export interface FormBlueprintResponse {
   forms: Form[];
   /** Global data sources */
   globalData: GlobalData;
+  /** Prefill mappings already stored server-side in node input_mapping */
+  serverMappings: PrefillMapping[];
+  /** The raw blueprint the forms were built from (kept for export) */
+  blueprint: MockServerResponse;
+  /** input_mapping version per node ID, for nodes that report one */
+  nodeVersions: Record<string, string>;
+  /** Disagreements between node prerequisites and graph edges */
+  dependencyIssues: DependencyIssue[];
+}
+
+/**
+ * Kinds of disagreement between prerequisites and edges
+ * - edgeWithoutPrerequisite: an edge the target node does not list as a prerequisite
+ * - missingNode: a prerequisite or edge that refers to a node not in the blueprint
+ * - duplicate: the same dependency listed more than once by the same origin
+ */
+export type DependencyIssueType = 'edgeWithoutPrerequisite' | 'missingNode' | 'duplicate';
+
+/**
+ * One finding of the dependency reconciliation
+ */
+export interface DependencyIssue {
+  type: DependencyIssueType;
+  /** Where the dependency was declared */
+  origin: 'prerequisite' | 'edge';
+  /** The dependent node (edge target / node declaring the prerequisite) */
+  nodeId: string;
+  /** The node depended upon (edge source / prerequisite) */
+  dependencyId: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * How the server-side and locally stored mappings of one target field relate
+ */
+export type ReconciliationStatus = 'match' | 'serverOnly' | 'localOnly' | 'conflict';
+
+/**
+ * Comparison of the server and local mapping chains for one target field
+ */
+export interface MappingReconciliationEntry {
+  /** ID of the form being prefilled */
+  targetFormId: string;
+  /** ID of the field being prefilled */
+  targetFieldId: string;
+  /** How the two chains relate */
+  status: ReconciliationStatus;
+  /** Chain parsed from the blueprint input_mapping */
+  server: PrefillMapping[];
+  /** Chain stored locally */
+  local: PrefillMapping[];
+}
+
+/**
+ * Kinds of difference between two versions of a blueprint
+ */
+export type BlueprintChangeType =
+  | 'formAdded'
+  | 'formRemoved'
+  | 'formRenamed'
+  | 'fieldAdded'
+  | 'fieldRemoved'
+  | 'fieldRenamed'
+  | 'fieldRetyped'
+  | 'dependencyAdded'
+  | 'dependencyRemoved';
+
+/**
+ * One difference between two versions of a blueprint, with the stored
+ * mappings it affects
+ */
+export interface BlueprintChange {
+  type: BlueprintChangeType;
+  /** ID of the form that changed */
+  formId: string;
+  /** ID of the field that changed, as it was in the older version */
+  fieldId?: string;
+  /** New ID of a field whose key was renamed */
+  newFieldId?: string;
+  /** ID of the prerequisite form that was added or removed */
+  dependencyId?: string;
+  /** Human-readable summary */
+  description: string;
+  /** Mappings that read or prefill what changed */
+  affectedMappings: PrefillMapping[];
+}
+
+/**
+ * How a form is reached from a form that depends on it
+ *
+ * @example
+ * // Form D depends on Form B, which depends on Form A
+ * { distance: 2, paths: [['form-d', 'form-b', 'form-a']] }
+ */
+export interface DependencyRoute {
+  /** Fewest dependency hops between the two forms */
+  distance: number;
+  /** Shortest chains of form IDs, from the dependent form to the reached one */
+  paths: string[][];
 }
 
 /**
@@ -119,10 +368,25 @@ export interface FormBlueprintResponse {
 export interface CategorizedDataSources {
   /** Forms that the target form directly depends on */
   directDependencies: DataSource[];
-  /** Forms that the target form transitively depends on */
+  /** Forms that the target form transitively depends on, nearest first */
   transitiveDependencies: DataSource[];
   /** Global data sources (action properties, org properties, etc.) */
   globalSources: DataSource[];
+  /** Plugin data sources available to the target form */
+  customSources: DataSource[];
+  /** How the target form reaches each form it depends on, by form ID */
+  dependencyRoutes: Map<string, DependencyRoute>;
+}
+
+/**
+ * A problem found while validating an API response
+ * `path` addresses the offending value, e.g. "forms[3].field_schema.properties"
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  /** Errors make the response unusable; warnings are tolerated */
+  severity: 'error' | 'warning';
 }
 
 /**
@@ -130,6 +394,79 @@ export interface CategorizedDataSources {
  * These represent the structure returned by the Avantos mock server
  */
 
+/**
+ * A single prefill entry in a node's input_mapping, keyed by target field ID
+ * An ordered array of entries describes a fallback chain
+ *
+ * @example
+ * "input_mapping": {
+ *   "email": { "type": "form_field", "component_key": "form-a", "property": "email" },
+ *   "priority": { "type": "constant", "value": "normal" }
+ * }
+ */
+export type AvantosInputMappingEntry = (
+  /** A field on an upstream form node (component_key is the node ID) */
+  | { type: 'form_field'; component_key: string; property: string }
+  /** An action (journey) property */
+  | { type: 'action_property'; property: string }
+  /** A client organisation property */
+  | { type: 'client_organisation_property'; property: string }
+  /** A static literal */
+  | { type: 'constant'; value: ConstantValue }
+  /** A field of a data source contributed by a plugin of this app (source_path is its display path) */
+  | { type: 'custom_source'; source_id: string; property: string; source_path?: string }
+) & AvantosInputMappingExtensions;
+
+/**
+ * Optional keys this app adds to input_mapping entries so that transforms,
+ * conditions and type conversions survive a round trip; the platform ignores
+ * keys it doesn't know
+ */
+export interface AvantosInputMappingExtensions {
+  transforms?: TransformStep[];
+  condition?: MappingCondition;
+  field_types?: { source: FieldType; target: FieldType };
+}
+
+/**
+ * A node's input_mapping: one entry, or a fallback chain, per target field ID
+ */
+export type AvantosInputMapping = Record<string, AvantosInputMappingEntry | AvantosInputMappingEntry[]>;
+
+/**
+ * A node's input_mapping as stored on the server, with its current version
+ */
+export interface NodeInputMappingState {
+  inputMapping: AvantosInputMapping;
+  version: string;
+}
+
+/**
+ * A write that was rejected because someone else changed the node first
+ */
+export interface MappingConflict {
+  /** ID of the node (form) both sides changed */
+  nodeId: string;
+  /** The node's mappings as edited locally */
+  local: PrefillMapping[];
+  /** The node's mappings as currently stored on the server */
+  server: PrefillMapping[];
+  /** Version of the server state, used to overwrite it */
+  serverVersion: string;
+}
+
+/**
+ * Minimal document describing only the nodes whose input_mapping changed
+ */
+export interface InputMappingPatch {
+  tenant_id: string;
+  blueprint_id: string;
+  nodes: {
+    id: string;
+    input_mapping: AvantosInputMapping;
+  }[];
+}
+
 /**
  * A node in the action blueprint graph (represents a form)
  */
@@ -149,6 +486,8 @@ export interface MockServerNode {
     prerequisites: string[];
     permitted_roles: string[];
     input_mapping: Record<string, unknown>;
+    /** Opaque version of input_mapping, sent back as If-Match when writing it */
+    input_mapping_version?: string;
     sla_duration: {
       number: number;
       unit: string;
@@ -158,6 +497,21 @@ export interface MockServerNode {
   };
 }
 
+/**
+ * JSON-schema style definition of a single field
+ * Nested object properties and array items reuse the same shape; they may
+ * omit `avantos_type` and `title`
+ */
+export interface MockServerFieldSchema {
+  avantos_type?: string;
+  title?: string;
+  type: string;
+  format?: string;
+  items?: MockServerFieldSchema;
+  enum?: unknown;
+  properties?: Record<string, MockServerFieldSchema>;
+}
+
 /**
  * A form template definition from the mock server
  */
@@ -168,20 +522,31 @@ export interface MockServerFormTemplate {
   is_reusable: boolean;
   field_schema: {
     type: string;
-    properties: Record<string, {
-      avantos_type: string;
-      title: string;
-      type: string;
-      format?: string;
-      items?: unknown;
-      enum?: unknown;
-    }>;
+    properties: Record<string, MockServerFieldSchema>;
     required?: string[];
   };
   ui_schema?: unknown;
   dynamic_field_config?: unknown;
 }
 
+/**
+ * One entry of the global properties catalog
+ * `type` and `format` follow JSON schema, like form field schemas
+ */
+export interface MockServerGlobalProperty {
+  name: string;
+  type: string;
+  format?: string;
+}
+
+/**
+ * Response of the global properties endpoint
+ */
+export interface MockServerGlobalPropertiesResponse {
+  action_properties: MockServerGlobalProperty[];
+  client_organisation_properties: MockServerGlobalProperty[];
+}
+
 /**
  * An edge in the graph (represents a dependency)
  */
@@ -1,17 +1,23 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
+import { mockApiPlugin } from './src/mocks/mockApiPlugin';
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
+// `vite --mode mock` (npm run dev:mock) serves /api from the bundled mock API
+// instead of proxying to the mock server on localhost:3000
+export default defineConfig(({ mode }) => ({
+  plugins: mode === 'mock' ? [react(), mockApiPlugin(process.env.MOCK_SCENARIO)] : [react()],
   server: {
-    proxy: {
-      '/api': {
-        target: 'http://localhost:3000',
-        changeOrigin: true,
-      }
-    }
+    proxy:
+      mode === 'mock'
+        ? undefined
+        : {
+            '/api': {
+              target: 'http://localhost:3000',
+              changeOrigin: true,
+            },
+          },
   },
   resolve: {
     alias: {
@@ -30,6 +36,7 @@ export default defineConfig({
       exclude: [
         'node_modules/',
         'src/test/',
+        'src/mocks/',
         '**/*.test.{ts,tsx}',
         '**/*.spec.{ts,tsx}',
         '**/types/',
@@ -39,4 +46,4 @@ export default defineConfig({
       ],
     },
   },
-});
+}));